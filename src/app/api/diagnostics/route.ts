@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSite } from '@/lib/site';
+import { formatDateValue } from '@/lib/date-utils';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/diagnostics?site=
+ *
+ * Poll loop timing, plus each inverter's poll latency histogram, timeout/error counts and last success.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const siteId = request.nextUrl.searchParams.get('site');
+    const site = getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { success: false, error: `Unknown site "${siteId}"` },
+        { status: 404 }
+      );
+    }
+
+    const diagnostics = site.getDiagnostics();
+
+    return NextResponse.json({
+      success: true,
+      ...diagnostics,
+      timestamp: formatDateValue(diagnostics.timestamp),
+      polling: {
+        ...diagnostics.polling,
+        nextReportAt: formatDateValue(diagnostics.polling.nextReportAt)
+      },
+      inverters: diagnostics.inverters.map(inverter => ({
+        ...inverter,
+        lastSuccess: formatDateValue(inverter.lastSuccess),
+        lastFailure: formatDateValue(inverter.lastFailure)
+      }))
+    });
+  } catch (error) {
+    console.error('Error getting diagnostics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,7 +9,14 @@ export async function POST(request: NextRequest) {
     const action = body.action;
     
     if (action === 'scan') {
-      const site = getSite();
+      const siteId = request.nextUrl.searchParams.get('site');
+      const site = getSite(siteId);
+      if (!site) {
+        return NextResponse.json(
+          { success: false, error: `Unknown site "${siteId}"` },
+          { status: 404 }
+        );
+      }
       // Don't await - let it run in background
       site.scanForDevices();
       
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSite } from '@/lib/site';
+import { formatLocalDateTime } from '@/lib/date-utils';
+import { parseHistoryQuery, rollupMinutely } from '@/lib/history-rollup';
+
+export const runtime = 'nodejs';
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    { success: false, error },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET /api/history?site=&from=&to=&interval=&serial=
+ *
+ * Returns FroniusMinutely-shaped records for [from, to), rolled up to the requested interval.
+ * When serial is given, only that inverter's energy flows are included.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+
+    const query = parseHistoryQuery(params);
+    if ('error' in query) {
+      return badRequest(query.error);
+    }
+    const { from: fromDate, to: toDate, interval, serialNumber } = query;
+
+    const siteId = params.get('site');
+    const site = getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { success: false, error: `Unknown site "${siteId}"` },
+        { status: 404 }
+      );
+    }
+
+    const historyStore = site.getHistoryStore();
+    if (!historyStore) {
+      return NextResponse.json(
+        { success: false, error: 'History storage is not enabled' },
+        { status: 503 }
+      );
+    }
+
+    const records = serialNumber
+      ? await historyStore.readInverterMinutely(fromDate, toDate, serialNumber)
+      : await historyStore.readMinutely(fromDate, toDate);
+
+    return NextResponse.json({
+      success: true,
+      from: formatLocalDateTime(fromDate),
+      to: formatLocalDateTime(toDate),
+      interval,
+      serialNumber: serialNumber ?? null,
+      records: interval === 'minute' ? records : rollupMinutely(records, interval)
+    });
+  } catch (error) {
+    console.error('Error reading history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
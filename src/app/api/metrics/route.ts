@@ -0,0 +1,23 @@
+import { getSites } from '@/lib/site';
+import { renderPrometheusMetrics } from '@/lib/prometheus';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/metrics
+ *
+ * Every site's power, energy counters, faults, poll latency, LiveOne pushes and scans in Prometheus text format.
+ */
+export async function GET() {
+  try {
+    return new Response(renderPrometheusMetrics(getSites()), {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Error rendering metrics:', error);
+    return new Response('Internal server error\n', { status: 500 });
+  }
+}
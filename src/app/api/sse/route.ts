@@ -13,14 +13,21 @@ const dateReplacer = (key: string, value: any) => {
 };
 
 export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get('site');
+  const site = getSite(siteId);
+  if (!site) {
+    return Response.json(
+      { success: false, error: `Unknown site "${siteId}"` },
+      { status: 404 }
+    );
+  }
+  
   const encoder = new TextEncoder();
   let intervalId: NodeJS.Timeout;
   let isConnected = true;
 
   const stream = new ReadableStream({
     async start(controller) {
-      const site = getSite();
-      
       // Send initial connection
       controller.enqueue(encoder.encode(': connected\n\n'));
       
@@ -114,12 +121,35 @@ export async function GET(request: NextRequest) {
         }
       };
       
+      // Listen for poll timing diagnostics (every 10 seconds)
+      const handleDiagnostics = (data: any) => {
+        if (isConnected) {
+          controller.enqueue(
+            encoder.encode(`event: diagnostics\ndata: ${JSON.stringify(data, dateReplacer)}\n\n`)
+          );
+        }
+      };
+      
+      // Listen for inverters added, moved or gone missing during a scan, and faults raised or cleared
+      const inverterChangeHandlers = ['inverterAdded', 'inverterMoved', 'inverterRemoved', 'inverterFault'].map(event => {
+        const handler = (data: any) => {
+          if (isConnected) {
+            controller.enqueue(
+              encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data, dateReplacer)}\n\n`)
+            );
+          }
+        };
+        site.on(event, handler);
+        return { event, handler };
+      });
+      
       // Register event listeners
       site.on('siteUpdate', handleSiteUpdate);
       site.on('scanStatus', handleScanStatus);
       site.on('froniusMinutely', handleFroniusMinutely);
       site.on('inverterHeartbeat', handleInverterHeartbeat);
       site.on('siteMetrics', handleSiteMetrics);
+      site.on('diagnostics', handleDiagnostics);
       
       // Keep connection alive with heartbeat
       intervalId = setInterval(() => {
@@ -137,6 +167,8 @@ export async function GET(request: NextRequest) {
         site.removeListener('froniusMinutely', handleFroniusMinutely);
         site.removeListener('inverterHeartbeat', handleInverterHeartbeat);
         site.removeListener('siteMetrics', handleSiteMetrics);
+        site.removeListener('diagnostics', handleDiagnostics);
+        inverterChangeHandlers.forEach(({ event, handler }) => site.removeListener(event, handler));
         controller.close();
       });
     },
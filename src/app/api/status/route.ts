@@ -1,19 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSite } from '@/lib/site';
+import { getSite, getSites } from '@/lib/site';
 import { formatDateValue } from '@/lib/date-utils';
 
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
   try {
-    const site = getSite();
+    const siteId = request.nextUrl.searchParams.get('site');
+    const site = getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { success: false, error: `Unknown site "${siteId}"` },
+        { status: 404 }
+      );
+    }
     const status = site.getStatus();
     
     // Format dates in devices
     const formattedDevices = status.devices.map((device: any) => ({
       ...device,
       lastUpdated: formatDateValue(device.lastUpdated),
-      lastDataFetch: formatDateValue(device.lastDataFetch)
+      lastDataFetch: formatDateValue(device.lastDataFetch),
+      absentSince: formatDateValue(device.absentSince),
+      polling: {
+        ...device.polling,
+        since: formatDateValue(device.polling.since),
+        nextPollAt: formatDateValue(device.polling.nextPollAt),
+        sunrise: formatDateValue(device.polling.sunrise),
+        sunset: formatDateValue(device.polling.sunset)
+      }
     }));
     
     // Get energy counters for all devices
@@ -28,9 +43,15 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json({
       success: true,
+      siteId: site.getId(),
+      siteName: site.getName(),
+      sites: getSites().map(s => ({ id: s.getId(), name: s.getName() })),
       deviceCount: status.deviceCount,
       lastScan: formatDateValue(status.lastScan),
       isScanning: status.isScanning,
+      scanProgress: status.scanProgress,
+      lastRestore: status.lastRestore,
+      configIssues: status.configIssues,
       devices: formattedDevices,
       energyCounters
     });
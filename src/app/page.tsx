@@ -15,6 +15,10 @@ import { DeviceInfo } from '@/types/device';
 import FroniusMinutelyDisplay from '@/components/FroniusMinutelyDisplay';
 import PowerCard from '@/components/PowerCard';
 import HealthIndicator from '@/components/HealthIndicator';
+import PhasePanel from '@/components/PhasePanel';
+import BatteryPanel from '@/components/BatteryPanel';
+import StringsPanel from '@/components/StringsPanel';
+import MetersPanel from '@/components/MetersPanel';
 
 const PowerChart = dynamic(() => import('@/components/PowerChart'), { 
   ssr: false,
@@ -42,12 +46,27 @@ interface FroniusDevice {
   } | null;
   lastUpdated?: string;
   lastDataFetch?: string;
+  absentSince?: string;
   name?: string;
 }
 
+interface MeterDevice {
+  id: string;
+  ownerSerialNumber: string;
+  name: string;
+  category: string;
+}
+
+// An entry in the site switcher
+interface SiteSummary {
+  id: string;
+  name: string;
+}
+
 interface SiteInfo {
   name: string;
   devices: FroniusDevice[];
+  meters?: MeterDevice[];
   power: {
     solarW: number | null;
     batteryW: number | null;
@@ -79,11 +98,26 @@ export default function Home() {
   const [, forceUpdate] = useState({});
   const [historicalData, setHistoricalData] = useState<any[]>([]);
   const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [scanProgress, setScanProgress] = useState<{ phase: 'ping' | 'sweep' | 'probe'; checked: number; total: number } | null>(null);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [latestSiteMetrics, setLatestSiteMetrics] = useState<any>(null);
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+  const [siteId, setSiteId] = useState<string | null>(null);  // From ?site=, '' for the default site; null until read
+
+  // Which site to show comes from the URL, so it survives a reload
+  useEffect(() => {
+    setSiteId(new URLSearchParams(window.location.search).get('site') ?? '');
+  }, []);
+
+  const siteQuery = siteId ? `?site=${encodeURIComponent(siteId)}` : '';
 
   // Initialise SSE connection
   useEffect(() => {
+    if (siteId === null) {
+      return;
+    }
+    let cancelled = false;  // Set when switching sites, so a pending reconnect doesn't reopen the old site's stream
+    
     const connectSSE = () => {
       // Close any existing connection
       if (eventSourceRef.current) {
@@ -91,7 +125,7 @@ export default function Home() {
       }
       
       console.log('Connecting to SSE...');
-      const eventSource = new EventSource('/api/sse');
+      const eventSource = new EventSource(`/api/sse${siteQuery}`);
       eventSourceRef.current = eventSource;
 
       eventSource.onopen = () => {
@@ -105,7 +139,7 @@ export default function Home() {
         eventSource.close();
         // Reconnect after 5 seconds
         setTimeout(() => {
-          if (eventSourceRef.current?.readyState === EventSource.CLOSED) {
+          if (!cancelled && eventSourceRef.current?.readyState === EventSource.CLOSED) {
             connectSSE();
           }
         }, 5000);
@@ -138,8 +172,10 @@ export default function Home() {
         
         if (status.state === 'SCANNING') {
           setIsScanning(true);
+          setScanProgress(status.progress ?? null);
         } else if (status.state === 'IDLE') {
           setIsScanning(false);
+          setScanProgress(null);
         }
       });
 
@@ -225,21 +261,30 @@ export default function Home() {
 
     connectSSE();
 
-    // Cleanup on unmount
+    // Cleanup on unmount or site switch
     return () => {
+      cancelled = true;
       if (eventSourceRef.current) {
         eventSourceRef.current.close();
       }
     };
-  }, []);
+  }, [siteId]);
 
   // Load initial status
   useEffect(() => {
+    if (siteId === null) {
+      return;
+    }
+    
     // Load device status
-    fetch('/api/status')
+    fetch(`/api/status${siteQuery}`)
       .then(res => res.json())
       .then(data => {
         if (data.success) {
+          if (data.sites) {
+            setSites(data.sites);
+          }
+          
           if (data.devices) {
             setDevices(data.devices);
           }
@@ -274,7 +319,7 @@ export default function Home() {
         console.error(error);
         setInitialLoadComplete(true);
       });
-  }, []);
+  }, [siteId]);
 
   // Update status dots every second
   useEffect(() => {
@@ -284,9 +329,25 @@ export default function Home() {
     return () => clearInterval(interval);
   }, []);
 
+  // Show another site, starting from a clean slate until its status and stream arrive
+  const switchSite = (id: string) => {
+    setDevices([]);
+    setSiteInfo(null);
+    setSelectedDevice(null);
+    setFroniusMinutelyHistory([]);
+    setHistoricalData([]);
+    setLatestSiteMetrics(null);
+    setIsScanning(false);
+    setScanProgress(null);
+    setLastUpdate(null);
+    setInitialLoadComplete(false);
+    setSiteId(id);
+    window.history.replaceState(null, '', `?site=${encodeURIComponent(id)}`);
+  };
+
   const scanDevices = async () => {
     try {
-      const response = await fetch('/api/do', {
+      const response = await fetch(`/api/do${siteQuery}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -319,6 +380,17 @@ export default function Home() {
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h1 className="text-3xl font-bold text-white">Fronius Pusher</h1>
+            {sites.length > 1 && (
+              <select
+                value={siteId || sites[0].id}
+                onChange={(e) => switchSite(e.target.value)}
+                className="bg-gray-900 text-white border border-gray-700 rounded-lg px-3 py-1"
+              >
+                {sites.map(site => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            )}
           </div>
           <button
             onClick={scanDevices}
@@ -331,7 +403,14 @@ export default function Home() {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                 </svg>
-                <span>Scanning...</span>
+                <span>
+                  Scanning...
+                  {scanProgress && scanProgress.total > 0 && (
+                    <span className="ml-1 text-sm text-blue-100">
+                      {scanProgress.phase} {scanProgress.checked}/{scanProgress.total}
+                    </span>
+                  )}
+                </span>
               </>
             ) : (
               <>
@@ -401,6 +480,20 @@ export default function Home() {
               />
             </div>
             
+            {/* Per-phase readings from the grid meter */}
+            {latestSiteMetrics?.site?.grid?.phases && (
+              <PhasePanel
+                phases={latestSiteMetrics.site.grid.phases}
+                frequencyHz={latestSiteMetrics.site.grid.frequencyHz}
+                powerFactor={latestSiteMetrics.site.grid.powerFactor}
+              />
+            )}
+            
+            {/* Subload, EV charger and other meters */}
+            {siteInfo?.meters && latestSiteMetrics && (
+              <MetersPanel meters={siteInfo.meters} readings={latestSiteMetrics} />
+            )}
+            
             {/* FroniusMinutely Display */}
             <FroniusMinutelyDisplay history={froniusMinutelyHistory} />
           </div>
@@ -426,6 +519,11 @@ export default function Home() {
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
                   <p className="text-gray-500 text-sm">Scanning for devices…</p>
+                  {scanProgress && scanProgress.total > 0 && (
+                    <p className="text-gray-600 text-xs mt-1">
+                      {scanProgress.phase === 'probe' ? 'Checked' : scanProgress.phase === 'ping' ? 'Pinged' : 'Swept'} {scanProgress.checked} of {scanProgress.total} {scanProgress.phase === 'probe' ? 'hosts' : 'addresses'}
+                    </p>
+                  )}
                 </>
               ) : (
                 <>
@@ -495,6 +593,11 @@ export default function Home() {
                   </div>
                   <div className="flex items-center space-x-2">
                     <HealthIndicator serialNumber={device.serialNumber} />
+                    {device.absentSince && (
+                      <span className="text-xs text-yellow-500" title={`Not found by the scan at ${device.absentSince}`}>
+                        Not found in last scan
+                      </span>
+                    )}
                     {device.lastDataFetch && 
                      (new Date().getTime() - new Date(device.lastDataFetch).getTime() >= 10000) && (
                       <span className="text-xs text-gray-500">
@@ -569,6 +672,16 @@ export default function Home() {
                     )}
                   </div>
                 )}
+                
+                {/* DC readings per MPPT tracker */}
+                {latestSiteMetrics?.[device.serialNumber]?.solar?.strings && (
+                  <StringsPanel strings={latestSiteMetrics[device.serialNumber].solar.strings} />
+                )}
+                
+                {/* Live battery telemetry */}
+                {latestSiteMetrics?.[device.serialNumber]?.battery && (
+                  <BatteryPanel battery={latestSiteMetrics[device.serialNumber].battery} />
+                )}
               </div>
             </div>
           ))
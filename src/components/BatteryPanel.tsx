@@ -0,0 +1,87 @@
+import React from 'react';
+import { Battery } from 'lucide-react';
+
+interface BatteryTelemetry {
+  voltageV?: number | null;
+  currentA?: number | null;
+  temperatureC?: number | null;
+  capacityWh?: number | null;
+  designedCapacityWh?: number | null;
+  reportedHealthPercent?: number | null;
+  cellStatus?: number | null;
+  health?: {
+    capacityWh: number | null;
+    healthPercent: number | null;
+    samples: number;
+  };
+}
+
+interface BatteryPanelProps {
+  battery: BatteryTelemetry;
+}
+
+// Cell temperatures outside this range limit charge/discharge on most lithium batteries
+const TEMPERATURE_MIN_C = 5;
+const TEMPERATURE_MAX_C = 40;
+
+const format = (value: number | null | undefined, decimals: number, unit: string) =>
+  value !== null && value !== undefined ? `${value.toFixed(decimals)} ${unit}` : '—';
+
+export default function BatteryPanel({ battery }: BatteryPanelProps) {
+  if (battery.voltageV === undefined) {
+    return null;
+  }
+
+  const temperatureClass = battery.temperatureC !== null && battery.temperatureC !== undefined &&
+    (battery.temperatureC < TEMPERATURE_MIN_C || battery.temperatureC > TEMPERATURE_MAX_C)
+    ? 'text-amber-400'
+    : 'text-white';
+
+  const items = [
+    { label: 'Voltage', value: format(battery.voltageV, 1, 'V'), className: 'text-white' },
+    { label: 'Current', value: format(battery.currentA, 1, 'A'), className: 'text-white' },
+    { label: 'Cell Temp', value: format(battery.temperatureC, 1, '°C'), className: temperatureClass },
+    {
+      label: 'Capacity',
+      value: battery.capacityWh
+        ? `${(battery.capacityWh / 1000).toFixed(1)}${battery.designedCapacityWh ? ` / ${(battery.designedCapacityWh / 1000).toFixed(1)}` : ''} kWh`
+        : '—',
+      className: 'text-white'
+    },
+    {
+      label: 'Health',
+      value: battery.health?.healthPercent !== null && battery.health?.healthPercent !== undefined
+        ? `${battery.health.healthPercent.toFixed(0)}%`
+        : battery.reportedHealthPercent !== null && battery.reportedHealthPercent !== undefined
+          ? `${battery.reportedHealthPercent.toFixed(0)}% (BMS)`
+          : '—',
+      className: 'text-blue-400'
+    }
+  ];
+
+  return (
+    <div className="bg-gray-900 p-2 rounded mb-5 inline-block">
+      <div className="flex items-center space-x-2 mb-1">
+        <Battery className="w-4 h-4 text-blue-400" />
+        <p className="text-xs text-gray-500">Battery Telemetry</p>
+        {battery.cellStatus !== null && battery.cellStatus !== undefined && (
+          <span className="text-xs text-gray-500">Cell status {battery.cellStatus}</span>
+        )}
+      </div>
+      <div className="flex gap-5 text-sm">
+        {items.map(item => (
+          <div key={item.label}>
+            <p className="text-xs text-gray-500">{item.label}</p>
+            <p className={item.className}>{item.value}</p>
+          </div>
+        ))}
+      </div>
+      {battery.health && battery.health.samples > 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          Health estimated from {battery.health.samples} charge/discharge swing{battery.health.samples === 1 ? '' : 's'}
+          {battery.health.capacityWh ? ` (${(battery.health.capacityWh / 1000).toFixed(1)} kWh usable)` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
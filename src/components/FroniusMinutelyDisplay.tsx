@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ChevronRight, ChevronDown, Sun, Battery, Home, Zap } from 'lucide-react';
+import { ChevronRight, ChevronDown, Sun, Battery, Home, Zap, Car, Plug } from 'lucide-react';
 import { FroniusMinutely } from '@/types/fronius';
 
 interface FroniusMinutelyDisplayProps {
@@ -60,11 +60,15 @@ export default function FroniusMinutelyDisplay({ history }: FroniusMinutelyDispl
     return (value / 1000).toFixed(1);
   };
 
-  const formatEnergyValue = (value: number | null) => {
+  const formatEnergyValue = (value: number | null | undefined) => {
     if (value === null || value === undefined) return '—';
     return value.toLocaleString();
   };
 
+  // Metered parts of load - only shown on sites with EV charger or subload meters
+  const hasEv = history.some(report => report.evWhInterval !== undefined);
+  const hasSubload = history.some(report => report.subloadWhInterval !== undefined);
+
   const formatBatteryPower = (powerW: number | null) => {
     if (powerW === null || powerW === undefined) return '—';
     return (Math.abs(powerW) / 1000).toFixed(1);
@@ -145,6 +149,17 @@ export default function FroniusMinutelyDisplay({ history }: FroniusMinutelyDispl
                 <th className="text-center py-1 px-2" colSpan={2}>
                   <Home className="w-4 h-4 inline text-orange-400" />
                 </th>
+                {(hasEv || hasSubload) && <th className="w-4" rowSpan={2}></th>}
+                {hasEv && (
+                  <th className="text-center py-1 px-2">
+                    <Car className="w-4 h-4 inline text-orange-300" />
+                  </th>
+                )}
+                {hasSubload && (
+                  <th className="text-center py-1 px-2">
+                    <Plug className="w-4 h-4 inline text-orange-300" />
+                  </th>
+                )}
               </tr>
               <tr className="border-b border-gray-700 text-xs">
                 <th className="text-right py-1 px-1 text-gray-500 font-normal">kW</th>
@@ -158,6 +173,8 @@ export default function FroniusMinutelyDisplay({ history }: FroniusMinutelyDispl
                 <th className="text-right py-1 px-1 text-gray-500 font-normal">Wh<sub>out</sub></th>
                 <th className="text-right py-1 px-1 text-gray-500 font-normal">kW</th>
                 <th className="text-right py-1 px-1 text-gray-500 font-normal">Wh</th>
+                {hasEv && <th className="text-right py-1 px-1 text-gray-500 font-normal">Wh</th>}
+                {hasSubload && <th className="text-right py-1 px-1 text-gray-500 font-normal">Wh</th>}
               </tr>
             </thead>
             <tbody>
@@ -214,6 +231,18 @@ export default function FroniusMinutelyDisplay({ history }: FroniusMinutelyDispl
                   <td className="py-1 px-1 text-right  font-mono text-sm">
                     {formatEnergyValue(report.loadWhInterval)}
                   </td>
+                  {(hasEv || hasSubload) && <td className="w-4"></td>}
+                  {/* EV charger and subloads (part of load) */}
+                  {hasEv && (
+                    <td className="py-1 px-1 text-right  font-mono text-sm text-orange-300">
+                      {formatEnergyValue(report.evWhInterval)}
+                    </td>
+                  )}
+                  {hasSubload && (
+                    <td className="py-1 px-1 text-right  font-mono text-sm text-orange-300">
+                      {formatEnergyValue(report.subloadWhInterval)}
+                    </td>
+                  )}
                 </tr>
               );
               })}
@@ -11,7 +11,7 @@ interface HealthIndicatorProps {
 }
 
 export default function HealthIndicator({ serialNumber, devices }: HealthIndicatorProps) {
-  const [health, setHealth] = useState<Record<string, 'online' | 'offline'>>({});
+  const [health, setHealth] = useState<Record<string, 'online' | 'offline' | 'sleeping'>>({});
   const [lastUpdate, setLastUpdate] = useState<Record<string, Date>>({});
   const [isPulsing, setIsPulsing] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -73,7 +73,8 @@ export default function HealthIndicator({ serialNumber, devices }: HealthIndicat
     // Device-specific indicator
     hasData = serialNumber in health;
     if (hasData) {
-      color = health[serialNumber] === 'online' ? 'GREEN' : 'RED';
+      // A sleeping inverter is expected to be silent, so it isn't an alarm
+      color = health[serialNumber] === 'online' ? 'GREEN' : health[serialNumber] === 'sleeping' ? 'GREY' : 'RED';
     }
   } else if (devices) {
     // Site-level indicator
@@ -82,7 +83,8 @@ export default function HealthIndicator({ serialNumber, devices }: HealthIndicat
     
     if (hasData) {
       const onlineCount = devicesWithData.filter(d => health[d.serialNumber] === 'online').length;
-      if (onlineCount === devices.length && devices.length > 0) {
+      const sleepingCount = devicesWithData.filter(d => health[d.serialNumber] === 'sleeping').length;
+      if (onlineCount > 0 && onlineCount + sleepingCount === devices.length) {
         color = 'GREEN';
       } else if (onlineCount > 0) {
         color = 'AMBER';
@@ -105,7 +107,9 @@ export default function HealthIndicator({ serialNumber, devices }: HealthIndicat
       return `${displayHours}:${displayMinutes}:${displaySeconds}${ampm}`;
     };
     
-    if (serialNumber && lastUpdate[serialNumber]) {
+    if (serialNumber && health[serialNumber] === 'sleeping') {
+      return `Asleep - last checked at ${formatTime(lastUpdate[serialNumber])}`;
+    } else if (serialNumber && lastUpdate[serialNumber]) {
       return `Last updated at ${formatTime(lastUpdate[serialNumber])}`;
     } else if (devices && devices.length > 0) {
       const updates = devices
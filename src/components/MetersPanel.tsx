@@ -0,0 +1,69 @@
+import React from 'react';
+import { Car, Gauge, Plug } from 'lucide-react';
+
+interface MeterDevice {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface MeterReading {
+  category: string;
+  powerW: number;
+  energyInWh: number;
+  energyOutWh: number;
+}
+
+interface MetersPanelProps {
+  meters: MeterDevice[];
+  readings: Record<string, { meter?: MeterReading } | undefined>;  // siteMetrics, keyed by meter id
+}
+
+const ICONS: Record<string, typeof Gauge> = {
+  ev: Car,
+  subload: Plug
+};
+
+export default function MetersPanel({ meters, readings }: MetersPanelProps) {
+  if (meters.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-900 p-2 rounded mb-5 inline-block">
+      <div className="flex items-center space-x-2 mb-1">
+        <Gauge className="w-4 h-4 text-orange-400" />
+        <p className="text-xs text-gray-500">Meters</p>
+      </div>
+      <table className="text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500">
+            <th className="text-left font-normal pr-4"></th>
+            <th className="text-right font-normal px-3">Power</th>
+            <th className="text-right font-normal pl-3">Energy</th>
+          </tr>
+        </thead>
+        <tbody>
+          {meters.map(meter => {
+            const reading = readings[meter.id]?.meter;
+            const Icon = ICONS[meter.category] ?? Gauge;
+            return (
+              <tr key={meter.id}>
+                <td className="text-gray-400 pr-4">
+                  <Icon className="w-3 h-3 inline mr-1" />
+                  {meter.name}
+                </td>
+                <td className="text-right px-3 text-orange-400">
+                  {reading ? `${(reading.powerW / 1000).toFixed(2)} kW` : '—'}
+                </td>
+                <td className="text-right pl-3 text-white">
+                  {reading ? `${(reading.energyInWh / 1000).toFixed(1)} kWh` : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
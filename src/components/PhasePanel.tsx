@@ -0,0 +1,95 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+
+interface PhaseReading {
+  voltageV: number | null;
+  currentA: number | null;
+  powerW: number | null;
+  powerFactor: number | null;
+}
+
+interface PhasePanelProps {
+  phases: Partial<Record<'L1' | 'L2' | 'L3', PhaseReading>>;
+  frequencyHz: number | null;
+  powerFactor: number | null;
+}
+
+// Australian supply range (AS 60038): 230 V +10% / -6%
+const VOLTAGE_MIN_V = 216.2;
+const VOLTAGE_MAX_V = 253;
+
+// Within this much of either limit is flagged before it's exceeded
+const VOLTAGE_WARNING_MARGIN_V = 3;
+
+// Current imbalance (largest deviation from the average, as a share of it) worth flagging
+const IMBALANCE_WARNING = 0.2;
+
+// Below this the imbalance of small currents is just noise
+const IMBALANCE_MIN_AVERAGE_A = 2;
+
+function voltageClass(voltageV: number | null): string {
+  if (voltageV === null) return 'text-gray-500';
+  if (voltageV < VOLTAGE_MIN_V || voltageV > VOLTAGE_MAX_V) return 'text-red-400';
+  if (voltageV < VOLTAGE_MIN_V + VOLTAGE_WARNING_MARGIN_V || voltageV > VOLTAGE_MAX_V - VOLTAGE_WARNING_MARGIN_V) return 'text-amber-400';
+  return 'text-white';
+}
+
+// Largest deviation of any phase current from the average, as a fraction of the average
+function currentImbalance(currents: number[]): number | null {
+  if (currents.length < 2) return null;
+  const average = currents.reduce((sum, current) => sum + current, 0) / currents.length;
+  if (average < IMBALANCE_MIN_AVERAGE_A) return null;
+  return Math.max(...currents.map(current => Math.abs(current - average))) / average;
+}
+
+const format = (value: number | null, decimals: number) => value !== null ? value.toFixed(decimals) : '—';
+
+export default function PhasePanel({ phases, frequencyHz, powerFactor }: PhasePanelProps) {
+  const entries = (['L1', 'L2', 'L3'] as const).flatMap(phase => phases[phase] ? [{ phase, ...phases[phase]! }] : []);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const imbalance = currentImbalance(
+    entries.map(entry => entry.currentA).filter((current): current is number => current !== null)
+  );
+
+  return (
+    <div className="bg-gray-900 p-2 rounded mb-5 inline-block">
+      <div className="flex items-center space-x-2 mb-1">
+        <Activity className="w-4 h-4 text-purple-400" />
+        <p className="text-xs text-gray-500">Grid Phases</p>
+        {imbalance !== null && (
+          <span className={`text-xs ${imbalance >= IMBALANCE_WARNING ? 'text-amber-400' : 'text-gray-500'}`}>
+            Imbalance {(imbalance * 100).toFixed(0)}%
+          </span>
+        )}
+      </div>
+      <table className="text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500">
+            <th className="text-left font-normal pr-4"></th>
+            <th className="text-right font-normal px-3">Voltage</th>
+            <th className="text-right font-normal px-3">Current</th>
+            <th className="text-right font-normal px-3">Power</th>
+            <th className="text-right font-normal pl-3">PF</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(entry => (
+            <tr key={entry.phase}>
+              <td className="text-gray-400 pr-4">{entry.phase}</td>
+              <td className={`text-right px-3 ${voltageClass(entry.voltageV)}`}>{format(entry.voltageV, 1)} V</td>
+              <td className="text-right px-3 text-white">{format(entry.currentA, 1)} A</td>
+              <td className="text-right px-3 text-purple-400">{format(entry.powerW !== null ? entry.powerW / 1000 : null, 2)} kW</td>
+              <td className="text-right pl-3 text-gray-300">{format(entry.powerFactor, 2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-1">
+        {format(frequencyHz, 2)} Hz · PF {format(powerFactor, 2)}
+      </p>
+    </div>
+  );
+}
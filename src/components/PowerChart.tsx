@@ -126,6 +126,30 @@ export default function PowerChart({ historicalData, devices }: PowerChartProps)
         order: 1 // Lower order for solar to appear first in legend
       });
     }
+    
+    // Each MPPT tracker as a dashed line over its inverter's solar area, e.g. east and west arrays
+    const trackers = new Set<string>();
+    historicalData.forEach(event => {
+      Object.keys(event[device.serialNumber]?.solar?.strings ?? {}).forEach(tracker => trackers.add(tracker));
+    });
+    Array.from(trackers).sort().forEach(tracker => {
+      const trackerData = mapDataToTimeSeries(device.serialNumber, data => data.solar?.strings?.[tracker]?.powerW);
+      if (trackerData.some(val => val !== null)) {
+        datasets.push({
+          label: `Solar ${device.name || device.serialNumber} MPPT ${tracker}`,
+          data: trackerData,
+          borderColor: solarColors[index % solarColors.length].replace('0.2', '0.9'),
+          borderWidth: 1,
+          borderDash: [4, 3],
+          tension: 0.1,
+          pointRadius: 0,
+          pointHoverRadius: 4,
+          spanGaps: true,
+          fill: false,
+          order: 1
+        });
+      }
+    });
   });
   
   // Then add site-level Battery
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Sun } from 'lucide-react';
+
+interface TrackerReading {
+  voltageV: number | null;
+  currentA: number | null;
+  powerW: number | null;
+}
+
+interface StringsPanelProps {
+  strings: Record<string, TrackerReading>;
+}
+
+const format = (value: number | null, decimals: number) => value !== null ? value.toFixed(decimals) : '—';
+
+export default function StringsPanel({ strings }: StringsPanelProps) {
+  const entries = Object.keys(strings).sort().map(tracker => ({ tracker, ...strings[tracker] }));
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const totalW = entries.reduce((sum, entry) => sum + (entry.powerW ?? 0), 0);
+
+  return (
+    <div className="bg-gray-900 p-2 rounded mb-5 mr-3 inline-block">
+      <div className="flex items-center space-x-2 mb-1">
+        <Sun className="w-4 h-4 text-yellow-400" />
+        <p className="text-xs text-gray-500">PV Strings</p>
+      </div>
+      <table className="text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500">
+            <th className="text-left font-normal pr-4"></th>
+            <th className="text-right font-normal px-3">Voltage</th>
+            <th className="text-right font-normal px-3">Current</th>
+            <th className="text-right font-normal px-3">Power</th>
+            <th className="text-right font-normal pl-3">Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(entry => (
+            <tr key={entry.tracker}>
+              <td className="text-gray-400 pr-4">MPPT {entry.tracker}</td>
+              <td className="text-right px-3 text-white">{format(entry.voltageV, 1)} V</td>
+              <td className="text-right px-3 text-white">{format(entry.currentA, 2)} A</td>
+              <td className="text-right px-3 text-yellow-400">{format(entry.powerW !== null ? entry.powerW / 1000 : null, 2)} kW</td>
+              <td className="text-right pl-3 text-gray-300">
+                {totalW > 0 && entry.powerW !== null ? `${((entry.powerW / totalW) * 100).toFixed(0)}%` : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
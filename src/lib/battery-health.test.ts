@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BatteryHealthEstimator } from './battery-health';
+
+describe('BatteryHealthEstimator', () => {
+  it('has no estimate until the charge has swung far enough', () => {
+    const estimator = new BatteryHealthEstimator();
+    estimator.update(50, 0, 0, 10000);
+    estimator.update(60, 1000, 0, 10000);
+
+    expect(estimator.getEstimate(10000)).toEqual({ capacityWh: null, healthPercent: null, samples: 0 });
+  });
+
+  it('estimates capacity from the energy it takes to move the state of charge', () => {
+    const estimator = new BatteryHealthEstimator();
+    estimator.update(20, 0, 0, 10000);
+    estimator.update(70, 4500, 0, 10000);      // 4.5 kWh for 50%
+
+    expect(estimator.getEstimate(10000)).toEqual({ capacityWh: 9000, healthPercent: 90, samples: 1 });
+  });
+
+  it('counts discharge swings and nets out energy flowing both ways', () => {
+    const estimator = new BatteryHealthEstimator();
+    estimator.update(80, 1000, 0, 10000);
+    estimator.update(40, 1500, 4000, 10000);   // 0.5 kWh in and 4 kWh out - net 3.5 kWh out for 40%
+
+    expect(estimator.getEstimate(10000).capacityWh).toBe(8750);
+  });
+
+  it('smooths samples into a running estimate', () => {
+    const estimator = new BatteryHealthEstimator();
+    estimator.update(20, 0, 0, 10000);
+    estimator.update(70, 5000, 0, 10000);      // 10000 Wh
+    estimator.update(20, 5000, 4000, 10000);   // 8000 Wh
+
+    expect(estimator.getEstimate(10000)).toEqual({ capacityWh: 9600, healthPercent: 96, samples: 2 });
+  });
+
+  it('ignores samples that are implausible against the design capacity', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const estimator = new BatteryHealthEstimator();
+    estimator.update(20, 0, 0, 10000);
+    estimator.update(70, 100, 0, 10000);       // SoC jumped with hardly any energy - a BMS recalibration
+
+    expect(estimator.getEstimate(10000).samples).toBe(0);
+    vi.restoreAllMocks();
+  });
+
+  it('carries on from a checkpoint rather than starting over', () => {
+    const before = new BatteryHealthEstimator();
+    before.update(20, 0, 0, 10000);
+    before.update(70, 4500, 0, 10000);         // 9000 Wh, and the anchor moves to 70%
+
+    const after = new BatteryHealthEstimator();
+    after.restoreState(JSON.parse(JSON.stringify(before.getState())));
+    expect(after.getEstimate(10000)).toEqual({ capacityWh: 9000, healthPercent: 90, samples: 1 });
+
+    after.update(20, 4500, 5000, 10000);       // 5 kWh out for 50% from the restored anchor - 10000 Wh
+    expect(after.getEstimate(10000)).toEqual({ capacityWh: 9200, healthPercent: 92, samples: 2 });
+  });
+});
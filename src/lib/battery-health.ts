@@ -0,0 +1,101 @@
+/**
+ * Running estimate of a battery's usable capacity, from how much energy it takes to move its state of charge.
+ *
+ * The BMS reports Capacity_Maximum, but many only ever report the design capacity there. Instead, each time the
+ * state of charge has moved far enough, the net energy in or out since the last anchor point is divided by the
+ * change in charge to get one capacity sample. Energy is measured on the DC side, so conversion losses in the
+ * inverter don't count against the battery, but the battery's own round-trip losses do - the estimate reads a
+ * little low on a healthy battery.
+ */
+
+export interface BatteryHealthEstimate {
+  capacityWh: number | null;     // Estimated usable capacity, null until the first sample
+  healthPercent: number | null;  // Estimated capacity as a share of the design capacity
+  samples: number;
+}
+
+// Checkpointed estimator state, saved with the battery integrator it anchors against
+export interface BatteryHealthState {
+  capacityWh: number | null;
+  samples: number;
+  anchor: { socPercent: number; netWh: number } | null;
+}
+
+// State of charge movement needed for one capacity sample - small swings are dominated by SoC rounding
+export const MIN_SOC_SWING_PERCENT = 20;
+
+// Weight of each new sample in the running estimate
+const SMOOTHING = 0.2;
+
+// Samples further than this from the design capacity are treated as bad data (e.g. a BMS recalibrating SoC)
+const MAX_CAPACITY_RATIO = 1.5;
+const MIN_CAPACITY_RATIO = 0.3;
+
+export class BatteryHealthEstimator {
+  private anchor: { socPercent: number; netWh: number } | null = null;
+  private capacityWh: number | null = null;
+  private samples: number = 0;
+
+  /**
+   * Feed a state of charge reading with the battery's cumulative charge and discharge energy at the same time
+   */
+  public update(socPercent: number, chargedWh: number, dischargedWh: number, designedCapacityWh: number | null): void {
+    const netWh = chargedWh - dischargedWh;
+    if (!this.anchor) {
+      this.anchor = { socPercent, netWh };
+      return;
+    }
+
+    const socSwing = socPercent - this.anchor.socPercent;
+    if (Math.abs(socSwing) < MIN_SOC_SWING_PERCENT) {
+      return;
+    }
+
+    const sampleWh = (netWh - this.anchor.netWh) / (socSwing / 100);
+    this.anchor = { socPercent, netWh };
+
+    if (designedCapacityWh && (sampleWh > designedCapacityWh * MAX_CAPACITY_RATIO || sampleWh < designedCapacityWh * MIN_CAPACITY_RATIO)) {
+      console.warn(`[Battery] Ignoring capacity sample of ${Math.round(sampleWh)}Wh against a design capacity of ${designedCapacityWh}Wh`);
+      return;
+    }
+    if (sampleWh <= 0) {
+      return;
+    }
+
+    this.capacityWh = this.capacityWh === null ? sampleWh : this.capacityWh + (sampleWh - this.capacityWh) * SMOOTHING;
+    this.samples++;
+  }
+
+  // Start again from the next reading, e.g. after the energy counters were reset
+  public resetAnchor(): void {
+    this.anchor = null;
+  }
+
+  public getState(): BatteryHealthState {
+    return {
+      capacityWh: this.capacityWh,
+      samples: this.samples,
+      anchor: this.anchor && { ...this.anchor }
+    };
+  }
+
+  /**
+   * Restore a checkpointed estimate. The anchor is in terms of the battery integrator's totals, so it only carries
+   * on correctly when those are restored from the same checkpoint.
+   */
+  public restoreState(state: BatteryHealthState): void {
+    this.capacityWh = state.capacityWh;
+    this.samples = state.samples;
+    this.anchor = state.anchor && { ...state.anchor };
+  }
+
+  public getEstimate(designedCapacityWh: number | null): BatteryHealthEstimate {
+    return {
+      capacityWh: this.capacityWh !== null ? Math.round(this.capacityWh) : null,
+      healthPercent: this.capacityWh !== null && designedCapacityWh
+        ? Math.round((this.capacityWh / designedCapacityWh) * 1000) / 10
+        : null,
+      samples: this.samples
+    };
+  }
+}
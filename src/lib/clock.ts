@@ -0,0 +1,6 @@
+/**
+ * Source of the current time - injectable so tests can run against a fake clock
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
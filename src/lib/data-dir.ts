@@ -0,0 +1,16 @@
+import path from 'path';
+
+/**
+ * Directory for everything the server persists (history, state checkpoints)
+ * Defaults to ./data, override with FRONIUS_DATA_DIR
+ */
+export function getDataDir(): string {
+  return process.env.FRONIUS_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Directory for one site's history and state when the config file lists several sites
+ */
+export function getSiteDataDir(siteId: string): string {
+  return path.join(getDataDir(), 'sites', siteId);
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { EnergyIntegrator, BidirectionalEnergyIntegrator } from './energy-integrator';
+
+const t0 = new Date('2025-09-14T10:00:00Z');
+const at = (seconds: number) => new Date(t0.getTime() + seconds * 1000);
+
+describe('EnergyIntegrator', () => {
+  it('integrates with the trapezoidal rule', () => {
+    const integrator = new EnergyIntegrator();
+    integrator.updatePower(1000, at(0));
+    integrator.updatePower(2000, at(3600));
+
+    expect(integrator.getTotalWh()).toBeCloseTo(1500);
+    expect(integrator.getTotalKwh()).toBeCloseTo(1.5);
+  });
+
+  it('needs two readings before anything is integrated', () => {
+    const integrator = new EnergyIntegrator();
+    integrator.updatePower(5000, at(0));
+
+    expect(integrator.getTotalWh()).toBe(0);
+  });
+
+  it('ignores missing readings without breaking the interval', () => {
+    const integrator = new EnergyIntegrator();
+    integrator.updatePower(1200, at(0));
+    integrator.updatePower(null, at(1));
+    integrator.updatePower(undefined, at(2));
+    integrator.updatePower(1200, at(3));
+
+    expect(integrator.getTotalWh()).toBeCloseTo(1);
+  });
+
+  it('reconciles against a hardware counter, integrating only since the latest reading', () => {
+    const integrator = new EnergyIntegrator();
+    integrator.updatePower(3600, at(0));
+    integrator.updatePower(3600, at(10));  // 10 Wh integrated
+    integrator.updateHardwareCounter(50000, at(10));
+
+    integrator.updatePower(3600, at(20));  // 10 Wh more integrated
+    integrator.updateHardwareCounter(50012, at(20));  // ...but the counter says 12
+    expect(integrator.getReconciledWh()).toBeCloseTo(22);
+    expect(integrator.getDrift()?.differenceWh).toBeCloseTo(-2);
+
+    integrator.updatePower(3600, at(25));  // 5 Wh since the last reading fills the gap
+    expect(integrator.getReconciledWh()).toBeCloseTo(27);
+  });
+
+  it('never lets the reconciled total go backwards', () => {
+    const integrator = new EnergyIntegrator();
+    integrator.updateHardwareCounter(1000, at(0));
+    integrator.updatePower(3600, at(0));
+    integrator.updatePower(3600, at(10));
+    expect(integrator.getReconciledWh()).toBeCloseTo(10);
+
+    // The counter only moved 5 Wh - hold at 10 rather than dropping back
+    integrator.updateHardwareCounter(1005, at(10));
+    expect(integrator.getReconciledWh()).toBeCloseTo(10);
+  });
+
+  it('restores a checkpointed total and restarts integration from the next reading', () => {
+    const integrator = new EnergyIntegrator();
+    integrator.updatePower(1000, at(0));
+    integrator.updatePower(1000, at(3600));
+
+    const restored = new EnergyIntegrator();
+    restored.restoreState(integrator.getState());
+    restored.updatePower(1000, at(7200));
+    expect(restored.getTotalWh()).toBeCloseTo(1000);
+
+    restored.updatePower(1000, at(10800));
+    expect(restored.getTotalWh()).toBeCloseTo(2000);
+  });
+});
+
+describe('BidirectionalEnergyIntegrator', () => {
+  it('splits positive and negative flows', () => {
+    const integrator = new BidirectionalEnergyIntegrator();
+    integrator.updatePower(2000, at(0));
+    integrator.updatePower(2000, at(1800));
+    integrator.updatePower(-1000, at(1800));
+    integrator.updatePower(-1000, at(5400));
+
+    expect(integrator.getPositiveWh()).toBeCloseTo(1000);
+    expect(integrator.getNegativeWh()).toBeCloseTo(1000);
+  });
+
+  it('ramps each direction through zero when the flow reverses', () => {
+    const integrator = new BidirectionalEnergyIntegrator();
+    integrator.updatePower(1000, at(0));
+    integrator.updatePower(-1000, at(3600));
+
+    // Each side sees a linear ramp between its value and zero
+    expect(integrator.getPositiveWh()).toBeCloseTo(500);
+    expect(integrator.getNegativeWh()).toBeCloseTo(500);
+  });
+
+  it('treats zero as no flow in either direction', () => {
+    const integrator = new BidirectionalEnergyIntegrator();
+    integrator.updatePower(0, at(0));
+    integrator.updatePower(0, at(3600));
+
+    expect(integrator.getPositiveWh()).toBe(0);
+    expect(integrator.getNegativeWh()).toBe(0);
+  });
+
+  it('round-trips its state', () => {
+    const integrator = new BidirectionalEnergyIntegrator();
+    integrator.updatePower(-3600, at(0));
+    integrator.updatePower(-3600, at(100));
+    integrator.updateHardwareCounters(10, 20, at(100));
+
+    const restored = new BidirectionalEnergyIntegrator();
+    restored.restoreState(integrator.getState());
+
+    expect(restored.getNegativeWh()).toBeCloseTo(100);
+    expect(restored.getNegativeReconciledWh()).toBeCloseTo(integrator.getNegativeReconciledWh());
+    expect(restored.hasHardwareCounters()).toBe(true);
+  });
+});
@@ -1,3 +1,38 @@
+/**
+ * Checkpointable integrator state
+ */
+export interface EnergyIntegratorState {
+  totalWh: number;
+  hardware?: HardwareCounterState;
+}
+
+/**
+ * Hardware counter tracking, checkpointed so energy counted by the device while we were down is picked up
+ */
+export interface HardwareCounterState {
+  baseWh: number;                  // Reconciled total when the hardware counter was first seen
+  initialWh: number;               // Hardware counter value when first seen
+  currentWh: number;               // Latest hardware counter value
+  integratedAtInitialWh: number;   // Integrated total when the hardware counter was first seen
+  integratedAtUpdateWh: number;    // Integrated total at the latest hardware reading
+  updatedAt: string;               // ISO 8601 time of the latest hardware reading
+}
+
+export interface BidirectionalEnergyIntegratorState {
+  positive: EnergyIntegratorState;
+  negative: EnergyIntegratorState;
+}
+
+/**
+ * Integration vs hardware counter comparison over the same window
+ */
+export interface EnergyDrift {
+  integratedWh: number;
+  hardwareWh: number;
+  differenceWh: number;
+  differencePercent: number;
+}
+
 export class EnergyIntegrator {
   private totalIntegrated: number = 0;
   private lastPower?: number;
@@ -6,6 +41,11 @@ export class EnergyIntegrator {
   // Hardware counter tracking
   private hardwareCounterInitial?: number;
   private hardwareCounterCurrent?: number;
+  private hardwareBaseWh: number = 0;
+  private integratedAtHardwareInitial: number = 0;
+  private integratedAtHardwareUpdate: number = 0;
+  private hardwareUpdateTime?: Date;
+  private lastReconciledWh: number = 0;
   
   constructor() {}
   
@@ -16,6 +56,9 @@ export class EnergyIntegrator {
   updatePower(powerW: number | null | undefined, timestamp: Date = new Date()): void {
     if (powerW === null || powerW === undefined) return;
     
+    // Readings stamped by the inverter can arrive out of order if its clock steps back - never integrate backwards
+    if (this.lastUpdateTime && timestamp < this.lastUpdateTime) return;
+    
     if (this.lastUpdateTime && this.lastPower !== undefined) {
       const timeDeltaHours = (timestamp.getTime() - this.lastUpdateTime.getTime()) / (1000 * 60 * 60);
       const avgPower = (powerW + this.lastPower) / 2;
@@ -28,19 +71,53 @@ export class EnergyIntegrator {
   
   /**
    * Set the initial hardware counter value (only on first call)
+   * The reconciled total carries on from wherever it was when the counter is first seen
    */
-  setInitialHardwareCounter(value: number): void {
+  setInitialHardwareCounter(value: number, timestamp: Date = new Date()): void {
     if (this.hardwareCounterInitial === undefined) {
+      this.hardwareBaseWh = this.getReconciledWh();
       this.hardwareCounterInitial = value;
       this.hardwareCounterCurrent = value;
+      this.integratedAtHardwareInitial = this.totalIntegrated;
+      this.integratedAtHardwareUpdate = this.totalIntegrated;
+      this.hardwareUpdateTime = timestamp;
     }
   }
   
   /**
    * Update the current hardware counter value
    */
-  updateHardwareCounter(value: number): void {
+  updateHardwareCounter(value: number, timestamp: Date = new Date()): void {
+    if (this.hardwareCounterInitial === undefined || this.hardwareCounterCurrent === undefined) {
+      this.setInitialHardwareCounter(value, timestamp);
+      return;
+    }
+    
+    // A counter going backwards means the device was replaced or reset - start a new baseline
+    if (value < this.hardwareCounterCurrent) {
+      console.warn(`[EnergyIntegrator] Hardware counter went backwards (${this.hardwareCounterCurrent} -> ${value}), rebasing`);
+      this.hardwareCounterInitial = undefined;
+      this.setInitialHardwareCounter(value, timestamp);
+      return;
+    }
+    
     this.hardwareCounterCurrent = value;
+    this.integratedAtHardwareUpdate = this.totalIntegrated;
+    this.hardwareUpdateTime = timestamp;
+  }
+  
+  /**
+   * Whether a hardware counter reading has been seen
+   */
+  hasHardwareCounter(): boolean {
+    return this.hardwareCounterInitial !== undefined;
+  }
+  
+  /**
+   * Time of the latest hardware counter reading
+   */
+  getHardwareUpdateTime(): Date | undefined {
+    return this.hardwareUpdateTime;
   }
   
   /**
@@ -57,6 +134,24 @@ export class EnergyIntegrator {
     return this.totalIntegrated / 1000;
   }
   
+  /**
+   * Get the best estimate of total energy in Wh
+   * Uses the hardware counter where available, with integration only filling in since the latest reading.
+   * Never goes backwards: if integration ran ahead of the next hardware reading, the total holds until it catches up.
+   */
+  getReconciledWh(): number {
+    let reconciled: number;
+    if (this.hardwareCounterInitial === undefined) {
+      reconciled = this.totalIntegrated;
+    } else {
+      const integratedSinceReading = this.totalIntegrated - this.integratedAtHardwareUpdate;
+      reconciled = this.hardwareBaseWh + this.getHardwareDeltaWh() + integratedSinceReading;
+    }
+    
+    this.lastReconciledWh = Math.max(this.lastReconciledWh, reconciled);
+    return this.lastReconciledWh;
+  }
+  
   /**
    * Get hardware counter delta in Wh
    */
@@ -67,11 +162,22 @@ export class EnergyIntegrator {
     return this.hardwareCounterCurrent - this.hardwareCounterInitial;
   }
   
+  /**
+   * Get the energy integrated over the same window as the hardware delta
+   * (from the first hardware reading to the latest one)
+   */
+  getIntegratedSinceHardwareInitialWh(): number {
+    if (this.hardwareCounterInitial === undefined) {
+      return 0;
+    }
+    return this.integratedAtHardwareUpdate - this.integratedAtHardwareInitial;
+  }
+  
   /**
    * Get the difference between integrated and hardware counter
    */
   getDifferenceWh(): number {
-    return this.totalIntegrated - this.getHardwareDeltaWh();
+    return this.getIntegratedSinceHardwareInitialWh() - this.getHardwareDeltaWh();
   }
   
   /**
@@ -83,6 +189,66 @@ export class EnergyIntegrator {
     return (this.getDifferenceWh() / hwDelta) * 100;
   }
   
+  /**
+   * Get integration vs hardware drift, or null if there is no hardware counter
+   */
+  getDrift(): EnergyDrift | null {
+    if (this.hardwareCounterInitial === undefined) {
+      return null;
+    }
+    return {
+      integratedWh: this.getIntegratedSinceHardwareInitialWh(),
+      hardwareWh: this.getHardwareDeltaWh(),
+      differenceWh: this.getDifferenceWh(),
+      differencePercent: this.getDifferencePercent()
+    };
+  }
+  
+  /**
+   * Get the state needed to resume the running total after a restart
+   */
+  getState(): EnergyIntegratorState {
+    const state: EnergyIntegratorState = {
+      totalWh: this.totalIntegrated
+    };
+    
+    if (this.hardwareCounterInitial !== undefined && this.hardwareCounterCurrent !== undefined && this.hardwareUpdateTime) {
+      state.hardware = {
+        baseWh: this.hardwareBaseWh,
+        initialWh: this.hardwareCounterInitial,
+        currentWh: this.hardwareCounterCurrent,
+        integratedAtInitialWh: this.integratedAtHardwareInitial,
+        integratedAtUpdateWh: this.integratedAtHardwareUpdate,
+        updatedAt: this.hardwareUpdateTime.toISOString()
+      };
+    }
+    
+    return state;
+  }
+  
+  /**
+   * Restore a checkpointed total
+   * Integration restarts from the next reading - the gap since the checkpoint is not filled in,
+   * unless a hardware counter was being tracked, in which case its next reading covers the gap
+   */
+  restoreState(state: EnergyIntegratorState): void {
+    this.totalIntegrated = state.totalWh;
+    this.lastPower = undefined;
+    this.lastUpdateTime = undefined;
+    
+    if (state.hardware) {
+      this.hardwareBaseWh = state.hardware.baseWh;
+      this.hardwareCounterInitial = state.hardware.initialWh;
+      this.hardwareCounterCurrent = state.hardware.currentWh;
+      this.integratedAtHardwareInitial = state.hardware.integratedAtInitialWh;
+      this.integratedAtHardwareUpdate = state.hardware.integratedAtUpdateWh;
+      this.hardwareUpdateTime = new Date(state.hardware.updatedAt);
+    }
+    
+    this.lastReconciledWh = 0;
+    this.lastReconciledWh = this.getReconciledWh();
+  }
+  
   /**
    * Reset the integrator
    */
@@ -92,6 +258,11 @@ export class EnergyIntegrator {
     this.lastUpdateTime = undefined;
     this.hardwareCounterInitial = undefined;
     this.hardwareCounterCurrent = undefined;
+    this.hardwareBaseWh = 0;
+    this.integratedAtHardwareInitial = 0;
+    this.integratedAtHardwareUpdate = 0;
+    this.hardwareUpdateTime = undefined;
+    this.lastReconciledWh = 0;
   }
 }
 
@@ -129,6 +300,53 @@ export class BidirectionalEnergyIntegrator {
     }
   }
   
+  /**
+   * Feed hardware counters for both directions (e.g. meter import/export registers)
+   */
+  updateHardwareCounters(positiveWh: number, negativeWh: number, timestamp: Date = new Date()): void {
+    this.positiveIntegrator.updateHardwareCounter(positiveWh, timestamp);
+    this.negativeIntegrator.updateHardwareCounter(negativeWh, timestamp);
+  }
+  
+  /**
+   * Get reconciled positive energy flow in Wh (hardware counter where available)
+   */
+  getPositiveReconciledWh(): number {
+    return this.positiveIntegrator.getReconciledWh();
+  }
+  
+  /**
+   * Get reconciled negative energy flow in Wh (hardware counter where available)
+   */
+  getNegativeReconciledWh(): number {
+    return this.negativeIntegrator.getReconciledWh();
+  }
+  
+  /**
+   * Get integration vs hardware drift for each direction
+   */
+  getPositiveDrift(): EnergyDrift | null {
+    return this.positiveIntegrator.getDrift();
+  }
+  
+  getNegativeDrift(): EnergyDrift | null {
+    return this.negativeIntegrator.getDrift();
+  }
+  
+  /**
+   * Whether hardware counters have been seen
+   */
+  hasHardwareCounters(): boolean {
+    return this.positiveIntegrator.hasHardwareCounter() && this.negativeIntegrator.hasHardwareCounter();
+  }
+  
+  /**
+   * Time of the latest hardware counter reading (both directions are read together)
+   */
+  getHardwareUpdateTime(): Date | undefined {
+    return this.positiveIntegrator.getHardwareUpdateTime();
+  }
+  
   /**
    * Get positive energy flow in Wh
    */
@@ -157,6 +375,24 @@ export class BidirectionalEnergyIntegrator {
     return this.negativeIntegrator.getTotalKwh();
   }
   
+  /**
+   * Get the state of both directions
+   */
+  getState(): BidirectionalEnergyIntegratorState {
+    return {
+      positive: this.positiveIntegrator.getState(),
+      negative: this.negativeIntegrator.getState()
+    };
+  }
+  
+  /**
+   * Restore both directions from a checkpoint
+   */
+  restoreState(state: BidirectionalEnergyIntegratorState): void {
+    this.positiveIntegrator.restoreState(state.positive);
+    this.negativeIntegrator.restoreState(state.negative);
+  }
+  
   /**
    * Reset both integrators
    */
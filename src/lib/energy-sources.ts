@@ -0,0 +1,18 @@
+import { EnergySource, EnergySources } from '@/types/fronius';
+
+function combineEnergySource(values: Array<EnergySource | null | undefined>): EnergySource | null {
+  const present = values.filter((value): value is EnergySource => value !== null && value !== undefined);
+  if (present.length === 0) return null;
+  return present.every(value => value === present[0]) ? present[0] : 'mixed';
+}
+
+/**
+ * Combine energy sources across inverters or intervals - a flow is 'mixed' unless every contributor agrees
+ */
+export function combineEnergySources(sources: Array<EnergySources | undefined>): EnergySources {
+  return {
+    solar: combineEnergySource(sources.map(source => source?.solar)),
+    battery: combineEnergySource(sources.map(source => source?.battery)),
+    grid: combineEnergySource(sources.map(source => source?.grid))
+  };
+}
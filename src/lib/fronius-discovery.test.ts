@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { discoverFroniusInverters } from './fronius-discovery';
+import { ConfigIssue } from './inverter-config';
+import { FroniusSimulator } from '@/simulator/fronius-simulator';
+
+describe('discoverFroniusInverters with configured inverters', () => {
+  let simulator: FroniusSimulator;
+  let masterHost: string;
+  let slaveHost: string;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    simulator = new FroniusSimulator({ profile: 'day' });
+    [masterHost, slaveHost] = await simulator.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('probes configured hosts without scanning', async () => {
+    const devices = await discoverFroniusInverters({
+      inverters: [{ host: masterHost }, { host: slaveHost, name: 'Garage' }],
+      hosts: []
+    });
+
+    expect(devices.map(device => [device.serialNumber, device.isMaster, device.mac])).toEqual([
+      ['31347675', true, 'unknown'],
+      ['31347674', false, 'unknown']
+    ]);
+    expect(devices[1].info?.CustomName).toBe('Garage');
+  });
+
+  it('keeps the name of a host configured by hostname', async () => {
+    const port = masterHost.split(':')[1];
+    const devices = await discoverFroniusInverters({
+      inverters: [{ host: `localhost:${port}` }],
+      hosts: []
+    });
+
+    expect(devices.map(device => [device.serialNumber, device.hostname])).toEqual([['31347675', 'localhost']]);
+  });
+
+  it('rejects an inverter whose serial does not match and reports it', async () => {
+    const issues: ConfigIssue[] = [];
+    const devices = await discoverFroniusInverters({
+      inverters: [{ host: masterHost, serialNumber: '99999999' }],
+      hosts: [],
+      onIssue: issue => issues.push(issue)
+    });
+
+    expect(devices).toEqual([]);
+    expect(issues).toEqual([{
+      host: masterHost,
+      message: `${masterHost} reports serial 31347675, expected 99999999 - has its address changed?`
+    }]);
+  });
+
+  it('reports configured hosts that are not Fronius inverters', async () => {
+    const issues: ConfigIssue[] = [];
+    await discoverFroniusInverters({
+      inverters: [{ host: '127.0.0.1:1' }],
+      hosts: [],
+      onIssue: issue => issues.push(issue)
+    });
+
+    expect(issues.map(issue => issue.host)).toEqual(['127.0.0.1:1']);
+  });
+
+  it('uses the configured master flag over detection, with a warning', async () => {
+    const issues: ConfigIssue[] = [];
+    const devices = await discoverFroniusInverters({
+      inverters: [{ host: slaveHost, isMaster: true }],
+      hosts: [],
+      onIssue: issue => issues.push(issue)
+    });
+
+    expect(devices[0].isMaster).toBe(true);
+    expect(issues[0].message).toMatch(/configured as master but looks like a slave/);
+  });
+});
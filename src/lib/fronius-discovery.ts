@@ -2,6 +2,10 @@ import axios from 'axios';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as os from 'os';
+import { promises as dns } from 'dns';
+import ip from 'ip';
+import { InverterConfigEntry, ConfigIssue, ScanMode, SCAN_MODES } from './inverter-config';
+import { NetworkRange, MIN_SCAN_PREFIX, interfaceRange, narrowRange, parseCidrRange, rangeHosts } from './network-range';
 
 const execAsync = promisify(exec);
 
@@ -28,16 +32,70 @@ interface FroniusDevice {
   };
 }
 
-function getLocalNetworks(): string[] {
+export interface DiscoveryOptions {
+  inverters?: InverterConfigEntry[];      // Inverters from the config file
+  hosts?: string[];                       // Extra host[:port] addresses to check (default: FRONIUS_HOSTS; [] for none)
+  scan?: boolean;                         // Also scan the local network (default: only when nothing is configured)
+  scanMode?: ScanMode;                    // How to sweep networks (default: FRONIUS_SCAN_MODE, else 'arp')
+  networks?: string[];                    // CIDR ranges to scan as well as (or with scan off, instead of) the local networks
+  concurrency?: number;                   // Most pings/probes in flight at once (default DEFAULT_SCAN_CONCURRENCY)
+  onIssue?: (issue: ConfigIssue) => void; // Called for each misconfiguration found while probing
+  onProgress?: (progress: ScanProgress) => void; // Called as each host is pinged or probed
+}
+
+export interface ScanProgress {
+  phase: 'ping' | 'sweep' | 'probe';
+  checked: number;
+  total: number;
+}
+
+export const DEFAULT_SCAN_CONCURRENCY = 32;
+
+// How long a swept address gets to answer GetAPIVersion.cgi - most don't, so this sets the pace of an HTTP sweep
+const SWEEP_TIMEOUT_MS = 1500;
+const HOSTNAME_LOOKUP_TIMEOUT_MS = 2000;
+
+// Hosts from FRONIUS_HOSTS (comma-separated host[:port], e.g. a local simulator)
+export function getConfiguredHosts(): string[] {
+  return (process.env.FRONIUS_HOSTS ?? '')
+    .split(',')
+    .map(host => host.trim())
+    .filter(host => host.length > 0);
+}
+
+/**
+ * Scan mode from FRONIUS_SCAN_MODE:
+ * - 'arp' (default): ping every address, then probe whatever turned up in the ARP table
+ * - 'http': probe every address's Solar API directly - no ping/arp binaries or privileges needed
+ */
+export function getScanMode(): ScanMode {
+  const mode = process.env.FRONIUS_SCAN_MODE?.trim().toLowerCase();
+  if (!mode) {
+    return 'arp';
+  }
+  if (!SCAN_MODES.includes(mode as ScanMode)) {
+    console.error(`[Config] FRONIUS_SCAN_MODE "${mode}" is not one of ${SCAN_MODES.join(', ')} - using arp`);
+    return 'arp';
+  }
+  return mode as ScanMode;
+}
+
+function getLocalNetworks(): NetworkRange[] {
   const interfaces = os.networkInterfaces();
-  const networks: string[] = [];
+  const networks: NetworkRange[] = [];
   
   for (const [name, ifaces] of Object.entries(interfaces)) {
     if (ifaces) {
       for (const iface of ifaces) {
         if (iface.family === 'IPv4' && !iface.internal) {
-          const subnet = calculateSubnet(iface.address, iface.netmask);
-          if (subnet) networks.push(subnet);
+          const range = interfaceRange(iface.address, iface.netmask);
+          const scanRange = narrowRange(range, iface.address);
+          if (scanRange !== range) {
+            console.log(`${name} is on ${range.cidr}, which is too big to sweep - only scanning ${scanRange.cidr}`);
+          }
+          if (!networks.some(network => network.cidr === scanRange.cidr)) {
+            networks.push(scanRange);
+          }
         }
       }
     }
@@ -46,18 +104,6 @@ function getLocalNetworks(): string[] {
   return networks;
 }
 
-function calculateSubnet(ip: string, netmask: string): string | null {
-  const ipParts = ip.split('.').map(Number);
-  const maskParts = netmask.split('.').map(Number);
-  
-  const networkParts = ipParts.map((part, i) => part & maskParts[i]);
-  const cidr = maskParts.reduce((acc, part) => {
-    return acc + part.toString(2).replace(/0/g, '').length;
-  }, 0);
-  
-  return `${networkParts.join('.')}/24`;
-}
-
 interface ArpEntry {
   mac: string;
   hostname?: string;
@@ -134,26 +180,81 @@ async function scanNetwork(): Promise<Map<string, ArpEntry>> {
   return arpTable;
 }
 
-async function pingSubnet(subnet: string): Promise<void> {
-  const baseIP = subnet.split('/')[0];
-  const parts = baseIP.split('.').map(Number);
-  const promises: Promise<void>[] = [];
+// Run a task for every item with at most `limit` running at once
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
   
-  for (let i = 1; i <= 254; i++) {
-    const ip = `${parts[0]}.${parts[1]}.${parts[2]}.${i}`;
-    const platform = os.platform();
-    const pingCommand = platform === 'win32' 
-      ? `ping -n 1 -w 100 ${ip}`
-      : `ping -c 1 -W 1 ${ip}`;
-    
-    promises.push(
-      execAsync(pingCommand)
-        .then(() => {})
-        .catch(() => {})
-    );
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function pingHost(ip: string): Promise<boolean> {
+  const pingCommand = os.platform() === 'win32'
+    ? `ping -n 1 -w 100 ${ip}`
+    : `ping -c 1 -W 1 ${ip}`;
+  
+  try {
+    await execAsync(pingCommand);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Ping every host so the ARP table fills in, returning the ones that answered
+async function pingHosts(hosts: string[], concurrency: number, onProgress: (checked: number) => void): Promise<string[]> {
+  let checked = 0;
+  const answered = await mapWithConcurrency(hosts, concurrency, async host => {
+    const alive = await pingHost(host);
+    onProgress(++checked);
+    return alive;
+  });
+  return hosts.filter((_, index) => answered[index]);
+}
+
+// Quiet version of checkFroniusDevice for sweeping a whole range, where nearly every address fails
+async function answersSolarApi(ip: string): Promise<boolean> {
+  try {
+    const response = await axios.get(`http://${ip}/solar_api/GetAPIVersion.cgi`, {
+      timeout: SWEEP_TIMEOUT_MS,
+      validateStatus: (status) => status === 200
+    });
+    return typeof response.data === 'object' && response.data !== null && 'APIVersion' in response.data;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Name for an address from the system resolver. This goes through getnameinfo, so it picks up
+ * mDNS (.local) names where the host has nss-mdns/Bonjour, as well as reverse DNS and /etc/hosts.
+ */
+async function resolveHostname(host: string): Promise<string | undefined> {
+  const address = host.split(':')[0];
+  if (!ip.isV4Format(address)) {
+    return address;  // Configured by name already
   }
   
-  await Promise.all(promises);
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => resolve(undefined), HOSTNAME_LOOKUP_TIMEOUT_MS);
+  });
+  try {
+    const lookup = dns.lookupService(address, 80)
+      .then(({ hostname }) => hostname !== address ? hostname : undefined)
+      .catch(() => undefined);
+    return await Promise.race([lookup, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 async function checkFroniusDevice(ip: string): Promise<boolean> {
@@ -241,94 +342,300 @@ async function getFroniusData(ip: string): Promise<any> {
   }
 }
 
-export async function discoverFroniusInverters(): Promise<FroniusDevice[]> {
-  console.log('Starting Fronius inverter discovery...');
-  
-  const networks = getLocalNetworks();
-  console.log('Found networks:', networks);
+async function scanNetworks(
+  networks: NetworkRange[],
+  concurrency: number,
+  reportProgress: (progress: ScanProgress) => void
+): Promise<Map<string, ArpEntry>> {
+  console.log('Scanning networks:', networks.map(network => network.cidr));
   
-  for (const network of networks) {
-    console.log(`Pinging subnet ${network}...`);
-    await pingSubnet(network);
-  }
+  const hosts = Array.from(new Set(networks.flatMap(rangeHosts)));
+  reportProgress({ phase: 'ping', checked: 0, total: hosts.length });
+  const answered = await pingHosts(hosts, concurrency, checked => {
+    reportProgress({ phase: 'ping', checked, total: hosts.length });
+  });
+  console.log(`${answered.length} of ${hosts.length} hosts answered a ping`);
   
   await new Promise(resolve => setTimeout(resolve, 2000));
   
   const arpTable = await scanNetwork();
   console.log(`Found ${arpTable.size} devices in ARP table`);
   
+  // Hosts on routed networks answer pings but never show up in the ARP table
+  for (const host of answered) {
+    if (!arpTable.has(host)) {
+      arpTable.set(host, { mac: 'unknown' });
+    }
+  }
+  return arpTable;
+}
+
+// Probe the Solar API on every address directly, returning the ones that answered
+async function sweepNetworks(
+  networks: NetworkRange[],
+  concurrency: number,
+  reportProgress: (progress: ScanProgress) => void
+): Promise<Map<string, ArpEntry>> {
+  console.log('Sweeping networks over HTTP:', networks.map(network => network.cidr));
+  
+  const hosts = Array.from(new Set(networks.flatMap(rangeHosts)));
+  let checked = 0;
+  reportProgress({ phase: 'sweep', checked: 0, total: hosts.length });
+  const answered = await mapWithConcurrency(hosts, concurrency, async host => {
+    const isFronius = await answersSolarApi(host);
+    reportProgress({ phase: 'sweep', checked: ++checked, total: hosts.length });
+    return isFronius;
+  });
+  
+  const found = new Map<string, ArpEntry>();
+  hosts.filter((_, index) => answered[index]).forEach(host => found.set(host, { mac: 'unknown' }));
+  console.log(`${found.size} of ${hosts.length} addresses answered as a Fronius Solar API`);
+  return found;
+}
+
+// Check one candidate and gather what we need to track it, or null if it isn't a usable Fronius inverter
+async function probeDevice(
+  ip: string,
+  arpEntry: ArpEntry,
+  expected: InverterConfigEntry | undefined,
+  reportIssue: (issue: ConfigIssue) => void
+): Promise<FroniusDevice | null> {
+  const isFronius = await checkFroniusDevice(ip);
+  if (!isFronius) {
+    if (expected) {
+      reportIssue({ host: ip, message: `${ip} is not answering as a Fronius Solar API (GetAPIVersion.cgi failed)` });
+    }
+    return null;
+  }
+  
+  const hostnameInfo = arpEntry.hostname ? ` (${arpEntry.hostname})` : '';
+  console.log(`✓ Found Fronius device at ${ip}${hostnameInfo} (MAC: ${arpEntry.mac})`);
+  
+  // Fetch inverter info for display
+  let info: any = {};
+  let serialNumber: string | undefined;
+  try {
+    const infoResponse = await axios.get(`http://${ip}/solar_api/v1/GetInverterInfo.cgi`, {
+      timeout: 2000
+    });
+    if (infoResponse.data?.Body?.Data) {
+      // Get the first inverter's info (usually there's only one per device)
+      const inverters = Object.values(infoResponse.data.Body.Data);
+      if (inverters.length > 0) {
+        const firstInverter = inverters[0] as any;
+        serialNumber = firstInverter.UniqueID;
+        info = {
+          CustomName: firstInverter.CustomName,
+          DT: firstInverter.DT,
+          StatusCode: firstInverter.StatusCode
+        };
+        console.log(`  Device info: ${info.CustomName || 'No name'} (S/N: ${serialNumber || 'Unknown'})`);
+      }
+    }
+  } catch (error) {
+    console.log(`  Could not fetch device info for ${ip}`);
+  }
+  
+  // A configured serial pins the entry to one physical inverter
+  if (expected?.serialNumber) {
+    if (!serialNumber) {
+      reportIssue({ host: ip, message: `${ip} didn't report a serial number, expected ${expected.serialNumber}` });
+      return null;
+    }
+    if (serialNumber !== expected.serialNumber) {
+      reportIssue({ host: ip, message: `${ip} reports serial ${serialNumber}, expected ${expected.serialNumber} - has its address changed?` });
+      return null;
+    }
+  }
+  
+  // Try to fetch manufacturer and model from components API
+  try {
+    const componentsResponse = await axios.get(`http://${ip}/api/components/inverter/readable`, {
+      timeout: 2000
+    });
+    if (componentsResponse.data?.Body?.Data?.['0']?.attributes) {
+      const attrs = componentsResponse.data.Body.Data['0'].attributes;
+      info.manufacturer = attrs.manufacturer || 'Fronius';
+      info.model = attrs.model || 'Unknown Model';
+      console.log(`  Device model: ${info.manufacturer} ${info.model}`);
+    }
+  } catch (error) {
+    // This endpoint may not exist on all models, ignore error
+  }
+  
+  let isMaster: boolean;
+  if (expected?.isMaster !== undefined) {
+    isMaster = expected.isMaster;
+    const detectedMaster = await checkIfMaster(ip);
+    if (detectedMaster !== isMaster) {
+      reportIssue({
+        host: ip,
+        message: `${ip} is configured as ${isMaster ? 'master' : 'slave'} but looks like a ${detectedMaster ? 'master' : 'slave'} - using the config`
+      });
+    }
+  } else {
+    isMaster = await checkIfMaster(ip);
+  }
+  
+  if (expected?.name) {
+    info.CustomName = expected.name;
+  }
+  
+  // Ensure we always have a serial number - use the device's UniqueID or generate from MAC
+  if (!serialNumber) {
+    serialNumber = `UNKNOWN_${arpEntry.mac.replace(/:/g, '')}`;
+    console.log(`  Warning: No serial number found, using generated ID: ${serialNumber}`);
+  }
+  
+  return {
+    ip,
+    mac: arpEntry.mac,
+    hostname: arpEntry.hostname ?? await resolveHostname(ip),
+    isMaster,
+    serialNumber,
+    info
+  };
+}
+
+// The local networks (when scanning) plus any configured CIDR ranges
+function getScanNetworks(scan: boolean, cidrs: string[], reportIssue: (issue: ConfigIssue) => void): NetworkRange[] {
+  const networks: NetworkRange[] = scan ? getLocalNetworks() : [];
+  for (const cidr of cidrs) {
+    const range = parseCidrRange(cidr);
+    if (!range) {
+      reportIssue({ message: `"${cidr}" is not an IPv4 CIDR range - not scanning it` });
+    } else if (range.prefixLength < MIN_SCAN_PREFIX) {
+      reportIssue({ message: `${range.cidr} is too big to scan - use /${MIN_SCAN_PREFIX} or smaller ranges` });
+    } else if (!networks.some(network => network.cidr === range.cidr)) {
+      networks.push(range);
+    }
+  }
+  return networks;
+}
+
+// Serial number (UniqueID) of the first inverter a host reports, if it answers
+async function fetchSerialNumber(ip: string, timeoutMs: number): Promise<string | undefined> {
+  try {
+    const response = await axios.get(`http://${ip}/solar_api/v1/GetInverterInfo.cgi`, { timeout: timeoutMs });
+    const inverters = Object.values(response.data?.Body?.Data ?? {}) as any[];
+    const uniqueId = inverters[0]?.UniqueID;
+    return uniqueId !== undefined && uniqueId !== null ? String(uniqueId) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find where an inverter has gone, e.g. after DHCP gave it a new address. Checks, in order of cost:
+ * the configured hosts, then the ARP table by MAC address (when known), then GetInverterInfo.cgi on every
+ * address in the local and configured networks. Returns the new address, or null if it can't be found.
+ */
+export async function locateInverter(
+  serialNumber: string,
+  mac: string | undefined,
+  options: DiscoveryOptions = {}
+): Promise<string | null> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_SCAN_CONCURRENCY);
+  const isTarget = async (host: string) => await fetchSerialNumber(host, SWEEP_TIMEOUT_MS) === serialNumber;
+  
+  const configuredHosts = [
+    ...(options.inverters ?? []).map(entry => entry.host),
+    ...(options.hosts ?? getConfiguredHosts())
+  ];
+  for (const host of configuredHosts) {
+    if (await isTarget(host)) {
+      return host;
+    }
+  }
+  
+  const scanMode = options.scanMode ?? getScanMode();
+  if (mac && mac !== 'unknown' && scanMode === 'arp') {
+    const arpTable = await scanNetwork();
+    for (const [ip, entry] of arpTable) {
+      if (entry.mac === mac && await isTarget(ip)) {
+        return ip;
+      }
+    }
+  }
+  
+  // Always sweep the local networks - a moved inverter is most likely still on the same LAN
+  const reportIssue = (issue: ConfigIssue) => console.error(`[Config] ${issue.message}`);
+  const hosts = Array.from(new Set(getScanNetworks(true, options.networks ?? [], reportIssue).flatMap(rangeHosts)));
+  let found: string | null = null;
+  await mapWithConcurrency(hosts, concurrency, async host => {
+    if (!found && await isTarget(host)) {
+      found = host;
+    }
+  });
+  return found;
+}
+
+export async function discoverFroniusInverters(options: DiscoveryOptions = {}): Promise<FroniusDevice[]> {
+  console.log('Starting Fronius inverter discovery...');
+  
+  const reportIssue = (issue: ConfigIssue) => {
+    console.error(`[Config] ${issue.message}`);
+    options.onIssue?.(issue);
+  };
+  
+  // Configured inverters, plus bare hosts (e.g. a simulator from FRONIUS_HOSTS)
+  const configured: InverterConfigEntry[] = [
+    ...(options.inverters ?? []),
+    ...(options.hosts ?? getConfiguredHosts()).map(host => ({ host }))
+  ];
+  const scan = options.scan ?? configured.length === 0;
+  const scanMode = options.scanMode ?? getScanMode();
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_SCAN_CONCURRENCY);
+  const reportProgress = (progress: ScanProgress) => options.onProgress?.(progress);
+  
+  const networks = getScanNetworks(scan, options.networks ?? [], reportIssue);
+  
+  // Configured hosts skip the network scan, so there's no MAC address to go on unless the scan also finds them.
+  // An HTTP sweep never has one.
+  let arpTable: Map<string, ArpEntry> = new Map();
+  if (networks.length > 0) {
+    arpTable = scanMode === 'http'
+      ? await sweepNetworks(networks, concurrency, reportProgress)
+      : await scanNetworks(networks, concurrency, reportProgress);
+  }
+  const expectedByHost = new Map<string, InverterConfigEntry>();
+  for (const entry of configured) {
+    if (!expectedByHost.has(entry.host)) {
+      expectedByHost.set(entry.host, entry);
+    }
+    if (!arpTable.has(entry.host)) {
+      arpTable.set(entry.host, { mac: 'unknown' });
+    }
+  }
+  if (configured.length > 0) {
+    console.log(`Checking configured hosts: ${configured.map(entry => entry.host).join(', ')}`);
+  }
+  
+  const candidates = Array.from(arpTable.entries());
+  let probed = 0;
+  reportProgress({ phase: 'probe', checked: 0, total: candidates.length });
+  const results = await mapWithConcurrency(candidates, concurrency, async ([ip, arpEntry]) => {
+    const device = await probeDevice(ip, arpEntry, expectedByHost.get(ip), reportIssue);
+    reportProgress({ phase: 'probe', checked: ++probed, total: candidates.length });
+    return device;
+  });
+  
   const froniusDevices: FroniusDevice[] = [];
-  const checkPromises: Promise<void>[] = [];
-  
-  for (const [ip, arpEntry] of arpTable.entries()) {
-    checkPromises.push(
-      checkFroniusDevice(ip).then(async (isFronius) => {
-        if (isFronius) {
-          const hostnameInfo = arpEntry.hostname ? ` (${arpEntry.hostname})` : '';
-          console.log(`✓ Found Fronius device at ${ip}${hostnameInfo} (MAC: ${arpEntry.mac})`);
-          
-          // Fetch inverter info for display
-          let info: any = {};
-          let serialNumber: string | undefined;
-          try {
-            const infoResponse = await axios.get(`http://${ip}/solar_api/v1/GetInverterInfo.cgi`, {
-              timeout: 2000
-            });
-            if (infoResponse.data?.Body?.Data) {
-              // Get the first inverter's info (usually there's only one per device)
-              const inverters = Object.values(infoResponse.data.Body.Data);
-              if (inverters.length > 0) {
-                const firstInverter = inverters[0] as any;
-                serialNumber = firstInverter.UniqueID;
-                info = {
-                  CustomName: firstInverter.CustomName,
-                  DT: firstInverter.DT,
-                  StatusCode: firstInverter.StatusCode
-                };
-                console.log(`  Device info: ${info.CustomName || 'No name'} (S/N: ${serialNumber || 'Unknown'})`);
-              }
-            }
-          } catch (error) {
-            console.log(`  Could not fetch device info for ${ip}`);
-          }
-          
-          // Try to fetch manufacturer and model from components API
-          try {
-            const componentsResponse = await axios.get(`http://${ip}/api/components/inverter/readable`, {
-              timeout: 2000
-            });
-            if (componentsResponse.data?.Body?.Data?.['0']?.attributes) {
-              const attrs = componentsResponse.data.Body.Data['0'].attributes;
-              info.manufacturer = attrs.manufacturer || 'Fronius';
-              info.model = attrs.model || 'Unknown Model';
-              console.log(`  Device model: ${info.manufacturer} ${info.model}`);
-            }
-          } catch (error) {
-            // This endpoint may not exist on all models, ignore error
-          }
-          
-          const isMaster = await checkIfMaster(ip);
-          
-          // Ensure we always have a serial number - use the device's UniqueID or generate from MAC
-          if (!serialNumber) {
-            serialNumber = `UNKNOWN_${arpEntry.mac.replace(/:/g, '')}`;
-            console.log(`  Warning: No serial number found, using generated ID: ${serialNumber}`);
-          }
-          
-          froniusDevices.push({
-            ip,
-            mac: arpEntry.mac,
-            hostname: arpEntry.hostname,
-            isMaster,
-            serialNumber,
-            info
-          });
-        }
-      })
-    );
+  for (const device of results) {
+    if (!device) continue;
+    
+    // The same inverter can turn up twice, e.g. by hostname in the config and by IP from the scan
+    const duplicate = froniusDevices.find(existing => existing.serialNumber === device.serialNumber);
+    if (duplicate) {
+      reportIssue({ host: device.ip, message: `${device.ip} is the same inverter (${device.serialNumber}) as ${duplicate.ip} - ignoring it` });
+      continue;
+    }
+    froniusDevices.push(device);
   }
   
-  await Promise.all(checkPromises);
+  if (froniusDevices.filter(device => device.isMaster).length > 1) {
+    reportIssue({ message: `More than one master found (${froniusDevices.filter(device => device.isMaster).map(device => device.ip).join(', ')}) - set "isMaster" in the config` });
+  }
   
   console.log(`\nDiscovery complete. Found ${froniusDevices.length} Fronius device(s):`);
   froniusDevices.forEach(device => {
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { getBucketStart, rollupMinutely, parseHistoryQuery } from './history-rollup';
+import { formatLocalDateTime } from './date-utils';
+import { FroniusMinutely } from '@/types/fronius';
+
+// Local times, so bucket boundaries line up with the dates below in any time zone
+const at = (month: number, day: number, hour: number, minute: number = 0, second: number = 0) =>
+  new Date(2025, month - 1, day, hour, minute, second);
+
+// A report stamped at the given time, covering the minute before it
+function report(time: Date, fields: Partial<FroniusMinutely> = {}): FroniusMinutely {
+  return {
+    timestamp: formatLocalDateTime(time),
+    sequence: `abcd/${time.getTime()}`,
+    solarW: 0, solarWhInterval: 0,
+    solarLocalW: 0, solarLocalWhInterval: 0,
+    solarRemoteW: 0, solarRemoteWhInterval: 0,
+    loadW: 0, loadWhInterval: 0,
+    batteryW: 0, batteryInWhInterval: 0, batteryOutWhInterval: 0,
+    gridW: 0, gridInWhInterval: 0, gridOutWhInterval: 0,
+    batterySOC: null,
+    faultCode: null,
+    faultTimestamp: null,
+    generatorStatus: null,
+    energySources: { solar: 'hardware', battery: null, grid: 'hardware' },
+    ...fields
+  };
+}
+
+describe('getBucketStart', () => {
+  const time = at(9, 14, 10, 37, 25);
+
+  it('truncates to the start of each interval in local time', () => {
+    expect(getBucketStart(time, 'minute')).toEqual(at(9, 14, 10, 37));
+    expect(getBucketStart(time, '15min')).toEqual(at(9, 14, 10, 30));
+    expect(getBucketStart(time, 'hour')).toEqual(at(9, 14, 10));
+    expect(getBucketStart(time, 'day')).toEqual(at(9, 14, 0));
+    expect(getBucketStart(time, 'month')).toEqual(at(9, 1, 0));
+  });
+
+  it('keeps the last minute of a day in that day', () => {
+    expect(getBucketStart(at(9, 14, 23, 59, 59), 'day')).toEqual(at(9, 14, 0));
+    expect(getBucketStart(at(9, 15, 0, 0, 0), 'day')).toEqual(at(9, 15, 0));
+    expect(getBucketStart(at(9, 30, 23, 59), 'month')).toEqual(at(9, 1, 0));
+    expect(getBucketStart(at(10, 1, 0, 0), 'month')).toEqual(at(10, 1, 0));
+  });
+});
+
+describe('rollupMinutely', () => {
+  it('sums energy, averages power and stamps each bucket with its start', () => {
+    const rolled = rollupMinutely([
+      report(at(9, 14, 10, 1), { solarW: 3000, solarWhInterval: 50, gridW: -1000, gridOutWhInterval: 17, loadW: 2000, loadWhInterval: 33 }),
+      report(at(9, 14, 10, 2), { solarW: 3600, solarWhInterval: 60, gridW: -1600, gridOutWhInterval: 27, loadW: 2000, loadWhInterval: 33 }),
+      report(at(9, 14, 11, 1), { solarW: 1200, solarWhInterval: 20 })
+    ], 'hour');
+
+    expect(rolled).toHaveLength(2);
+    expect(rolled[0]).toMatchObject({
+      timestamp: formatLocalDateTime(at(9, 14, 10)),
+      solarW: 3300, solarWhInterval: 110,
+      gridW: -1300, gridOutWhInterval: 44,
+      loadW: 2000, loadWhInterval: 66
+    });
+    expect(rolled[1]).toMatchObject({ timestamp: formatLocalDateTime(at(9, 14, 11)), solarW: 1200, solarWhInterval: 20 });
+  });
+
+  it('counts a report towards the period it covers, not the one it was stamped in', () => {
+    // Stamped at midnight, but covers 23:59-00:00
+    const rolled = rollupMinutely([
+      report(at(9, 14, 23, 59), { solarWhInterval: 1 }),
+      report(at(9, 15, 0, 0), { solarWhInterval: 2 }),
+      report(at(9, 15, 0, 1), { solarWhInterval: 4 })
+    ], 'day');
+
+    expect(rolled.map(r => [r.timestamp, r.solarWhInterval])).toEqual([
+      [formatLocalDateTime(at(9, 14, 0)), 3],
+      [formatLocalDateTime(at(9, 15, 0)), 4]
+    ]);
+  });
+
+  it('rolls days into local calendar months', () => {
+    const rolled = rollupMinutely([
+      report(at(9, 30, 12), { gridInWhInterval: 100 }),
+      report(at(10, 1, 12), { gridInWhInterval: 200 }),
+      report(at(10, 31, 12), { gridInWhInterval: 300 })
+    ], 'month');
+
+    expect(rolled.map(r => [r.timestamp, r.gridInWhInterval])).toEqual([
+      [formatLocalDateTime(at(9, 1, 0)), 100],
+      [formatLocalDateTime(at(10, 1, 0)), 500]
+    ]);
+  });
+
+  it('groups 15-minute buckets', () => {
+    const rolled = rollupMinutely([
+      report(at(9, 14, 10, 15), { solarWhInterval: 1 }),   // Covers 10:14
+      report(at(9, 14, 10, 16), { solarWhInterval: 2 }),   // Covers 10:15
+      report(at(9, 14, 10, 30), { solarWhInterval: 4 })    // Covers 10:29
+    ], '15min');
+
+    expect(rolled.map(r => [r.timestamp, r.solarWhInterval])).toEqual([
+      [formatLocalDateTime(at(9, 14, 10, 0)), 1],
+      [formatLocalDateTime(at(9, 14, 10, 15)), 6]
+    ]);
+  });
+
+  it('takes the last SoC, fault and sequence in the bucket', () => {
+    const first = report(at(9, 14, 10, 1), { batterySOC: 50, faultCode: 3, faultTimestamp: 'then' });
+    const last = report(at(9, 14, 10, 2), { batterySOC: null });
+
+    const [rolled] = rollupMinutely([first, last], 'hour');
+    expect(rolled.batterySOC).toBe(50);
+    expect(rolled.faultCode).toBe(3);
+    expect(rolled.faultTimestamp).toBe('then');
+    expect(rolled.sequence).toBe(last.sequence);
+  });
+
+  it('marks a flow mixed when its source changed within the bucket', () => {
+    const [rolled] = rollupMinutely([
+      report(at(9, 14, 10, 1)),
+      report(at(9, 14, 10, 2), { energySources: { solar: 'integrated', battery: null, grid: 'hardware' } })
+    ], 'hour');
+
+    expect(rolled.energySources).toEqual({ solar: 'mixed', battery: null, grid: 'hardware' });
+  });
+
+  it('sums subload and EV energy over the reports that have them', () => {
+    const [withMeters] = rollupMinutely([
+      report(at(9, 14, 10, 1), { subloadW: 600, subloadWhInterval: 10, evW: 7200, evWhInterval: 120 }),
+      report(at(9, 14, 10, 2)),
+      report(at(9, 14, 10, 3), { subloadW: 1200, subloadWhInterval: 20, evW: 0, evWhInterval: 0 })
+    ], 'hour');
+
+    expect(withMeters).toMatchObject({ subloadW: 900, subloadWhInterval: 30, evW: 3600, evWhInterval: 120 });
+
+    const [withoutMeters] = rollupMinutely([report(at(9, 14, 10, 1))], 'hour');
+    expect(withoutMeters).not.toHaveProperty('subloadWhInterval');
+    expect(withoutMeters).not.toHaveProperty('evW');
+  });
+});
+
+describe('parseHistoryQuery', () => {
+  const now = new Date('2025-09-14T10:00:00Z');
+  const parse = (query: string) => parseHistoryQuery(new URLSearchParams(query), now);
+
+  it('defaults to the last 24 hours by the minute', () => {
+    expect(parse('')).toEqual({
+      from: new Date('2025-09-13T10:00:00Z'),
+      to: now,
+      interval: 'minute',
+      serialNumber: undefined
+    });
+  });
+
+  it('reads the range, interval and serial', () => {
+    expect(parse('from=2025-09-01T00:00:00%2B10:00&to=2025-09-02T00:00:00%2B10:00&interval=day&serial=MASTER1')).toEqual({
+      from: new Date('2025-08-31T14:00:00Z'),
+      to: new Date('2025-09-01T14:00:00Z'),
+      interval: 'day',
+      serialNumber: 'MASTER1'
+    });
+  });
+
+  it('takes 24 hours before "to" when only "to" is given', () => {
+    expect(parse('to=2025-09-01T00:00:00Z')).toMatchObject({ from: new Date('2025-08-31T00:00:00Z') });
+  });
+
+  it('rejects invalid timestamps, ranges and intervals', () => {
+    expect(parse('to=yesterday')).toEqual({ error: 'Invalid "to" timestamp' });
+    expect(parse('from=soon')).toEqual({ error: 'Invalid "from" timestamp' });
+    expect(parse('from=2025-09-02T00:00:00Z&to=2025-09-01T00:00:00Z')).toEqual({ error: '"from" must be before "to"' });
+    expect(parse('from=2025-09-01T00:00:00Z&to=2025-09-01T00:00:00Z')).toEqual({ error: '"from" must be before "to"' });
+    expect(parse('interval=week')).toEqual({ error: 'Invalid interval - must be one of: minute, 15min, hour, day, month' });
+  });
+});
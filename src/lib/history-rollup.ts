@@ -0,0 +1,206 @@
+import { FroniusMinutely } from '@/types/fronius';
+import { formatLocalDateTime } from './date-utils';
+import { combineEnergySources } from './energy-sources';
+
+export type RollupInterval = 'minute' | '15min' | 'hour' | 'day' | 'month';
+
+export const ROLLUP_INTERVALS: RollupInterval[] = ['minute', '15min', 'hour', 'day', 'month'];
+
+// Each FroniusMinutely report covers the minute before its timestamp
+const REPORT_PERIOD_MS = 60 * 1000;
+
+// Default /api/history window when no range is given
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// Energy fields are summed across a bucket
+const INTERVAL_FIELDS = [
+  'solarWhInterval',
+  'solarLocalWhInterval',
+  'solarRemoteWhInterval',
+  'loadWhInterval',
+  'batteryInWhInterval',
+  'batteryOutWhInterval',
+  'gridInWhInterval',
+  'gridOutWhInterval'
+] as const;
+
+// Power fields are averaged across a bucket
+const POWER_FIELDS = [
+  'solarW',
+  'solarLocalW',
+  'solarRemoteW',
+  'loadW',
+  'batteryW',
+  'gridW'
+] as const;
+
+// Metered subload and EV flows - only on sites with those meters, so only summed or averaged where reported
+const OPTIONAL_INTERVAL_FIELDS = ['subloadWhInterval', 'evWhInterval'] as const;
+const OPTIONAL_POWER_FIELDS = ['subloadW', 'evW'] as const;
+
+export function isRollupInterval(value: string): value is RollupInterval {
+  return (ROLLUP_INTERVALS as string[]).includes(value);
+}
+
+// A validated /api/history query
+export interface HistoryQuery {
+  from: Date;
+  to: Date;
+  interval: RollupInterval;
+  serialNumber?: string;
+}
+
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (value === null) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read from, to, interval and serial from /api/history's query string. The range defaults to the 24 hours up to
+ * now and the interval to minute. Returns an error message for the response instead if anything is invalid.
+ */
+export function parseHistoryQuery(params: URLSearchParams, now: Date = new Date()): HistoryQuery | { error: string } {
+  const to = parseDateParam(params.get('to'));
+  const from = parseDateParam(params.get('from'));
+  if (to === null) return { error: 'Invalid "to" timestamp' };
+  if (from === null) return { error: 'Invalid "from" timestamp' };
+
+  const toDate = to ?? now;
+  const fromDate = from ?? new Date(toDate.getTime() - DEFAULT_RANGE_MS);
+  if (fromDate >= toDate) {
+    return { error: '"from" must be before "to"' };
+  }
+
+  const interval = params.get('interval') ?? 'minute';
+  if (!isRollupInterval(interval)) {
+    return { error: `Invalid interval - must be one of: ${ROLLUP_INTERVALS.join(', ')}` };
+  }
+
+  return { from: fromDate, to: toDate, interval, serialNumber: params.get('serial') ?? undefined };
+}
+
+/**
+ * Get the start of the (local time) bucket that contains the given instant
+ */
+export function getBucketStart(date: Date, interval: RollupInterval): Date {
+  const start = new Date(date);
+  start.setSeconds(0, 0);
+
+  switch (interval) {
+    case 'minute':
+      break;
+    case '15min':
+      start.setMinutes(Math.floor(start.getMinutes() / 15) * 15);
+      break;
+    case 'hour':
+      start.setMinutes(0);
+      break;
+    case 'day':
+      start.setHours(0, 0);
+      break;
+    case 'month':
+      start.setHours(0, 0);
+      start.setDate(1);
+      break;
+  }
+
+  return start;
+}
+
+/**
+ * Roll up FroniusMinutely reports into larger buckets.
+ *
+ * Each output record is FroniusMinutely-shaped and stamped with the start of its bucket:
+ * - *WhInterval fields are summed
+ * - power fields are averaged
+ * - batterySOC and faults take the last reported value
+ * - energySources are combined, so a flow is 'mixed' if its source changed within the bucket
+ * - subload and EV fields are summed or averaged over the reports that have them
+ * - sequence is the sequence of the last report in the bucket
+ */
+export function rollupMinutely<T extends FroniusMinutely>(records: T[], interval: RollupInterval): FroniusMinutely[] {
+  const buckets = new Map<number, T[]>();
+
+  for (const record of records) {
+    // Bucket by the start of the period the report covers, so a report at 10:00:01 counts towards 09:59
+    const periodStart = new Date(new Date(record.timestamp).getTime() - REPORT_PERIOD_MS);
+    const key = getBucketStart(periodStart, interval).getTime();
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(record);
+    } else {
+      buckets.set(key, [record]);
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, bucket]) => summariseBucket(new Date(start), bucket));
+}
+
+function summariseBucket(start: Date, bucket: FroniusMinutely[]): FroniusMinutely {
+  const last = bucket[bucket.length - 1];
+
+  const sums = {} as Record<typeof INTERVAL_FIELDS[number], number>;
+  for (const field of INTERVAL_FIELDS) {
+    sums[field] = bucket.reduce((sum, record) => sum + (record[field] ?? 0), 0);
+  }
+
+  const averages = {} as Record<typeof POWER_FIELDS[number], number>;
+  for (const field of POWER_FIELDS) {
+    averages[field] = Math.round(bucket.reduce((sum, record) => sum + (record[field] ?? 0), 0) / bucket.length);
+  }
+
+  const optional: Partial<FroniusMinutely> = {};
+  for (const field of OPTIONAL_INTERVAL_FIELDS) {
+    const reported = bucket.filter(record => record[field] !== undefined);
+    if (reported.length > 0) {
+      optional[field] = reported.reduce((sum, record) => sum + record[field]!, 0);
+    }
+  }
+  for (const field of OPTIONAL_POWER_FIELDS) {
+    const reported = bucket.filter(record => record[field] !== undefined);
+    if (reported.length > 0) {
+      optional[field] = Math.round(reported.reduce((sum, record) => sum + record[field]!, 0) / reported.length);
+    }
+  }
+
+  const lastWithSoc = [...bucket].reverse().find(record => record.batterySOC !== null);
+  const lastWithFault = [...bucket].reverse().find(record => record.faultCode !== null);
+
+  return {
+    timestamp: formatLocalDateTime(start),
+    sequence: last.sequence,
+    solarW: averages.solarW,
+    solarWhInterval: sums.solarWhInterval,
+
+    solarLocalW: averages.solarLocalW,
+    solarLocalWhInterval: sums.solarLocalWhInterval,
+
+    solarRemoteW: averages.solarRemoteW,
+    solarRemoteWhInterval: sums.solarRemoteWhInterval,
+
+    loadW: averages.loadW,
+    loadWhInterval: sums.loadWhInterval,
+
+    batteryW: averages.batteryW,
+    batteryInWhInterval: sums.batteryInWhInterval,
+    batteryOutWhInterval: sums.batteryOutWhInterval,
+
+    gridW: averages.gridW,
+    gridInWhInterval: sums.gridInWhInterval,
+    gridOutWhInterval: sums.gridOutWhInterval,
+
+    batterySOC: lastWithSoc ? lastWithSoc.batterySOC : null,
+
+    faultCode: lastWithFault ? lastWithFault.faultCode : null,
+    faultTimestamp: lastWithFault ? lastWithFault.faultTimestamp : null,
+
+    generatorStatus: null,
+
+    energySources: combineEnergySources(bucket.map(record => record.energySources)),
+
+    ...optional
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryStore } from './history-store';
+import { formatLocalDateTime } from './date-utils';
+import { FroniusMinutely, InverterMinutely } from '@/types/fronius';
+
+// Local times, so day files line up with the dates below in any time zone
+const at = (day: number, hour: number, minute: number = 0, second: number = 0) => new Date(2025, 8, day, hour, minute, second);
+
+const report = (time: Date, solarWhInterval: number) => ({ timestamp: formatLocalDateTime(time), solarWhInterval } as FroniusMinutely);
+const sample = (time: Date, powerW: number, energyWh: number) => ({ timestamp: formatLocalDateTime(time), site: { solar: { powerW, energyWh } } });
+
+describe('HistoryStore', () => {
+  let dataDir: string;
+  let store: HistoryStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-'));
+    store = new HistoryStore(dataDir, { minutelyDays: 2, rawSampleDays: 1, downsampledSampleDays: 2 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const dayFiles = (stream: string) => fs.readdir(path.join(dataDir, 'history', stream)).then(files => files.sort());
+
+  it('appends to one file per local day and reads back across them', async () => {
+    await store.appendMinutely(report(at(14, 23, 59), 1));
+    await store.appendMinutely(report(at(15, 0, 0), 2));
+    await store.appendMinutely(report(at(15, 0, 1), 3));
+
+    expect(await dayFiles('minutely')).toEqual(['2025-09-14.jsonl', '2025-09-15.jsonl']);
+    expect((await store.readMinutely(at(14, 0), at(16, 0))).map(r => r.solarWhInterval)).toEqual([1, 2, 3]);
+  });
+
+  it('reads a half-open range', async () => {
+    await store.appendMinutely(report(at(15, 10, 0, 0), 1));
+    await store.appendMinutely(report(at(15, 10, 0, 1), 2));
+    await store.appendMinutely(report(at(15, 10, 0, 2), 3));
+
+    expect((await store.readMinutely(at(15, 10, 0, 1), at(15, 10, 0, 2))).map(r => r.solarWhInterval)).toEqual([2]);
+  });
+
+  it('filters per-inverter records by serial number', async () => {
+    const record = (serialNumber: string) => ({ serialNumber, timestamp: formatLocalDateTime(at(15, 10)) } as InverterMinutely);
+    await store.appendInverterMinutely(record('MASTER1'));
+    await store.appendInverterMinutely(record('SLAVE1'));
+
+    expect((await store.readInverterMinutely(at(15, 0), at(16, 0), 'SLAVE1')).map(r => r.serialNumber)).toEqual(['SLAVE1']);
+    expect(await store.readInverterMinutely(at(15, 0), at(16, 0))).toHaveLength(2);
+  });
+
+  it('reads the most recent reports across day files, oldest first', async () => {
+    await store.appendMinutely(report(at(14, 23, 58), 1));
+    await store.appendMinutely(report(at(14, 23, 59), 2));
+    await store.appendMinutely(report(at(15, 0, 0), 3));
+
+    expect((await store.readRecentMinutely(2)).map(r => r.solarWhInterval)).toEqual([2, 3]);
+  });
+
+  it('skips a torn last line', async () => {
+    await store.appendMinutely(report(at(15, 10, 0), 1));
+    await fs.appendFile(path.join(dataDir, 'history', 'minutely', '2025-09-15.jsonl'), '{"timestamp":"2025-09-15T10:01');
+
+    expect((await store.readMinutely(at(15, 0), at(16, 0))).map(r => r.solarWhInterval)).toEqual([1]);
+  });
+
+  it('deletes reports past their retention', async () => {
+    await store.appendMinutely(report(at(17, 12), 1));
+    await store.appendMinutely(report(at(18, 12), 2));
+    await store.appendMinutely(report(at(19, 12), 3));
+
+    await store.runMaintenance(at(20, 12));
+
+    expect(await dayFiles('minutely')).toEqual(['2025-09-18.jsonl', '2025-09-19.jsonl']);
+  });
+
+  it('averages aged-out raw samples into 1-minute records, keeping the last energy counter', async () => {
+    await store.appendSample(sample(at(18, 10, 0, 0), 1000, 100));
+    await store.appendSample(sample(at(18, 10, 0, 30), 2001, 110));
+    await store.appendSample(sample(at(18, 10, 1, 0), 500, 120));
+    await store.appendSample(sample(at(19, 10, 0, 0), 3000, 200));
+
+    await store.runMaintenance(at(20, 12));
+
+    // Yesterday's raw samples are kept as they are
+    expect(await dayFiles('samples')).toEqual(['2025-09-19.jsonl']);
+    expect(await dayFiles('samples-1m')).toEqual(['2025-09-18.jsonl']);
+
+    const downsampled = await store.readSamples(at(18, 0), at(19, 0));
+    expect(downsampled).toEqual([
+      { timestamp: formatLocalDateTime(at(18, 10, 0)), site: { solar: { powerW: 1500.5, energyWh: 110 } } },
+      { timestamp: formatLocalDateTime(at(18, 10, 1)), site: { solar: { powerW: 500, energyWh: 120 } } }
+    ]);
+  });
+
+  it('does not downsample a day twice if the raw file outlived an interrupted run', async () => {
+    await store.appendSample(sample(at(18, 10, 0, 0), 1000, 100));
+    await store.appendSample(sample(at(18, 10, 1, 0), 2000, 110));
+    const rawFile = path.join(dataDir, 'history', 'samples', '2025-09-18.jsonl');
+    const raw = await fs.readFile(rawFile, 'utf8');
+    await store.runMaintenance(at(20, 12));
+
+    // As if the process died after writing the 1-minute day but before removing the raw file
+    await fs.writeFile(rawFile, raw);
+    await store.runMaintenance(at(20, 12));
+
+    expect((await store.readSamples(at(18, 0), at(19, 0))).map(s => s.site.solar.powerW)).toEqual([1000, 2000]);
+    expect(await dayFiles('samples-1m')).toEqual(['2025-09-18.jsonl']);
+    expect(await dayFiles('samples')).toEqual([]);
+  });
+
+  it('deletes 1-minute records past their retention', async () => {
+    await store.appendSample(sample(at(16, 10), 1000, 100));
+    await store.runMaintenance(at(18, 12));
+    expect(await dayFiles('samples-1m')).toEqual(['2025-09-16.jsonl']);
+
+    await store.runMaintenance(at(19, 12));
+    expect(await dayFiles('samples-1m')).toEqual([]);
+  });
+
+  it('reads raw samples where a day has them and 1-minute records elsewhere', async () => {
+    await store.appendSample(sample(at(18, 10, 0, 0), 1000, 100));
+    await store.appendSample(sample(at(18, 10, 0, 30), 2000, 110));
+    await store.runMaintenance(at(20, 12));
+
+    // A day with both keeps only its raw samples - e.g. one downsampled while samples were still being written
+    await fs.appendFile(path.join(dataDir, 'history', 'samples-1m', '2025-09-19.jsonl'), JSON.stringify(sample(at(19, 9, 0), 9999, 0)) + '\n');
+    await store.appendSample(sample(at(19, 9, 0, 0), 3000, 200));
+    await store.appendSample(sample(at(19, 9, 0, 2), 3100, 201));
+
+    const samples = await store.readSamples(at(18, 0), at(20, 0));
+    expect(samples.map(s => s.site.solar.powerW)).toEqual([1500, 3000, 3100]);
+  });
+});
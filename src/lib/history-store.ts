@@ -0,0 +1,371 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FroniusMinutely, InverterMinutely } from '@/types/fronius';
+import { getDataDir } from './data-dir';
+
+/**
+ * Retention and downsampling policy for the on-disk history
+ */
+export interface HistoryRetentionPolicy {
+  minutelyDays: number;           // How long FroniusMinutely reports (site and per-inverter) are kept
+  rawSampleDays: number;          // How long full-resolution siteMetrics samples are kept
+  downsampledSampleDays: number;  // How long 1-minute averaged siteMetrics samples are kept
+}
+
+export const DEFAULT_RETENTION_POLICY: HistoryRetentionPolicy = {
+  minutelyDays: 365,
+  rawSampleDays: 3,
+  downsampledSampleDays: 90
+};
+
+// Each stream is a directory of day files: <dataDir>/history/<stream>/YYYY-MM-DD.jsonl
+type HistoryStream = 'minutely' | 'inverter-minutely' | 'samples' | 'samples-1m';
+
+const DAY_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;  // Hourly
+
+// Leaf keys that are averaged when downsampling; everything else takes the last value in the bucket
+const AVERAGED_KEYS = new Set(['powerW', 'soc', 'voltageV', 'currentA', 'powerFactor', 'frequencyHz', 'temperatureC']);
+
+/**
+ * Append-only store for FroniusMinutely reports and siteMetrics samples.
+ *
+ * Records are written as JSON lines into one file per local day, which keeps
+ * writes cheap on an SD card and makes retention a matter of deleting files.
+ */
+export class HistoryStore {
+  private baseDir: string;
+  private policy: HistoryRetentionPolicy;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private createdDirs: Set<string> = new Set();
+  private maintenanceInterval: NodeJS.Timeout | null = null;
+
+  constructor(dataDir: string, policy: Partial<HistoryRetentionPolicy> = {}) {
+    this.baseDir = path.join(dataDir, 'history');
+    this.policy = { ...DEFAULT_RETENTION_POLICY, ...policy };
+  }
+
+  /**
+   * Create a store configured from environment variables, in the data directory or a site's directory under it
+   */
+  public static fromEnv(dataDir: string = getDataDir()): HistoryStore {
+    const policy: Partial<HistoryRetentionPolicy> = {};
+    const minutelyDays = parseDaysEnv('HISTORY_MINUTELY_DAYS');
+    const rawSampleDays = parseDaysEnv('HISTORY_RAW_SAMPLE_DAYS');
+    const downsampledSampleDays = parseDaysEnv('HISTORY_DOWNSAMPLED_SAMPLE_DAYS');
+    if (minutelyDays !== undefined) policy.minutelyDays = minutelyDays;
+    if (rawSampleDays !== undefined) policy.rawSampleDays = rawSampleDays;
+    if (downsampledSampleDays !== undefined) policy.downsampledSampleDays = downsampledSampleDays;
+
+    const store = new HistoryStore(dataDir, policy);
+    console.log(`[History] Storing history in ${store.baseDir}`);
+    return store;
+  }
+
+  public getPolicy(): HistoryRetentionPolicy {
+    return this.policy;
+  }
+
+  // Append a FroniusMinutely report
+  public appendMinutely(report: FroniusMinutely): Promise<void> {
+    return this.append('minutely', report.timestamp, report);
+  }
+
+  // Append a per-inverter minutely record
+  public appendInverterMinutely(record: InverterMinutely): Promise<void> {
+    return this.append('inverter-minutely', record.timestamp, record);
+  }
+
+  // Append a siteMetrics sample
+  public appendSample(sample: any): Promise<void> {
+    return this.append('samples', sample.timestamp, sample);
+  }
+
+  // Read FroniusMinutely reports with timestamps in [from, to)
+  public async readMinutely(from: Date, to: Date): Promise<FroniusMinutely[]> {
+    return this.readRange('minutely', from, to);
+  }
+
+  // Read per-inverter minutely records with timestamps in [from, to), optionally for one inverter
+  public async readInverterMinutely(from: Date, to: Date, serialNumber?: string): Promise<InverterMinutely[]> {
+    const records: InverterMinutely[] = await this.readRange('inverter-minutely', from, to);
+    return serialNumber ? records.filter(record => record.serialNumber === serialNumber) : records;
+  }
+
+  /**
+   * Read siteMetrics samples with timestamps in [from, to)
+   * Full-resolution samples are used where available, 1-minute averages elsewhere
+   */
+  public async readSamples(from: Date, to: Date): Promise<any[]> {
+    const [raw, downsampled] = await Promise.all([
+      this.readRange('samples', from, to),
+      this.readRange('samples-1m', from, to)
+    ]);
+
+    if (downsampled.length === 0) return raw;
+    if (raw.length === 0) return downsampled;
+
+    // Only use downsampled records for days that no longer have raw samples
+    const rawDays = new Set(raw.map(sample => dayKey(sample.timestamp)));
+    const merged = [
+      ...downsampled.filter(sample => !rawDays.has(dayKey(sample.timestamp))),
+      ...raw
+    ];
+    return merged.sort((a, b) => parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp));
+  }
+
+  // Read the most recent FroniusMinutely reports (oldest first)
+  public async readRecentMinutely(limit: number): Promise<FroniusMinutely[]> {
+    const days = await this.listDays('minutely');
+    const result: FroniusMinutely[] = [];
+
+    for (let i = days.length - 1; i >= 0 && result.length < limit; i--) {
+      const records = await this.readDay('minutely', days[i]);
+      result.unshift(...records.slice(-(limit - result.length)));
+    }
+
+    return result;
+  }
+
+  // Start periodic retention and downsampling
+  public startMaintenance(): void {
+    if (this.maintenanceInterval) {
+      return;
+    }
+
+    this.runMaintenance();
+    this.maintenanceInterval = setInterval(() => this.runMaintenance(), MAINTENANCE_INTERVAL_MS);
+    this.maintenanceInterval.unref();
+  }
+
+  public stopMaintenance(): void {
+    if (this.maintenanceInterval) {
+      clearInterval(this.maintenanceInterval);
+      this.maintenanceInterval = null;
+    }
+  }
+
+  /**
+   * Apply the retention policy:
+   * - raw samples older than rawSampleDays are averaged into 1-minute buckets
+   * - anything past its retention period is deleted
+   */
+  public async runMaintenance(now: Date = new Date()): Promise<void> {
+    try {
+      // Downsample raw sample days that have aged out (never today's file)
+      const rawCutoff = cutoffDay(now, this.policy.rawSampleDays);
+      for (const day of await this.listDays('samples')) {
+        if (day < rawCutoff) {
+          await this.downsampleDay(day);
+        }
+      }
+
+      await this.deleteDaysBefore('samples-1m', cutoffDay(now, this.policy.downsampledSampleDays));
+      await this.deleteDaysBefore('minutely', cutoffDay(now, this.policy.minutelyDays));
+      await this.deleteDaysBefore('inverter-minutely', cutoffDay(now, this.policy.minutelyDays));
+    } catch (error) {
+      console.error('[History] Maintenance failed:', error);
+    }
+  }
+
+  // Average one day of raw samples into 1-minute buckets and remove the raw file
+  private async downsampleDay(day: string): Promise<void> {
+    const samples = await this.readDay('samples', day);
+
+    const buckets = new Map<string, any[]>();
+    for (const sample of samples) {
+      // "YYYY-MM-DDTHH:mm" identifies the minute in the sample's own local time
+      const minute = String(sample.timestamp).slice(0, 16);
+      const bucket = buckets.get(minute);
+      if (bucket) {
+        bucket.push(sample);
+      } else {
+        buckets.set(minute, [sample]);
+      }
+    }
+
+    const records: any[] = [];
+    for (const [minute, bucket] of buckets) {
+      const averaged = averageSamples(bucket);
+      averaged.timestamp = `${minute}:00${String(bucket[0].timestamp).slice(19)}`;
+      records.push(averaged);
+    }
+
+    let written = 0;
+    await this.enqueue(async () => {
+      const dir = await this.ensureDir('samples-1m');
+      const file = path.join(dir, `${day}.jsonl`);
+      
+      // Minutes already there are from a run that stopped before it removed the raw file - don't add them twice
+      const existing = await this.readDay('samples-1m', day);
+      const done = new Set(existing.map(record => String(record.timestamp).slice(0, 16)));
+      const added = records.filter(record => !done.has(record.timestamp.slice(0, 16)));
+      written = added.length;
+      
+      // The whole day is written aside and renamed into place, so it's complete before the raw file goes
+      if (added.length > 0) {
+        const temp = `${file}.tmp`;
+        await fs.writeFile(temp, [...existing, ...added].map(record => JSON.stringify(record) + '\n').join(''));
+        await fs.rename(temp, file);
+      }
+      await fs.unlink(path.join(this.baseDir, 'samples', `${day}.jsonl`));
+    });
+
+    console.log(`[History] Downsampled ${samples.length} samples from ${day} into ${written} 1-minute records`);
+  }
+
+  private async deleteDaysBefore(stream: HistoryStream, cutoff: string): Promise<void> {
+    for (const day of await this.listDays(stream)) {
+      if (day < cutoff) {
+        await this.enqueue(() => fs.unlink(path.join(this.baseDir, stream, `${day}.jsonl`)));
+        console.log(`[History] Removed ${stream} history for ${day}`);
+      }
+    }
+  }
+
+  private append(stream: HistoryStream, timestamp: string, record: any): Promise<void> {
+    const line = JSON.stringify(record) + '\n';
+
+    return this.enqueue(async () => {
+      const dir = await this.ensureDir(stream);
+      await fs.appendFile(path.join(dir, `${dayKey(timestamp)}.jsonl`), line);
+    }).catch(error => {
+      console.error(`[History] Failed to write ${stream} record:`, error.message || error);
+    });
+  }
+
+  // Serialise file operations so appends, downsampling and deletes never interleave
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+
+  private async ensureDir(stream: HistoryStream): Promise<string> {
+    const dir = path.join(this.baseDir, stream);
+    if (!this.createdDirs.has(dir)) {
+      await fs.mkdir(dir, { recursive: true });
+      this.createdDirs.add(dir);
+    }
+    return dir;
+  }
+
+  private async listDays(stream: HistoryStream): Promise<string[]> {
+    try {
+      const files = await fs.readdir(path.join(this.baseDir, stream));
+      return files
+        .map(file => file.match(DAY_FILE_PATTERN)?.[1])
+        .filter((day): day is string => day !== undefined)
+        .sort();
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async readDay(stream: HistoryStream, day: string): Promise<any[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.baseDir, stream, `${day}.jsonl`), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: any[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A torn final line after a crash is skipped rather than failing the whole day
+      }
+    }
+    return records;
+  }
+
+  private async readRange(stream: HistoryStream, from: Date, to: Date): Promise<any[]> {
+    // Day files are keyed by the record's local date, so widen by a day each side for timezone offsets
+    const firstDay = localDayKey(new Date(from.getTime() - 24 * 60 * 60 * 1000));
+    const lastDay = localDayKey(new Date(to.getTime() + 24 * 60 * 60 * 1000));
+    const fromMs = from.getTime();
+    const toMs = to.getTime();
+
+    const result: any[] = [];
+    for (const day of await this.listDays(stream)) {
+      if (day < firstDay || day > lastDay) continue;
+
+      for (const record of await this.readDay(stream, day)) {
+        const time = parseTimestamp(record.timestamp);
+        if (time >= fromMs && time < toMs) {
+          result.push(record);
+        }
+      }
+    }
+    return result;
+  }
+}
+
+function parseDaysEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined) return undefined;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1) {
+    console.error(`[History] ${name} must be a positive whole number of days, ignoring "${value}"`);
+    return undefined;
+  }
+  return days;
+}
+
+// Day key of a formatLocalDateTime timestamp (its own local date)
+function dayKey(timestamp: string): string {
+  return String(timestamp).slice(0, 10);
+}
+
+function localDayKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function cutoffDay(now: Date, days: number): string {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - days);
+  return localDayKey(cutoff);
+}
+
+function parseTimestamp(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+/**
+ * Collapse a bucket of samples into one: power and SoC leaves are averaged,
+ * cumulative energy counters (and everything else) keep the last value
+ */
+function averageSamples(samples: any[]): any {
+  const last = samples[samples.length - 1];
+
+  const merge = (values: any[], template: any): any => {
+    if (template === null || typeof template !== 'object') {
+      return template;
+    }
+
+    const result: any = {};
+    for (const key of Object.keys(template)) {
+      const children = values.map(value => value?.[key]);
+      if (AVERAGED_KEYS.has(key)) {
+        const numbers = children.filter((child): child is number => typeof child === 'number');
+        result[key] = numbers.length > 0
+          ? Math.round((numbers.reduce((sum, n) => sum + n, 0) / numbers.length) * 10) / 10
+          : template[key];
+      } else {
+        result[key] = merge(children, template[key]);
+      }
+    }
+    return result;
+  };
+
+  return merge(samples, last);
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { buildDiscoveryMessages } from './home-assistant-discovery';
+import { Site } from './site';
+import { FakeClock } from '@/test/fake-clock';
+import { FakeInverter } from '@/test/fake-inverter';
+import { FakeMeter } from '@/test/fake-meter';
+
+const TOPICS = {
+  discoveryPrefix: 'homeassistant',
+  stateTopic: 'fronius/house/metrics',
+  availabilityTopic: 'fronius/status'
+};
+
+describe('buildDiscoveryMessages', () => {
+  let clock: FakeClock;
+  let site: Site;
+  let master: FakeInverter;
+  let slave: FakeInverter;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    clock = new FakeClock();
+    site = new Site('House', { id: 'house', clock: clock.now });
+    master = new FakeInverter('MASTER1', { clock: clock.now, isMaster: true });
+    slave = new FakeInverter('SLAVE1', { clock: clock.now });
+    site.addInverter(master);
+    site.addInverter(slave);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Poll once and build the config from the resulting siteMetrics, keyed by unique_id
+  async function discover(): Promise<Record<string, any>> {
+    let metrics: any;
+    site.on('siteMetrics', m => metrics = m);
+    await site.pollAllInverters();
+    const messages = buildDiscoveryMessages(site, metrics, TOPICS);
+    return Object.fromEntries(messages.map(message => [message.payload.unique_id, { topic: message.topic, ...message.payload }]));
+  }
+
+  it('announces the site totals as a device, reading from the metrics topic', async () => {
+    master.setPower({ solarW: 3000, gridW: -500, batteryW: 0, batterySoC: 80 });
+    slave.setPower({ solarW: 2000 });
+    const sensors = await discover();
+
+    const solar = sensors.fronius_pusher_house_site_solar_power;
+    expect(solar.topic).toBe('homeassistant/sensor/fronius_pusher_house/fronius_pusher_house_site_solar_power/config');
+    expect(solar.state_topic).toBe('fronius/house/metrics');
+    expect(solar.availability_topic).toBe('fronius/status');
+    expect(solar.value_template).toBe("{{ value_json['site']['solar']['powerW'] if 'site' in value_json else none }}");
+    expect(solar.unit_of_measurement).toBe('W');
+    expect(solar.device).toEqual({ identifiers: ['fronius_pusher_house'], name: 'House', manufacturer: 'Fronius Pusher', model: 'Site' });
+
+    expect(sensors.fronius_pusher_house_site_battery_soc).toMatchObject({ unit_of_measurement: '%', device_class: 'battery' });
+  });
+
+  it('makes energy sensors total_increasing for the energy dashboard', async () => {
+    master.setPower({ solarW: 3000, gridW: 500, batteryW: -1000, batterySoC: 50 });
+    slave.setPower({ solarW: 2000 });
+    const sensors = await discover();
+
+    const energySensors = Object.values(sensors).filter(sensor => sensor.device_class === 'energy');
+    expect(energySensors.length).toBeGreaterThan(0);
+    for (const sensor of energySensors) {
+      expect(sensor.state_class).toBe('total_increasing');
+      expect(sensor.unit_of_measurement).toBe('Wh');
+    }
+    expect(sensors.fronius_pusher_house_site_grid_import_energy.value_template)
+      .toBe("{{ value_json['site']['grid']['energyInWh'] if 'site' in value_json else none }}");
+  });
+
+  it('announces each inverter, battery and grid meter as a device under the site', async () => {
+    master.setPower({ solarW: 3000, gridW: 500, batteryW: -1000, batterySoC: 50 });
+    slave.setPower({ solarW: 2000 });
+    const sensors = await discover();
+
+    const slaveSolar = sensors.fronius_pusher_house_slave1_solar_power;
+    expect(slaveSolar.device).toMatchObject({ identifiers: ['fronius_slave1'], serial_number: 'SLAVE1', via_device: 'fronius_pusher_house' });
+    expect(slaveSolar.value_template).toBe("{{ value_json['SLAVE1']['solar']['powerW'] if 'SLAVE1' in value_json else none }}");
+
+    const soc = sensors.fronius_pusher_house_master1_battery_soc;
+    expect(soc.device).toMatchObject({ identifiers: ['fronius_master1_battery'], name: 'Fake MASTER1 Battery', via_device: 'fronius_master1' });
+
+    expect(sensors.fronius_pusher_house_slave1_battery_soc).toBeUndefined();
+  });
+
+  it('gives the grid meter its per-phase readings, leaving grid power and energy to the site', async () => {
+    const phase = { voltageV: 241.8, currentA: 3.26, powerW: 484, powerFactor: 0.615 };
+    master.setPower({ solarW: 0, gridW: 1452 });
+    master.setMeter({ phases: { L1: phase, L2: phase, L3: phase }, frequencyHz: 50, powerFactor: 0.665 });
+    slave.setPower(null);
+    const sensors = await discover();
+
+    const meterSensors = Object.values(sensors).filter(sensor => sensor.device.identifiers[0] === 'fronius_master1_meter');
+    expect(meterSensors.map(sensor => sensor.name).sort()).toEqual([
+      'Frequency',
+      'L1 Current', 'L1 Power', 'L1 Voltage',
+      'L2 Current', 'L2 Power', 'L2 Voltage',
+      'L3 Current', 'L3 Power', 'L3 Voltage',
+      'Power Factor'
+    ]);
+    expect(sensors.fronius_pusher_house_master1_meter_l1_voltage).toMatchObject({
+      unit_of_measurement: 'V',
+      device_class: 'voltage',
+      value_template: "{{ value_json['site']['grid']['phases']['L1']['voltageV'] if 'site' in value_json and value_json['site']['grid']['phases'] else none }}"
+    });
+    expect(sensors.fronius_pusher_house_master1_meter_frequency.unit_of_measurement).toBe('Hz');
+    expect(sensors.fronius_pusher_house_site_grid_power).toBeDefined();
+  });
+
+  it('announces each additional meter as a device of the inverter it reports through', async () => {
+    const charger = new FakeMeter('EV1', { clock: clock.now, category: 'ev' });
+    site.addMeter(charger);
+    master.setPower({ solarW: 2000, gridW: 6000 });
+    slave.setPower({ solarW: 0 });
+    charger.setPower(7200);
+    const sensors = await discover();
+
+    expect(sensors.fronius_pusher_house_ev1_power.device).toMatchObject({ identifiers: ['fronius_meter_ev1'], via_device: 'fronius_master1' });
+    expect(sensors.fronius_pusher_house_ev1_energy_in.state_class).toBe('total_increasing');
+    expect(sensors.fronius_pusher_house_site_ev_power).toBeDefined();
+  });
+
+  it('leaves out readings the site does not have', async () => {
+    master.setPower({ solarW: 3000, gridW: 0 });
+    slave.setPower({ solarW: 2000 });
+    const sensors = await discover();
+
+    expect(sensors.fronius_pusher_house_site_battery_soc).toBeUndefined();
+    expect(sensors.fronius_pusher_house_site_ev_power).toBeUndefined();
+    expect(sensors.fronius_pusher_house_site_subload_power).toBeUndefined();
+  });
+});
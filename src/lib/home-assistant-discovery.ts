@@ -0,0 +1,192 @@
+import type { Site } from './site';
+
+export interface DiscoveryTopics {
+  discoveryPrefix: string;    // Where Home Assistant listens for config (default: homeassistant)
+  stateTopic: string;         // The site's metrics topic, which every entity reads its value from
+  availabilityTopic: string;  // The publisher's online/offline status
+}
+
+export interface DiscoveryMessage {
+  topic: string;
+  payload: Record<string, unknown>;
+}
+
+interface HaDevice {
+  identifiers: string[];
+  name: string;
+  manufacturer?: string;
+  model?: string;
+  serial_number?: string;
+  via_device?: string;
+}
+
+type SensorKind = 'power' | 'energy' | 'soc' | 'voltage' | 'current' | 'frequency' | 'power_factor';
+
+// Units, device and state classes Home Assistant needs for each kind of sensor
+const SENSOR_CLASSES: Record<SensorKind, Record<string, string>> = {
+  power: { unit_of_measurement: 'W', device_class: 'power', state_class: 'measurement' },
+  energy: { unit_of_measurement: 'Wh', device_class: 'energy', state_class: 'total_increasing' },
+  soc: { unit_of_measurement: '%', device_class: 'battery', state_class: 'measurement' },
+  voltage: { unit_of_measurement: 'V', device_class: 'voltage', state_class: 'measurement' },
+  current: { unit_of_measurement: 'A', device_class: 'current', state_class: 'measurement' },
+  frequency: { unit_of_measurement: 'Hz', device_class: 'frequency', state_class: 'measurement' },
+  power_factor: { device_class: 'power_factor', state_class: 'measurement' }
+};
+
+// Readings from each phase of the grid meter: [key, name, field of siteMetrics.site.grid.phases.<phase>, kind]
+const PHASE_SENSORS: Array<[string, string, string, SensorKind]> = [
+  ['voltage', 'Voltage', 'voltageV', 'voltage'],
+  ['current', 'Current', 'currentA', 'current'],
+  ['power', 'Power', 'powerW', 'power']
+];
+
+// Readings from the site's totals: [key, name, path into siteMetrics.site, kind]
+const SITE_SENSORS: Array<[string, string, string[], SensorKind]> = [
+  ['solar_power', 'Solar Power', ['solar', 'powerW'], 'power'],
+  ['solar_energy', 'Solar Energy', ['solar', 'energyWh'], 'energy'],
+  ['battery_power', 'Battery Power', ['battery', 'powerW'], 'power'],
+  ['battery_charged_energy', 'Battery Charged', ['battery', 'energyInWh'], 'energy'],
+  ['battery_discharged_energy', 'Battery Discharged', ['battery', 'energyOutWh'], 'energy'],
+  ['battery_soc', 'Battery SoC', ['battery', 'soc'], 'soc'],
+  ['grid_power', 'Grid Power', ['grid', 'powerW'], 'power'],
+  ['grid_import_energy', 'Grid Import', ['grid', 'energyInWh'], 'energy'],
+  ['grid_export_energy', 'Grid Export', ['grid', 'energyOutWh'], 'energy'],
+  ['load_power', 'Load Power', ['load', 'powerW'], 'power'],
+  ['load_energy', 'Load Energy', ['load', 'energyWh'], 'energy'],
+  ['subload_power', 'Subload Power', ['subload', 'powerW'], 'power'],
+  ['subload_energy', 'Subload Energy', ['subload', 'energyWh'], 'energy'],
+  ['ev_power', 'EV Charger Power', ['ev', 'powerW'], 'power'],
+  ['ev_energy', 'EV Charger Energy', ['ev', 'energyWh'], 'energy']
+];
+
+// Topic and id-safe form of a serial, site id or key
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+}
+
+// Follow a path into siteMetrics, undefined where it stops
+function valueAt(metrics: any, path: string[]): unknown {
+  return path.reduce((value, key) => value?.[key], metrics);
+}
+
+// Subscripts for a path into the metrics JSON
+function access(path: string[]): string {
+  return path.map(key => `['${key}']`).join('');
+}
+
+// A template reading the path from the metrics JSON, or none (unknown in HA) while the device isn't reporting - or,
+// with nullableDepth, while the object that many keys in is null (e.g. the grid meter's phases)
+function valueTemplate(path: string[], nullableDepth?: number): string {
+  const guard = nullableDepth ? ` and value_json${access(path.slice(0, nullableDepth))}` : '';
+  return `{{ value_json${access(path)} if '${path[0]}' in value_json${guard} else none }}`;
+}
+
+/**
+ * Home Assistant MQTT discovery config for a site: the site with its totals, and each inverter, battery and meter
+ * as a device of its own with power, energy, SoC or per-phase sensors. Every sensor reads its value from the site's
+ * metrics topic, so entities update on every poll.
+ *
+ * Sensors are only announced for readings that are in this siteMetrics, so a site without a battery gets no battery
+ * entities. Energy sensors are total_increasing, which is what the energy dashboard needs.
+ */
+export function buildDiscoveryMessages(site: Site, metrics: any, topics: DiscoveryTopics): DiscoveryMessage[] {
+  const siteId = slug(site.getId());
+  const siteIdentifier = `fronius_pusher_${siteId}`;
+  const messages: DiscoveryMessage[] = [];
+
+  const addSensor = (device: HaDevice, key: string, name: string, path: string[], kind: SensorKind, nullableDepth?: number) => {
+    const value = valueAt(metrics, path);
+    if (value === undefined || value === null) {
+      return;
+    }
+    const uniqueId = `${siteIdentifier}_${slug(key)}`;
+    messages.push({
+      topic: `${topics.discoveryPrefix}/sensor/${siteIdentifier}/${uniqueId}/config`,
+      payload: {
+        name,
+        unique_id: uniqueId,
+        state_topic: topics.stateTopic,
+        value_template: valueTemplate(path, nullableDepth),
+        availability_topic: topics.availabilityTopic,
+        ...SENSOR_CLASSES[kind],
+        device
+      }
+    });
+  };
+
+  const siteDevice: HaDevice = { identifiers: [siteIdentifier], name: site.getName(), manufacturer: 'Fronius Pusher', model: 'Site' };
+  for (const [key, name, path, kind] of SITE_SENSORS) {
+    addSensor(siteDevice, `site_${key}`, name, ['site', ...path], kind);
+  }
+
+  for (const inverter of site.getInverters()) {
+    const serialNumber = inverter.getSerialNumber();
+    const info = inverter.getInfo();
+    const inverterDevice: HaDevice = {
+      identifiers: [`fronius_${slug(serialNumber)}`],
+      name: inverter.getDisplayName(),
+      manufacturer: info.manufacturer || 'Fronius',
+      model: info.model,
+      serial_number: serialNumber,
+      via_device: siteIdentifier
+    };
+    addSensor(inverterDevice, `${serialNumber}_solar_power`, 'Solar Power', [serialNumber, 'solar', 'powerW'], 'power');
+    addSensor(inverterDevice, `${serialNumber}_solar_energy`, 'Solar Energy', [serialNumber, 'solar', 'energyWh'], 'energy');
+
+    const battery = inverter.getBattery();
+    if (battery) {
+      const batteryDevice: HaDevice = {
+        identifiers: [`fronius_${slug(serialNumber)}_battery`],
+        name: `${inverter.getDisplayName()} Battery`,
+        manufacturer: battery.manufacturer,
+        model: battery.model,
+        ...(battery.serial && { serial_number: battery.serial }),
+        via_device: inverterDevice.identifiers[0]
+      };
+      addSensor(batteryDevice, `${serialNumber}_battery_power`, 'Power', [serialNumber, 'battery', 'powerW'], 'power');
+      addSensor(batteryDevice, `${serialNumber}_battery_charged_energy`, 'Charged', [serialNumber, 'battery', 'energyInWh'], 'energy');
+      addSensor(batteryDevice, `${serialNumber}_battery_discharged_energy`, 'Discharged', [serialNumber, 'battery', 'energyOutWh'], 'energy');
+      addSensor(batteryDevice, `${serialNumber}_battery_soc`, 'SoC', [serialNumber, 'battery', 'soc'], 'soc');
+    }
+
+    // The master's grid meter. Its power and energy are the site's grid sensors, so it only has what's its own:
+    // each phase, frequency and power factor.
+    const meter = inverter.getMeter();
+    if (inverter.getIsMaster() && meter) {
+      const meterDevice: HaDevice = {
+        identifiers: [`fronius_${slug(serialNumber)}_meter`],
+        name: `${inverter.getDisplayName()} Grid Meter`,
+        manufacturer: meter.manufacturer,
+        model: meter.model,
+        ...(meter.serial && { serial_number: meter.serial }),
+        via_device: inverterDevice.identifiers[0]
+      };
+      const phasesPath = ['site', 'grid', 'phases'];
+      for (const phase of Object.keys(valueAt(metrics, phasesPath) ?? {})) {
+        for (const [key, name, field, kind] of PHASE_SENSORS) {
+          addSensor(meterDevice, `${serialNumber}_meter_${phase}_${key}`, `${phase} ${name}`, [...phasesPath, phase, field], kind, phasesPath.length);
+        }
+      }
+      addSensor(meterDevice, `${serialNumber}_meter_frequency`, 'Frequency', ['site', 'grid', 'frequencyHz'], 'frequency');
+      addSensor(meterDevice, `${serialNumber}_meter_power_factor`, 'Power Factor', ['site', 'grid', 'powerFactor'], 'power_factor');
+    }
+  }
+
+  for (const meter of site.getMeters()) {
+    const id = meter.getId();
+    const info = meter.getInfo();
+    const meterDevice: HaDevice = {
+      identifiers: [`fronius_meter_${slug(id)}`],
+      name: meter.getDisplayName(),
+      manufacturer: info.manufacturer,
+      model: info.model,
+      ...(info.serial && { serial_number: info.serial }),
+      via_device: `fronius_${slug(meter.getOwnerSerialNumber())}`
+    };
+    addSensor(meterDevice, `${id}_power`, 'Power', [id, 'meter', 'powerW'], 'power');
+    addSensor(meterDevice, `${id}_energy_in`, 'Energy In', [id, 'meter', 'energyInWh'], 'energy');
+    addSensor(meterDevice, `${id}_energy_out`, 'Energy Out', [id, 'meter', 'energyOutWh'], 'energy');
+  }
+
+  return messages;
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InfluxSink, InfluxSinkOptions, toLine, sampleToLines, minutelyToLines } from './influx-sink';
+import { attachSink } from './time-series-sink';
+import { Site } from './site';
+import { FroniusMinutely } from '@/types/fronius';
+import { FakeClock } from '@/test/fake-clock';
+import { FakeInverter } from '@/test/fake-inverter';
+
+const TIME = new Date('2025-09-14T10:00:00Z');
+
+describe('toLine', () => {
+  it('escapes measurement names, tags and string fields', () => {
+    expect(toLine('my site', { site: 'a,b', name: 'x=y z' }, { power_w: 12.5, label: 'say "hi"\\' }, TIME))
+      .toBe('my\\ site,site=a\\,b,name=x\\=y\\ z power_w=12.5,label="say \\"hi\\"\\\\" 1757844000000');
+  });
+
+  it('leaves out missing fields and empty tags, and gives null with no fields', () => {
+    expect(toLine('m', { site: 'house', category: '' }, { a: 1, b: null, c: undefined }, TIME)).toBe('m,site=house a=1 1757844000000');
+    expect(toLine('m', { site: 'house' }, { a: null }, TIME)).toBeNull();
+  });
+});
+
+describe('sampleToLines', () => {
+  it('writes the site, grid phases, inverters, strings and meters', () => {
+    const lines = sampleToLines('house', {
+      timestamp: TIME.toISOString(),
+      site: {
+        solar: { powerW: 5000, energyWh: 1200 },
+        battery: { powerW: null, energyInWh: null, energyOutWh: null, soc: null },
+        grid: { powerW: -800, energyInWh: 10, energyOutWh: 300, phases: { L1: { voltageV: 240.1, currentA: 3, powerW: -800, powerFactor: 0.99 } } },
+        load: { powerW: 4200, energyWh: 910 },
+        subload: null,
+        ev: null
+      },
+      MASTER1: { solar: { powerW: 5000, energyWh: 1200, strings: { '1': { voltageV: 380, currentA: 13.2, powerW: 5000 } } } },
+      EV1: { meter: { category: 'ev', powerW: 0, energyInWh: 0, energyOutWh: 0 } }
+    }, TIME);
+
+    expect(lines).toEqual([
+      'fronius_site,site=house solar_power_w=5000,solar_energy_wh=1200,grid_power_w=-800,grid_energy_in_wh=10,grid_energy_out_wh=300,load_power_w=4200,load_energy_wh=910 1757844000000',
+      'fronius_grid_phase,site=house,phase=L1 voltage_v=240.1,current_a=3,power_w=-800,power_factor=0.99 1757844000000',
+      'fronius_inverter,site=house,serial=MASTER1 solar_power_w=5000,solar_energy_wh=1200 1757844000000',
+      'fronius_string,site=house,serial=MASTER1,tracker=1 voltage_v=380,current_a=13.2,power_w=5000 1757844000000',
+      'fronius_meter,site=house,meter=EV1,category=ev power_w=0,energy_in_wh=0,energy_out_wh=0 1757844000000'
+    ]);
+  });
+});
+
+describe('minutelyToLines', () => {
+  it('writes every power and interval energy, with the sequence as a string', () => {
+    const [line] = minutelyToLines('house', {
+      timestamp: TIME.toISOString(),
+      sequence: 'abcd/7',
+      solarW: 3000, solarWhInterval: 50,
+      solarLocalW: 3000, solarLocalWhInterval: 50,
+      solarRemoteW: 0, solarRemoteWhInterval: 0,
+      loadW: 1000, loadWhInterval: 17,
+      batteryW: 0, batteryInWhInterval: 0, batteryOutWhInterval: 0,
+      gridW: -2000, gridInWhInterval: 0, gridOutWhInterval: 33,
+      batterySOC: null,
+      faultCode: null,
+      faultTimestamp: null,
+      generatorStatus: null,
+      energySources: { solar: 'hardware', battery: null, grid: 'integrated' }
+    } as FroniusMinutely);
+
+    expect(line).toMatch(/^fronius_minutely,site=house solarW=3000,solarWhInterval=50,/);
+    expect(line).toContain('gridOutWhInterval=33,sequence="abcd/7" 1757844000000');
+    expect(line).not.toContain('batterySOC');
+    expect(line).not.toContain('energySources');
+  });
+});
+
+describe('InfluxSink', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: Array<{ url: string; authorization?: string; body: string }>;
+  let responses: number[];  // Status for each request in turn, then 204
+  let spoolDir: string;
+  let sink: InfluxSink;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    requests = [];
+    responses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ url: req.url!, authorization: req.headers.authorization, body });
+        res.statusCode = responses.shift() ?? 204;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    spoolDir = await fs.mkdtemp(path.join(os.tmpdir(), 'influx-spool-'));
+  });
+
+  afterEach(async () => {
+    await sink?.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.rm(spoolDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function createSink(options: Partial<InfluxSinkOptions> = {}): InfluxSink {
+    sink = new InfluxSink({ url, bucket: 'solar', org: 'home', token: 'secret', spoolDir, flushIntervalMs: 0, retryDelayMs: 1, ...options });
+    return sink;
+  }
+
+  const sample = (solarW: number) => ({ timestamp: TIME.toISOString(), site: { solar: { powerW: solarW, energyWh: 0 } } });
+
+  it('writes batches to the v2 write API with the token', async () => {
+    createSink();
+    sink.writeSample('house', sample(1000), TIME);
+    sink.writeSample('house', sample(2000), TIME);
+    expect(requests).toHaveLength(0);
+
+    await sink.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/api/v2/write?org=home&bucket=solar&precision=ms');
+    expect(requests[0].authorization).toBe('Token secret');
+    expect(requests[0].body.split('\n')).toEqual([
+      'fronius_site,site=house solar_power_w=1000,solar_energy_wh=0 1757844000000',
+      'fronius_site,site=house solar_power_w=2000,solar_energy_wh=0 1757844000000'
+    ]);
+  });
+
+  it('writes to the 1.x API when given a database', async () => {
+    createSink({ bucket: undefined, org: undefined, token: undefined, database: 'solar' });
+    sink.writeSample('house', sample(1000), TIME);
+    await sink.flush();
+
+    expect(requests[0].url).toBe('/write?db=solar&precision=ms');
+    expect(requests[0].authorization).toBeUndefined();
+  });
+
+  it('writes as soon as a batch is full', async () => {
+    createSink({ batchSize: 2 });
+    sink.writeSample('house', sample(1000), TIME);
+    sink.writeSample('house', sample(2000), TIME);
+    sink.writeSample('house', sample(3000), TIME);
+    await sink.flush();
+
+    expect(requests.map(request => request.body.split('\n').length)).toEqual([2, 1]);
+  });
+
+  it('retries a failed write', async () => {
+    createSink();
+    responses = [503, 500];
+    sink.writeSample('house', sample(1000), TIME);
+    await sink.flush();
+
+    expect(requests).toHaveLength(3);
+    expect(requests[2].body).toBe(requests[0].body);
+    expect(await sink.getSpooledFiles()).toEqual([]);
+  });
+
+  it('spools to disk while the server is down and catches up in order when it is back', async () => {
+    createSink({ maxRetries: 1 });
+    responses = [503, 503];
+    sink.writeSample('house', sample(1000), TIME);
+    await sink.flush();
+    expect(await sink.getSpooledFiles()).toHaveLength(1);
+
+    // Still down - the next batch goes straight to the spool behind the first
+    responses = [503];
+    sink.writeSample('house', sample(2000), TIME);
+    await sink.flush();
+    expect(await sink.getSpooledFiles()).toHaveLength(2);
+
+    requests = [];
+    sink.writeSample('house', sample(3000), TIME);
+    await sink.flush();
+
+    expect(requests.map(request => request.body.match(/solar_power_w=(\d+)/)![1])).toEqual(['1000', '2000', '3000']);
+    expect(await sink.getSpooledFiles()).toEqual([]);
+  });
+
+  it('spools when the server cannot be reached at all', async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    createSink({ maxRetries: 0 });
+    sink.writeSample('house', sample(1000), TIME);
+    await sink.flush();
+
+    const [file] = await sink.getSpooledFiles();
+    expect(await fs.readFile(file, 'utf8')).toBe('fronius_site,site=house solar_power_w=1000,solar_energy_wh=0 1757844000000');
+    server.listen(0, '127.0.0.1');
+  });
+
+  it('drops a batch the server rejects rather than retrying it', async () => {
+    createSink();
+    responses = [400];
+    sink.writeSample('house', sample(1000), TIME);
+    await sink.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(await sink.getSpooledFiles()).toEqual([]);
+  });
+
+  it('stops spooling when the spool is full', async () => {
+    createSink({ maxRetries: 0, maxSpoolBytes: 100 });
+    responses = [503, 503, 503];
+    sink.writeSample('house', sample(1000), TIME);
+    await sink.flush();
+    sink.writeSample('house', sample(2000), TIME);
+    await sink.flush();
+
+    expect(await sink.getSpooledFiles()).toHaveLength(1);
+  });
+
+  it('stamps a site\'s samples to the millisecond, so two in the same second are both kept', async () => {
+    const clock = new FakeClock();
+    const site = new Site('House', { id: 'house', clock: clock.now });
+    const master = new FakeInverter('MASTER1', { clock: clock.now, isMaster: true });
+    site.addInverter(master);
+    master.setPower({ solarW: 3000 });
+    attachSink(site, createSink());
+
+    await site.pollAllInverters();
+    clock.advance(400);
+    await site.pollAllInverters();
+    await sink.flush();
+
+    const siteLines = requests[0].body.split('\n').filter(line => line.startsWith('fronius_site,'));
+    expect(siteLines.map(line => line.split(' ').pop())).toEqual([String(TIME.getTime()), String(TIME.getTime() + 400)]);
+  });
+});
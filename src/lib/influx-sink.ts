@@ -0,0 +1,343 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FroniusMinutely } from '@/types/fronius';
+import { TimeSeriesSink } from './time-series-sink';
+import { getDataDir } from './data-dir';
+
+type FieldValue = number | string | boolean | null | undefined;
+
+export interface InfluxSinkOptions {
+  url: string;               // Server, e.g. http://localhost:8086
+  bucket?: string;           // InfluxDB 2.x/3.x: write to /api/v2/write with org and bucket
+  org?: string;
+  token?: string;            // Sent as "Authorization: Token ..."
+  database?: string;         // InfluxDB 1.x: write to /write?db= instead
+  spoolDir?: string;         // Where batches wait while the server is down (default: <data dir>/influx-spool)
+  batchSize?: number;        // Lines that trigger a write (default: 500)
+  flushIntervalMs?: number;  // Longest a line waits before being written (default: 10 s, 0 = only on batchSize/flush())
+  maxRetries?: number;       // Retries of a failed write before spooling it (default: 3)
+  retryDelayMs?: number;     // Before the first retry, doubling each time (default: 1 s)
+  maxSpoolBytes?: number;    // Batches are dropped rather than spooled beyond this (default: 100 MB)
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_FLUSH_INTERVAL_MS = 10 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_SPOOL_BYTES = 100 * 1024 * 1024;
+
+// Measurement names escape commas and spaces; tag keys, tag values and field keys also escape equals signs
+const escapeMeasurement = (value: string) => value.replace(/[, ]/g, '\\$&');
+const escapeKey = (value: string) => value.replace(/[,= ]/g, '\\$&');
+
+function formatField(value: number | string | boolean): string {
+  if (typeof value === 'string') {
+    return `"${value.replace(/["\\]/g, '\\$&')}"`;
+  }
+  // Numbers are always written as floats, so a field never changes type between whole and fractional values
+  return String(value);
+}
+
+/**
+ * One line of InfluxDB line protocol with a millisecond timestamp. Missing fields are left out; a point with no
+ * fields at all isn't valid, so that gives null.
+ */
+export function toLine(measurement: string, tags: Record<string, string>, fields: Record<string, FieldValue>, time: Date): string | null {
+  const fieldSet = Object.entries(fields)
+    .filter((entry): entry is [string, number | string | boolean] => entry[1] !== null && entry[1] !== undefined && !Number.isNaN(entry[1]))
+    .map(([key, value]) => `${escapeKey(key)}=${formatField(value)}`);
+  if (fieldSet.length === 0 || isNaN(time.getTime())) {
+    return null;
+  }
+  const tagSet = Object.entries(tags)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `,${escapeKey(key)}=${escapeKey(value)}`)
+    .join('');
+  return `${escapeMeasurement(measurement)}${tagSet} ${fieldSet.join(',')} ${time.getTime()}`;
+}
+
+/**
+ * A siteMetrics sample as points: the site's totals, each grid phase, each inverter with its battery, each MPPT
+ * tracker, and each additional meter. Stamped with the time the sample was taken rather than metrics.timestamp,
+ * which only has whole seconds - two samples in the same second would overwrite each other.
+ */
+export function sampleToLines(siteId: string, metrics: any, time: Date): string[] {
+  const site = metrics.site ?? {};
+  const lines: Array<string | null> = [
+    toLine('fronius_site', { site: siteId }, {
+      solar_power_w: site.solar?.powerW,
+      solar_energy_wh: site.solar?.energyWh,
+      battery_power_w: site.battery?.powerW,
+      battery_energy_in_wh: site.battery?.energyInWh,
+      battery_energy_out_wh: site.battery?.energyOutWh,
+      battery_soc: site.battery?.soc,
+      grid_power_w: site.grid?.powerW,
+      grid_energy_in_wh: site.grid?.energyInWh,
+      grid_energy_out_wh: site.grid?.energyOutWh,
+      grid_frequency_hz: site.grid?.frequencyHz,
+      grid_power_factor: site.grid?.powerFactor,
+      load_power_w: site.load?.powerW,
+      load_energy_wh: site.load?.energyWh,
+      subload_power_w: site.subload?.powerW,
+      subload_energy_wh: site.subload?.energyWh,
+      ev_power_w: site.ev?.powerW,
+      ev_energy_wh: site.ev?.energyWh
+    }, time)
+  ];
+
+  for (const [phase, reading] of Object.entries<any>(site.grid?.phases ?? {})) {
+    lines.push(toLine('fronius_grid_phase', { site: siteId, phase }, {
+      voltage_v: reading.voltageV,
+      current_a: reading.currentA,
+      power_w: reading.powerW,
+      power_factor: reading.powerFactor
+    }, time));
+  }
+
+  for (const [id, device] of Object.entries<any>(metrics)) {
+    if (id === 'site' || id === 'timestamp' || typeof device !== 'object' || device === null) {
+      continue;
+    }
+
+    if (device.meter) {
+      lines.push(toLine('fronius_meter', { site: siteId, meter: id, category: device.meter.category }, {
+        power_w: device.meter.powerW,
+        energy_in_wh: device.meter.energyInWh,
+        energy_out_wh: device.meter.energyOutWh
+      }, time));
+      continue;
+    }
+
+    lines.push(toLine('fronius_inverter', { site: siteId, serial: id }, {
+      solar_power_w: device.solar?.powerW,
+      solar_energy_wh: device.solar?.energyWh,
+      battery_power_w: device.battery?.powerW,
+      battery_energy_in_wh: device.battery?.energyInWh,
+      battery_energy_out_wh: device.battery?.energyOutWh,
+      battery_soc: device.battery?.soc,
+      battery_voltage_v: device.battery?.voltageV,
+      battery_current_a: device.battery?.currentA,
+      battery_temperature_c: device.battery?.temperatureC
+    }, time));
+
+    for (const [tracker, reading] of Object.entries<any>(device.solar?.strings ?? {})) {
+      lines.push(toLine('fronius_string', { site: siteId, serial: id, tracker }, {
+        voltage_v: reading.voltageV,
+        current_a: reading.currentA,
+        power_w: reading.powerW
+      }, time));
+    }
+  }
+
+  return lines.filter((line): line is string => line !== null);
+}
+
+// A FroniusMinutely report as one point, with every power and interval energy as a field
+export function minutelyToLines(siteId: string, report: FroniusMinutely): string[] {
+  const { timestamp, sequence, energySources, faultCode, faultTimestamp, generatorStatus, ...values } = report;
+  const line = toLine('fronius_minutely', { site: siteId }, {
+    ...values,
+    sequence,
+    faultCode: faultCode !== null ? String(faultCode) : null
+  }, new Date(timestamp));
+  return line ? [line] : [];
+}
+
+/**
+ * Writes samples and minutely reports to InfluxDB (or anything that accepts line protocol over HTTP).
+ *
+ * Lines are buffered and written in batches. A batch that fails with a network error or a 5xx/429 is retried with
+ * backoff and then spooled to disk; spooled batches are written, oldest first, before anything new once the server
+ * answers again. A batch the server rejects outright (other 4xx) is logged and dropped, as retrying won't help.
+ */
+export class InfluxSink implements TimeSeriesSink {
+  private options: Required<Omit<InfluxSinkOptions, 'bucket' | 'org' | 'token' | 'database'>> & InfluxSinkOptions;
+  private buffer: string[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();  // Writes run one at a time, in order
+  private spoolCounter = 0;
+
+  constructor(options: InfluxSinkOptions) {
+    this.options = {
+      spoolDir: path.join(getDataDir(), 'influx-spool'),
+      batchSize: DEFAULT_BATCH_SIZE,
+      flushIntervalMs: DEFAULT_FLUSH_INTERVAL_MS,
+      maxRetries: DEFAULT_MAX_RETRIES,
+      retryDelayMs: DEFAULT_RETRY_DELAY_MS,
+      maxSpoolBytes: DEFAULT_MAX_SPOOL_BYTES,
+      ...options
+    };
+    if (this.options.flushIntervalMs > 0) {
+      this.flushTimer = setInterval(() => this.flush(), this.options.flushIntervalMs);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Create a sink from INFLUX_* environment variables, or null if INFLUX_URL isn't set or they're invalid
+   */
+  public static fromEnv(): InfluxSink | null {
+    const url = process.env.INFLUX_URL;
+    if (!url) {
+      return null;
+    }
+
+    const bucket = process.env.INFLUX_BUCKET;
+    const database = process.env.INFLUX_DATABASE;
+    const errors: string[] = [];
+    if (!/^https?:\/\//i.test(url)) {
+      errors.push('INFLUX_URL must start with http:// or https://');
+    }
+    if (!bucket && !database) {
+      errors.push('Set INFLUX_BUCKET (InfluxDB 2.x and later) or INFLUX_DATABASE (InfluxDB 1.x)');
+    }
+    if (errors.length > 0) {
+      console.error('[Influx] Configuration errors:');
+      errors.forEach(err => console.error(`  - ${err}`));
+      console.error('[Influx] Time-series writes will be disabled.');
+      return null;
+    }
+
+    const sink = new InfluxSink({
+      url: url.replace(/\/+$/, ''),
+      bucket,
+      org: process.env.INFLUX_ORG,
+      token: process.env.INFLUX_TOKEN,
+      database
+    });
+    console.log(`[Influx] Writing samples to ${url} (${bucket ? `bucket ${bucket}` : `database ${database}`})`);
+    return sink;
+  }
+
+  public writeSample(siteId: string, metrics: any, time: Date): void {
+    this.enqueue(sampleToLines(siteId, metrics, time));
+  }
+
+  public writeMinutely(siteId: string, report: FroniusMinutely): void {
+    this.enqueue(minutelyToLines(siteId, report));
+  }
+
+  private enqueue(lines: string[]): void {
+    this.buffer.push(...lines);
+    if (this.buffer.length >= this.options.batchSize) {
+      this.flush();
+    }
+  }
+
+  public flush(): Promise<void> {
+    const batch = this.buffer;
+    this.buffer = [];
+    this.flushing = this.flushing.then(() => this.deliver(batch));
+    return this.flushing;
+  }
+
+  public async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  // Spooled batches waiting to be written, oldest first
+  public async getSpooledFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.options.spoolDir);
+      return files.filter(file => file.endsWith('.lp')).sort().map(file => path.join(this.options.spoolDir, file));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Write what's spooled, then this batch - spooling it too if the server is still down
+  private async deliver(batch: string[]): Promise<void> {
+    try {
+      const drained = await this.drainSpool();
+      if (batch.length === 0) {
+        return;
+      }
+      const body = batch.join('\n');
+      if (drained && await this.writeWithRetries(body)) {
+        return;
+      }
+      await this.spool(body);
+    } catch (error: any) {
+      console.error(`[Influx] Failed to write ${batch.length} lines: ${error.message || error}`);
+    }
+  }
+
+  // Write spooled batches oldest first, stopping at the first that still fails. True when the spool is empty.
+  private async drainSpool(): Promise<boolean> {
+    for (const file of await this.getSpooledFiles()) {
+      const body = await fs.readFile(file, 'utf8');
+      if (!await this.writeWithRetries(body, 0)) {
+        return false;
+      }
+      await fs.unlink(file);
+      console.log(`[Influx] Wrote spooled batch ${path.basename(file)}`);
+    }
+    return true;
+  }
+
+  // True once written (or rejected for good), false if the server couldn't be reached after every retry
+  private async writeWithRetries(body: string, retries: number = this.options.maxRetries): Promise<boolean> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.write(body);
+      if (result !== 'retry') {
+        return true;
+      }
+      if (attempt >= retries) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.retryDelayMs * 2 ** attempt));
+    }
+  }
+
+  private async write(body: string): Promise<'written' | 'rejected' | 'retry'> {
+    const { url, bucket, org, token, database } = this.options;
+    const writeUrl = bucket
+      ? `${url}/api/v2/write?${new URLSearchParams({ ...(org && { org }), bucket, precision: 'ms' })}`
+      : `${url}/write?${new URLSearchParams({ db: database!, precision: 'ms' })}`;
+
+    try {
+      await axios.post(writeUrl, body, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          ...(token && { Authorization: `Token ${token}` })
+        },
+        timeout: 10000
+      });
+      return 'written';
+    } catch (error: any) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status !== undefined && status >= 400 && status < 500 && status !== 429) {
+        console.error(`[Influx] Server rejected ${body.split('\n').length} lines (status ${status}):`, error.response?.data);
+        return 'rejected';
+      }
+      console.warn(`[Influx] Write failed (${status ? `status ${status}` : error.message}), will retry`);
+      return 'retry';
+    }
+  }
+
+  private async spool(body: string): Promise<void> {
+    await fs.mkdir(this.options.spoolDir, { recursive: true });
+
+    let spooledBytes = 0;
+    for (const file of await this.getSpooledFiles()) {
+      spooledBytes += (await fs.stat(file)).size;
+    }
+    if (spooledBytes + body.length > this.options.maxSpoolBytes) {
+      console.error(`[Influx] Spool is full (${spooledBytes} bytes) - dropping ${body.split('\n').length} lines`);
+      return;
+    }
+
+    // Names sort in the order batches were spooled
+    const name = `${Date.now().toString().padStart(15, '0')}-${String(this.spoolCounter++).padStart(6, '0')}.lp`;
+    await fs.writeFile(path.join(this.options.spoolDir, name), body, 'utf8');
+    console.warn(`[Influx] Server unavailable - spooled ${body.split('\n').length} lines to ${name}`);
+  }
+}
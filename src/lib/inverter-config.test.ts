@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { parseInverterConfig, parseSitesConfig } from './inverter-config';
+
+describe('parseInverterConfig', () => {
+  it('accepts full entries and bare host strings', () => {
+    const { config, issues } = parseInverterConfig({
+      inverters: [
+        { host: '10.0.1.190', name: 'Kinkora Master', isMaster: true, serialNumber: 31347675 },
+        'inverter-2.local:8080'
+      ]
+    });
+
+    expect(issues).toEqual([]);
+    expect(config).toEqual({
+      inverters: [
+        { host: '10.0.1.190', name: 'Kinkora Master', isMaster: true, serialNumber: '31347675' },
+        { host: 'inverter-2.local:8080' }
+      ],
+      scan: false,
+      networks: []
+    });
+  });
+
+  it('scans by default only when no inverters are listed', () => {
+    expect(parseInverterConfig({}).config?.scan).toBe(true);
+    expect(parseInverterConfig({ inverters: ['10.0.1.190'], scan: true }).config?.scan).toBe(true);
+  });
+
+  it('accepts CIDR ranges to scan, dropping invalid and oversized ones', () => {
+    const { config, issues } = parseInverterConfig({
+      networks: ['10.0.20.7/24', '10.0.20.0/24', '10.0.0.0/8', 'fronius.local', 42]
+    });
+
+    expect(config?.networks).toEqual(['10.0.20.0/24']);
+    expect(issues.map(issue => issue.message)).toEqual([
+      'networks[2] 10.0.0.0/8 is too big to scan - use /20 or smaller ranges',
+      'networks[3] must be an IPv4 CIDR range like "192.168.1.0/24"',
+      'networks[4] must be an IPv4 CIDR range like "192.168.1.0/24"'
+    ]);
+  });
+
+  it('accepts a scan mode', () => {
+    expect(parseInverterConfig({ scanMode: 'http' }).config?.scanMode).toBe('http');
+
+    const { config, issues } = parseInverterConfig({ scanMode: 'mdns' });
+    expect(config?.scanMode).toBeUndefined();
+    expect(issues.map(issue => issue.message)).toEqual(['"scanMode" must be one of "arp", "http" - ignoring it']);
+  });
+
+  it('accepts a site location', () => {
+    expect(parseInverterConfig({ location: { latitude: -42.88, longitude: 147.33 } }).config?.location)
+      .toEqual({ latitude: -42.88, longitude: 147.33 });
+
+    const { config, issues } = parseInverterConfig({ location: { latitude: -142, longitude: 147.33 } });
+    expect(config?.location).toBeUndefined();
+    expect(issues.map(issue => issue.message)).toEqual(['"location" latitude must be a number from -90 to 90 - ignoring it']);
+  });
+
+  it('accepts a poll interval and report period', () => {
+    const { config } = parseInverterConfig({ pollIntervalMs: 1000, reportPeriodMinutes: 5 });
+    expect(config?.pollIntervalMs).toBe(1000);
+    expect(config?.reportPeriodMinutes).toBe(5);
+
+    const bad = parseInverterConfig({ pollIntervalMs: 100, reportPeriodMinutes: 10 });
+    expect(bad.config?.pollIntervalMs).toBeUndefined();
+    expect(bad.config?.reportPeriodMinutes).toBeUndefined();
+    expect(bad.issues.map(issue => issue.message)).toEqual([
+      '"pollIntervalMs" must be a whole number of milliseconds from 500 to 60000 - ignoring it',
+      '"reportPeriodMinutes" must be one of 1, 5, 15 - ignoring it'
+    ]);
+  });
+
+  it('drops bad entries and says why', () => {
+    const { config, issues } = parseInverterConfig({
+      inverters: [
+        { name: 'No host' },
+        { host: 'http://10.0.1.190/' },
+        { host: '10.0.1.191', serialNumber: 'A' },
+        { host: '10.0.1.191' },
+        { host: '10.0.1.192', serialNumber: 'A' },
+        { host: '10.0.1.193', isMaster: 'yes' }
+      ]
+    });
+
+    expect(config?.inverters.map(entry => entry.host)).toEqual(['10.0.1.191', '10.0.1.193']);
+    expect(config?.inverters[1].isMaster).toBeUndefined();
+    expect(issues.map(issue => issue.message)).toEqual([
+      'inverters[0] is missing "host"',
+      'inverters[1] "host" should be a bare IP or hostname (with optional :port), not a URL',
+      'inverters[3] duplicates an earlier entry for 10.0.1.191',
+      'inverters[4] expects serial A, which is already listed',
+      'inverters[5] "isMaster" must be true or false - ignoring it'
+    ]);
+  });
+
+  it('flags more than one master', () => {
+    const { issues } = parseInverterConfig({
+      inverters: [{ host: 'a', isMaster: true }, { host: 'b', isMaster: true }]
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toMatch(/More than one inverter is marked "isMaster"/);
+  });
+
+  it('rejects a config that is not an object', () => {
+    expect(parseInverterConfig([]).config).toBeNull();
+    expect(parseInverterConfig({ inverters: 'x' }).config).toBeNull();
+  });
+});
+
+describe('parseSitesConfig', () => {
+  it('parses each site with its own inverters and LiveOne credentials', () => {
+    const { sites, issues } = parseSitesConfig([
+      {
+        id: 'house',
+        name: 'House',
+        inverters: ['10.0.1.190'],
+        liveOne: { apiKey: 'fr_house', server: 'https://liveone.example.com' }
+      },
+      { id: 'shed', inverters: ['10.0.2.10'], reportPeriodMinutes: 5 }
+    ]);
+
+    expect(issues).toEqual([]);
+    expect(sites).toEqual([
+      {
+        id: 'house',
+        name: 'House',
+        config: { inverters: [{ host: '10.0.1.190' }], scan: false, networks: [] },
+        liveOne: { apiKey: 'fr_house', server: 'https://liveone.example.com', enabled: true }
+      },
+      {
+        id: 'shed',
+        name: 'shed',
+        config: { inverters: [{ host: '10.0.2.10' }], scan: false, networks: [], reportPeriodMinutes: 5 }
+      }
+    ]);
+  });
+
+  it('drops sites with bad or duplicate ids and says why', () => {
+    const { sites, issues } = parseSitesConfig([
+      { id: 'house', inverters: ['a'] },
+      { id: 'house', inverters: ['b'] },
+      { id: 'my site', inverters: ['c'] },
+      { inverters: ['d'] },
+      'e'
+    ]);
+
+    expect(sites.map(site => site.id)).toEqual(['house']);
+    expect(issues.map(issue => issue.message)).toEqual([
+      'sites[1] duplicates the id "house"',
+      'sites[2] "id" must be letters, digits, "-" and "_", like "house"',
+      'sites[3] "id" must be letters, digits, "-" and "_", like "house"',
+      'sites[4] must be an object'
+    ]);
+  });
+
+  it('keeps a site with bad LiveOne credentials but does not push it', () => {
+    const { sites, issues } = parseSitesConfig([
+      { id: 'house', liveOne: { apiKey: 'wrong', server: 'https://liveone.example.com' } }
+    ]);
+
+    expect(sites).toHaveLength(1);
+    expect(sites[0].liveOne).toBeUndefined();
+    expect(issues[0].message).toMatch(/^sites\[0\] \(house\): "liveOne" "apiKey" must be a string starting with "fr_"/);
+  });
+
+  it('prefixes issues within a site with the site', () => {
+    const { sites, issues } = parseSitesConfig([
+      { id: 'house', inverters: [{ host: 'a', isMaster: true }, { host: 'b', isMaster: true }] }
+    ]);
+
+    expect(sites).toHaveLength(1);
+    expect(issues[0].message).toMatch(/^sites\[0\] \(house\): More than one inverter/);
+  });
+
+  it('rejects sites that are not an array', () => {
+    expect(parseSitesConfig({ house: {} })).toEqual({ sites: [], issues: [{ message: '"sites" must be an array' }] });
+  });
+});
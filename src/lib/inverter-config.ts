@@ -0,0 +1,403 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { MIN_SCAN_PREFIX, parseCidrRange } from './network-range';
+import { GeoLocation } from './sun-times';
+
+/**
+ * One inverter listed in the config file
+ */
+export interface InverterConfigEntry {
+  host: string;            // IP address or hostname, optionally with :port
+  name?: string;           // Display name (overrides the inverter's CustomName)
+  isMaster?: boolean;      // Skip master detection and use this
+  serialNumber?: string;   // Expected serial - the entry is rejected if the inverter reports a different one
+}
+
+// How to sweep networks for inverters: ping + ARP table, or the Solar API over HTTP
+export type ScanMode = 'arp' | 'http';
+export const SCAN_MODES: ScanMode[] = ['arp', 'http'];
+
+// How many minutes each FroniusMinutely report covers - reports fall on wall-clock multiples of this
+export type ReportPeriod = 1 | 5 | 15;
+export const REPORT_PERIODS: ReportPeriod[] = [1, 5, 15];
+
+// Poll rate limits - the inverters' Solar API can't usefully be asked more often than twice a second
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+export const MIN_POLL_INTERVAL_MS = 500;
+export const MAX_POLL_INTERVAL_MS = 60 * 1000;
+
+export interface InverterConfig {
+  inverters: InverterConfigEntry[];
+  scan: boolean;           // Also scan the local network for inverters that aren't listed
+  networks: string[];      // Extra CIDR ranges to scan, e.g. an inverter VLAN
+  scanMode?: ScanMode;     // Overrides FRONIUS_SCAN_MODE
+  location?: GeoLocation;  // Site location for sunrise/sunset (overrides FRONIUS_LATITUDE/FRONIUS_LONGITUDE)
+  pollIntervalMs?: number;            // Overrides FRONIUS_POLL_INTERVAL_MS
+  reportPeriodMinutes?: ReportPeriod; // Overrides FRONIUS_REPORT_PERIOD_MINUTES
+}
+
+// LiveOne credentials for one site, in place of the LIVEONE_* environment variables
+export interface LiveOneCredentials {
+  apiKey: string;
+  server: string;
+  enabled: boolean;
+}
+
+/**
+ * One site in a config file that lists several
+ */
+export interface SiteConfig {
+  id: string;                    // Used in URLs (?site=) and as the name of the site's data directory
+  name: string;
+  config: InverterConfig;
+  liveOne?: LiveOneCredentials;  // Sites without credentials aren't pushed to LiveOne
+}
+
+// The site a single-site config (or no config) describes
+export const DEFAULT_SITE_ID = 'main';
+export const DEFAULT_SITE_NAME = 'Main Site';
+
+// Problem with the config file or one of its entries
+export interface ConfigIssue {
+  host?: string;
+  message: string;
+}
+
+export interface LoadedInverterConfig {
+  filePath: string;
+  config: InverterConfig | null;   // null when there's no usable config file, or it lists sites
+  sites: SiteConfig[] | null;      // Set when the file has a "sites" array instead of one site's settings
+  issues: ConfigIssue[];
+}
+
+export const DEFAULT_CONFIG_FILE = 'fronius.config.json';
+
+/**
+ * Path of the inverter config file (FRONIUS_CONFIG, default ./fronius.config.json)
+ */
+export function getConfigFilePath(): string {
+  return path.resolve(process.env.FRONIUS_CONFIG || DEFAULT_CONFIG_FILE);
+}
+
+// Check a latitude/longitude pair, returning what's wrong with it if anything
+function checkLocation(latitude: unknown, longitude: unknown): string | null {
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || Math.abs(latitude) > 90) {
+    return 'latitude must be a number from -90 to 90';
+  }
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+    return 'longitude must be a number from -180 to 180';
+  }
+  return null;
+}
+
+/**
+ * Site location from FRONIUS_LATITUDE and FRONIUS_LONGITUDE, if both are set
+ */
+export function getLocationFromEnv(): GeoLocation | undefined {
+  const { FRONIUS_LATITUDE, FRONIUS_LONGITUDE } = process.env;
+  if (!FRONIUS_LATITUDE || !FRONIUS_LONGITUDE) {
+    return undefined;
+  }
+
+  const latitude = Number(FRONIUS_LATITUDE);
+  const longitude = Number(FRONIUS_LONGITUDE);
+  const problem = checkLocation(latitude, longitude);
+  if (problem) {
+    console.error(`[Config] FRONIUS_LATITUDE/FRONIUS_LONGITUDE: ${problem} - ignoring them`);
+    return undefined;
+  }
+  return { latitude, longitude };
+}
+
+// Check a poll interval, returning what's wrong with it if anything
+function checkPollInterval(intervalMs: unknown): string | null {
+  if (typeof intervalMs !== 'number' || !Number.isInteger(intervalMs) || intervalMs < MIN_POLL_INTERVAL_MS || intervalMs > MAX_POLL_INTERVAL_MS) {
+    return `must be a whole number of milliseconds from ${MIN_POLL_INTERVAL_MS} to ${MAX_POLL_INTERVAL_MS}`;
+  }
+  return null;
+}
+
+function checkReportPeriod(minutes: unknown): string | null {
+  if (!REPORT_PERIODS.includes(minutes as ReportPeriod)) {
+    return `must be one of ${REPORT_PERIODS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Poll interval and report period from FRONIUS_POLL_INTERVAL_MS and FRONIUS_REPORT_PERIOD_MINUTES, where set
+ */
+export function getCadenceFromEnv(): { pollIntervalMs?: number; reportPeriodMinutes?: ReportPeriod } {
+  const { FRONIUS_POLL_INTERVAL_MS, FRONIUS_REPORT_PERIOD_MINUTES } = process.env;
+  const cadence: { pollIntervalMs?: number; reportPeriodMinutes?: ReportPeriod } = {};
+
+  if (FRONIUS_POLL_INTERVAL_MS) {
+    const intervalMs = Number(FRONIUS_POLL_INTERVAL_MS);
+    const problem = checkPollInterval(intervalMs);
+    if (problem) {
+      console.error(`[Config] FRONIUS_POLL_INTERVAL_MS ${problem} - ignoring it`);
+    } else {
+      cadence.pollIntervalMs = intervalMs;
+    }
+  }
+
+  if (FRONIUS_REPORT_PERIOD_MINUTES) {
+    const minutes = Number(FRONIUS_REPORT_PERIOD_MINUTES);
+    const problem = checkReportPeriod(minutes);
+    if (problem) {
+      console.error(`[Config] FRONIUS_REPORT_PERIOD_MINUTES ${problem} - ignoring it`);
+    } else {
+      cadence.reportPeriodMinutes = minutes as ReportPeriod;
+    }
+  }
+
+  return cadence;
+}
+
+/**
+ * Check a parsed config file, returning the usable config and anything wrong with it.
+ * Bad entries are dropped individually so one typo doesn't lose the whole site.
+ */
+export function parseInverterConfig(raw: unknown): { config: InverterConfig | null; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { config: null, issues: [{ message: 'Config must be a JSON object with an "inverters" array' }] };
+  }
+
+  const {
+    inverters: rawInverters,
+    scan,
+    networks: rawNetworks,
+    scanMode,
+    location: rawLocation,
+    pollIntervalMs,
+    reportPeriodMinutes
+  } = raw as Record<string, unknown>;
+  if (rawInverters !== undefined && !Array.isArray(rawInverters)) {
+    return { config: null, issues: [{ message: '"inverters" must be an array' }] };
+  }
+  if (scan !== undefined && typeof scan !== 'boolean') {
+    issues.push({ message: '"scan" must be true or false - ignoring it' });
+  }
+
+  if (scanMode !== undefined && !SCAN_MODES.includes(scanMode as ScanMode)) {
+    issues.push({ message: `"scanMode" must be one of ${SCAN_MODES.map(mode => `"${mode}"`).join(', ')} - ignoring it` });
+  }
+
+  const pollIntervalProblem = pollIntervalMs !== undefined ? checkPollInterval(pollIntervalMs) : null;
+  if (pollIntervalProblem) {
+    issues.push({ message: `"pollIntervalMs" ${pollIntervalProblem} - ignoring it` });
+  }
+  const reportPeriodProblem = reportPeriodMinutes !== undefined ? checkReportPeriod(reportPeriodMinutes) : null;
+  if (reportPeriodProblem) {
+    issues.push({ message: `"reportPeriodMinutes" ${reportPeriodProblem} - ignoring it` });
+  }
+
+  let location: GeoLocation | undefined;
+  if (rawLocation !== undefined) {
+    const { latitude, longitude } = (typeof rawLocation === 'object' && rawLocation !== null ? rawLocation : {}) as Record<string, unknown>;
+    const problem = checkLocation(latitude, longitude);
+    if (problem) {
+      issues.push({ message: `"location" ${problem} - ignoring it` });
+    } else {
+      location = { latitude: latitude as number, longitude: longitude as number };
+    }
+  }
+
+  const networks: string[] = [];
+  if (rawNetworks !== undefined && !Array.isArray(rawNetworks)) {
+    issues.push({ message: '"networks" must be an array of CIDR ranges - ignoring it' });
+  }
+  (Array.isArray(rawNetworks) ? rawNetworks : []).forEach((rawNetwork: unknown, index: number) => {
+    const range = typeof rawNetwork === 'string' ? parseCidrRange(rawNetwork) : null;
+    if (!range) {
+      issues.push({ message: `networks[${index}] must be an IPv4 CIDR range like "192.168.1.0/24"` });
+    } else if (range.prefixLength < MIN_SCAN_PREFIX) {
+      issues.push({ message: `networks[${index}] ${range.cidr} is too big to scan - use /${MIN_SCAN_PREFIX} or smaller ranges` });
+    } else if (!networks.includes(range.cidr)) {
+      networks.push(range.cidr);
+    }
+  });
+
+  const inverters: InverterConfigEntry[] = [];
+  const seenHosts = new Set<string>();
+  const seenSerials = new Set<string>();
+
+  (rawInverters ?? []).forEach((rawEntry: any, index: number) => {
+    const label = `inverters[${index}]`;
+
+    if (typeof rawEntry === 'string') {
+      rawEntry = { host: rawEntry };
+    }
+    if (typeof rawEntry !== 'object' || rawEntry === null) {
+      issues.push({ message: `${label} must be an object or a host string` });
+      return;
+    }
+
+    const host = typeof rawEntry.host === 'string' ? rawEntry.host.trim() : '';
+    if (!host) {
+      issues.push({ message: `${label} is missing "host"` });
+      return;
+    }
+    if (/^[a-z]+:\/\//i.test(host) || host.includes('/')) {
+      issues.push({ host, message: `${label} "host" should be a bare IP or hostname (with optional :port), not a URL` });
+      return;
+    }
+    if (seenHosts.has(host)) {
+      issues.push({ host, message: `${label} duplicates an earlier entry for ${host}` });
+      return;
+    }
+
+    const entry: InverterConfigEntry = { host };
+
+    if (rawEntry.name !== undefined) {
+      if (typeof rawEntry.name === 'string' && rawEntry.name.trim()) {
+        entry.name = rawEntry.name.trim();
+      } else {
+        issues.push({ host, message: `${label} "name" must be a non-empty string - ignoring it` });
+      }
+    }
+
+    if (rawEntry.isMaster !== undefined) {
+      if (typeof rawEntry.isMaster === 'boolean') {
+        entry.isMaster = rawEntry.isMaster;
+      } else {
+        issues.push({ host, message: `${label} "isMaster" must be true or false - ignoring it` });
+      }
+    }
+
+    if (rawEntry.serialNumber !== undefined) {
+      const serialNumber = String(rawEntry.serialNumber).trim();
+      if (seenSerials.has(serialNumber)) {
+        issues.push({ host, message: `${label} expects serial ${serialNumber}, which is already listed` });
+        return;
+      }
+      entry.serialNumber = serialNumber;
+      seenSerials.add(serialNumber);
+    }
+
+    seenHosts.add(host);
+    inverters.push(entry);
+  });
+
+  if (inverters.filter(entry => entry.isMaster === true).length > 1) {
+    issues.push({ message: 'More than one inverter is marked "isMaster" - only one can own the grid meter' });
+  }
+
+  return {
+    config: {
+      inverters,
+      scan: typeof scan === 'boolean' ? scan : inverters.length === 0,
+      networks,
+      ...(SCAN_MODES.includes(scanMode as ScanMode) && { scanMode: scanMode as ScanMode }),
+      ...(location && { location }),
+      ...(pollIntervalMs !== undefined && !pollIntervalProblem && { pollIntervalMs: pollIntervalMs as number }),
+      ...(reportPeriodMinutes !== undefined && !reportPeriodProblem && { reportPeriodMinutes: reportPeriodMinutes as ReportPeriod })
+    },
+    issues
+  };
+}
+
+// Check LiveOne credentials, returning what's wrong with them if anything
+function checkLiveOne(liveOne: Record<string, unknown>): string | null {
+  if (typeof liveOne.apiKey !== 'string' || !liveOne.apiKey.startsWith('fr_')) {
+    return '"apiKey" must be a string starting with "fr_"';
+  }
+  if (typeof liveOne.server !== 'string' || !/^https?:\/\//i.test(liveOne.server)) {
+    return '"server" must start with http:// or https://';
+  }
+  if (liveOne.enabled !== undefined && typeof liveOne.enabled !== 'boolean') {
+    return '"enabled" must be true or false';
+  }
+  return null;
+}
+
+/**
+ * Check the "sites" array of a multi-site config file. Each entry has an "id", an optional "name" and "liveOne"
+ * credentials, and otherwise the same settings as a single-site file. Bad sites are dropped individually.
+ */
+export function parseSitesConfig(rawSites: unknown): { sites: SiteConfig[]; issues: ConfigIssue[] } {
+  if (!Array.isArray(rawSites)) {
+    return { sites: [], issues: [{ message: '"sites" must be an array' }] };
+  }
+
+  const sites: SiteConfig[] = [];
+  const issues: ConfigIssue[] = [];
+  const seenIds = new Set<string>();
+
+  rawSites.forEach((rawSite: unknown, index: number) => {
+    const label = `sites[${index}]`;
+    if (typeof rawSite !== 'object' || rawSite === null || Array.isArray(rawSite)) {
+      issues.push({ message: `${label} must be an object` });
+      return;
+    }
+
+    const { id, name, liveOne: rawLiveOne, ...rawConfig } = rawSite as Record<string, unknown>;
+    if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(id)) {
+      issues.push({ message: `${label} "id" must be letters, digits, "-" and "_", like "house"` });
+      return;
+    }
+    if (seenIds.has(id)) {
+      issues.push({ message: `${label} duplicates the id "${id}"` });
+      return;
+    }
+
+    const parsed = parseInverterConfig(rawConfig);
+    issues.push(...parsed.issues.map(issue => ({ ...issue, message: `${label} (${id}): ${issue.message}` })));
+    if (!parsed.config) {
+      return;
+    }
+
+    const site: SiteConfig = {
+      id,
+      name: typeof name === 'string' && name.trim() ? name.trim() : id,
+      config: parsed.config
+    };
+    if (rawLiveOne !== undefined) {
+      const liveOne = (typeof rawLiveOne === 'object' && rawLiveOne !== null ? rawLiveOne : {}) as Record<string, unknown>;
+      const problem = checkLiveOne(liveOne);
+      if (problem) {
+        issues.push({ message: `${label} (${id}): "liveOne" ${problem} - not pushing this site to LiveOne` });
+      } else {
+        site.liveOne = {
+          apiKey: liveOne.apiKey as string,
+          server: liveOne.server as string,
+          enabled: (liveOne.enabled as boolean | undefined) ?? true
+        };
+      }
+    }
+
+    seenIds.add(id);
+    sites.push(site);
+  });
+
+  return { sites, issues };
+}
+
+/**
+ * Load and validate the inverter config file. A missing file isn't an error - discovery falls back to scanning.
+ */
+export function loadInverterConfig(filePath: string = getConfigFilePath()): LoadedInverterConfig {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { filePath, config: null, sites: null, issues: [] };
+    }
+    return { filePath, config: null, sites: null, issues: [{ message: `Can't read ${filePath}: ${error.message}` }] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error: any) {
+    return { filePath, config: null, sites: null, issues: [{ message: `${filePath} is not valid JSON: ${error.message}` }] };
+  }
+
+  if (typeof raw === 'object' && raw !== null && 'sites' in raw) {
+    return { filePath, config: null, ...parseSitesConfig((raw as Record<string, unknown>).sites) };
+  }
+  return { filePath, sites: null, ...parseInverterConfig(raw) };
+}
@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { Inverter } from './inverter';
+import { FakeClock } from '@/test/fake-clock';
+import { FroniusSimulator } from '@/simulator/fronius-simulator';
+
+describe('Inverter sample times', () => {
+  let simulator: FroniusSimulator;
+  let masterHost: string;
+  let inverterTime: Date;
+  let clock: FakeClock;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    inverterTime = new Date('2025-09-14T10:00:00Z');
+    simulator = new FroniusSimulator({ profile: 'day', now: () => inverterTime });
+    [masterHost] = await simulator.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+    vi.restoreAllMocks();
+  });
+
+  function createInverter() {
+    clock = new FakeClock('2025-09-14T10:00:00.400Z');
+    return new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    }, undefined, undefined, undefined, clock.now);
+  }
+
+  it('uses Head.Timestamp from the response and reports the clock skew', async () => {
+    inverterTime = new Date('2025-09-14T10:00:00Z');
+    const inverter = createInverter();
+    const powerData = await inverter.fetchPowerFlow();
+
+    expect(powerData?.timestamp).toEqual(inverterTime);
+    expect(inverter.getClockSkew()).toEqual({ skewMs: -400, samples: 1, trusted: true });
+  });
+
+  it('falls back to the request time when the inverter clock is well out', async () => {
+    inverterTime = new Date('2025-09-14T10:02:00Z');
+    const inverter = createInverter();
+    const powerData = await inverter.fetchPowerFlow();
+
+    expect(powerData?.timestamp).toEqual(clock.now());
+    expect(inverter.getClockSkew()).toMatchObject({ skewMs: 119600, trusted: false });
+  });
+
+  it('takes the median so one odd response does not flip the estimate', async () => {
+    const inverter = createInverter();
+    const timestamps = [];
+    for (const time of ['10:00:01Z', '10:00:01Z', '10:05:00Z']) {
+      inverterTime = new Date(`2025-09-14T${time}`);
+      timestamps.push((await inverter.fetchPowerFlow())?.timestamp);
+    }
+
+    expect(inverter.getClockSkew()).toEqual({ skewMs: 600, samples: 3, trusted: true });
+    expect(timestamps[2]).toEqual(clock.now());   // ...but the odd one isn't used as a sample time
+  });
+});
+
+describe('Inverter meter data', () => {
+  let simulator: FroniusSimulator;
+  let masterHost: string;
+
+  beforeAll(async () => {
+    simulator = new FroniusSimulator({ profile: 'day' });
+    [masterHost] = await simulator.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+  });
+
+  it('reads per-phase voltage, current, power and power factor from the grid meter', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const meterData = await inverter.fetchMeterData();
+
+    expect(Object.keys(meterData!.phases)).toEqual(['L1', 'L2', 'L3']);
+    expect(meterData!.phases.L1).toMatchObject({ voltageV: 241.8, powerFactor: 0.615 });
+    expect(meterData!.frequencyHz).toBe(50);
+    expect(meterData!.powerFactor).toBe(0.665);
+    expect(inverter.getLastMeterData()).toBe(meterData);
+  });
+
+  it('shares one meter request between the grid meter readings and counters of a poll', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    }, undefined, undefined, {
+      manufacturer: 'Fronius', model: 'Smart Meter TS 65A-3', location: 'Grid (feed-in point)', locationCode: 0, deviceId: '0', enabled: true
+    });
+    const getSpy = vi.spyOn(axios, 'get');
+    const meterRequests = () => getSpy.mock.calls.filter(([url]) => url.includes('GetMeterRealtimeData')).length;
+
+    for (let poll = 1; poll <= 2; poll++) {
+      await inverter.fetchPowerFlow();
+      await Promise.all([inverter.fetchMeterData(), inverter.fetchMeters()]);
+      await inverter.fetchEnergyCounters();
+      expect(meterRequests()).toBe(poll);
+    }
+    getSpy.mockRestore();
+
+    expect(inverter.getLastMeterData()?.phases.L1).toMatchObject({ voltageV: 241.8 });
+    expect(inverter.getEnergyState().grid?.positive.hardware).toBeDefined();   // The counters were read from the shared request
+  });
+});
+
+describe('Inverter MPPT data', () => {
+  let simulator: FroniusSimulator;
+  let masterHost: string;
+
+  beforeAll(async () => {
+    simulator = new FroniusSimulator({ profile: 'day' });
+    [masterHost] = await simulator.start();
+    simulator.getMaster()!.setSolarOverride(3000);
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+  });
+
+  it('reads voltage, current and power for each tracker from the components API', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const mpptData = await inverter.fetchMpptData();
+
+    expect(Object.keys(mpptData!.trackers)).toEqual(['1', '2']);
+    const { '1': first, '2': second } = mpptData!.trackers;
+    expect(first.voltageV).toBe(380);
+    expect(first.powerW! + second.powerW!).toBeCloseTo(3000, -1);
+    expect(first.currentA! * first.voltageV!).toBeCloseTo(first.powerW!, -1);
+    expect(inverter.getLastMpptData()).toBe(mpptData);
+  });
+
+  it('falls back to UDC/IDC from CommonInverterData without the components API', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const get = axios.get;
+    const getSpy = vi.spyOn(axios, 'get').mockImplementation((url: string, config?: any) =>
+      url.includes('/api/components/') ? Promise.reject(new Error('Not Found')) : get(url, config)
+    );
+    const mpptData = await inverter.fetchMpptData();
+    getSpy.mockRestore();
+
+    expect(Object.keys(mpptData!.trackers)).toEqual(['1', '2']);
+    expect(mpptData!.trackers['1'].voltageV).toBe(380);
+    expect(mpptData!.trackers['1'].powerW! + mpptData!.trackers['2'].powerW!).toBeCloseTo(3000, -1);
+  });
+
+  it('shares one components request between the MPPT readings and energy counters of a poll', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const getSpy = vi.spyOn(axios, 'get');
+    const componentRequests = () => getSpy.mock.calls.filter(([url]) => url.includes('/api/components/')).length;
+
+    for (let poll = 1; poll <= 2; poll++) {
+      await inverter.fetchPowerFlow();
+      await inverter.fetchMpptData();
+      await inverter.fetchEnergyCounters();
+      expect(componentRequests()).toBe(poll);
+    }
+    getSpy.mockRestore();
+
+    expect(inverter.getEnergyState().solarCounterSource).toBe('components');
+  });
+
+  it('shares a components request still in flight with the readings that ask for it meanwhile', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const getSpy = vi.spyOn(axios, 'get');
+
+    await inverter.fetchPowerFlow();
+    const [mpptData] = await Promise.all([inverter.fetchMpptData(), inverter.fetchEnergyCounters()]);
+    const componentRequests = getSpy.mock.calls.filter(([url]) => url.includes('/api/components/')).length;
+    getSpy.mockRestore();
+
+    expect(componentRequests).toBe(1);
+    expect(Object.keys(mpptData!.trackers)).toEqual(['1', '2']);
+    expect(inverter.getEnergyState().solarCounterSource).toBe('components');
+  });
+
+  it('stops asking for the components API once the inverter has said a few times it has none', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Symo', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const get = axios.get;
+    const getSpy = vi.spyOn(axios, 'get').mockImplementation((url: string, config?: any) =>
+      url.includes('/api/components/')
+        ? Promise.reject(Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } }))
+        : get(url, config)
+    );
+
+    for (let poll = 0; poll < 5; poll++) {
+      await inverter.fetchPowerFlow();
+      expect(await inverter.fetchMpptData()).not.toBeNull();
+    }
+    const componentRequests = getSpy.mock.calls.filter(([url]) => url.includes('/api/components/')).length;
+    vi.restoreAllMocks();
+
+    expect(componentRequests).toBe(3);
+  });
+
+  it('keeps asking for the components API through server errors', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const get = axios.get;
+    let serverError = true;
+    const getSpy = vi.spyOn(axios, 'get').mockImplementation((url: string, config?: any) =>
+      url.includes('/api/components/') && serverError
+        ? Promise.reject(Object.assign(new Error('Request failed with status code 503'), { response: { status: 503 } }))
+        : get(url, config)
+    );
+
+    for (let poll = 0; poll < 5; poll++) {
+      await inverter.fetchPowerFlow();
+      await inverter.fetchMpptData();
+    }
+    serverError = false;
+    await inverter.fetchPowerFlow();
+    await inverter.fetchEnergyCounters();
+    const componentRequests = getSpy.mock.calls.filter(([url]) => url.includes('/api/components/')).length;
+    vi.restoreAllMocks();
+
+    expect(componentRequests).toBe(6);
+    expect(inverter.getEnergyState().solarCounterSource).toBe('components');
+  });
+
+  it('logs a run of failed MPPT reads once', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    const get = axios.get;
+    let answering = false;
+    vi.spyOn(axios, 'get').mockImplementation((url: string, config?: any) =>
+      answering ? get(url, config) : Promise.reject(Object.assign(new Error('timeout of 2000ms exceeded'), { code: 'ECONNABORTED' }))
+    );
+
+    for (const up of [false, false, false, true, false]) {
+      answering = up;
+      await inverter.fetchMpptData();
+    }
+    const mpptErrors = errorSpy.mock.calls.filter(([message]) => String(message).startsWith('Failed to fetch MPPT data'));
+    vi.restoreAllMocks();
+
+    expect(mpptErrors).toHaveLength(2);
+    expect(inverter.getLastMpptData()).toBeUndefined();
+  });
+});
+
+describe('Inverter battery data', () => {
+  let simulator: FroniusSimulator;
+  let masterHost: string;
+
+  beforeAll(async () => {
+    simulator = new FroniusSimulator({ profile: 'day' });
+    [masterHost] = await simulator.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+  });
+
+  it('reads live telemetry from the battery and compares its capacity with the design capacity', async () => {
+    const inverter = new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    }, undefined, { manufacturer: 'BYD', capacityWh: 20000, enabled: true });
+    const batteryData = await inverter.fetchBatteryData();
+
+    expect(batteryData).toMatchObject({
+      voltageV: 395.6,
+      temperatureC: 21.5,
+      capacityWh: 22464,
+      designedCapacityWh: 22464,
+      reportedHealthPercent: 100,
+      cellStatus: 3,
+      health: { capacityWh: null, healthPercent: null, samples: 0 }
+    });
+    expect(inverter.getBattery()?.capacityWh).toBe(22464);
+  });
+
+  it('checkpoints the state of health estimate with the energy totals', async () => {
+    const createInverter = () => new Inverter(masterHost, '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    }, undefined, { manufacturer: 'BYD', capacityWh: 20000, enabled: true });
+    const before = createInverter();
+    await before.fetchBatteryData();
+    const state = before.getEnergyState();
+    expect(state.batteryHealth).toMatchObject({ samples: 0, anchor: { netWh: 0 } });
+
+    const after = createInverter();
+    after.restoreEnergyState(JSON.parse(JSON.stringify({
+      ...state,
+      batteryHealth: { capacityWh: 20000, samples: 3, anchor: state.batteryHealth!.anchor }
+    })));
+    const batteryData = await after.fetchBatteryData();
+
+    expect(batteryData?.health).toEqual({ capacityWh: 20000, healthPercent: 89, samples: 3 });
+    expect(after.getEnergyState().batteryHealth).toEqual({ capacityWh: 20000, samples: 3, anchor: state.batteryHealth!.anchor });
+  });
+});
+
+describe('Inverter energy counters', () => {
+  let dcWh: number;
+  let acWh: number;
+  let componentsUp: boolean;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    dcWh = 10000;
+    acWh = 9500;   // AC yield trails DC by the conversion losses
+    componentsUp = true;
+    clock = new FakeClock();
+
+    vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.includes('/api/components/')) {
+        if (!componentsUp) throw Object.assign(new Error('timeout of 2000ms exceeded'), { code: 'ECONNABORTED' });
+        return { data: { Body: { Data: { '0': { channels: { PV_ENERGYACTIVE_ACTIVE_SUM_01_U64: dcWh * 3600 } } } } } };
+      }
+      if (url.includes('DataCollection=CommonInverterData')) {
+        return { data: { Body: { Data: { TOTAL_ENERGY: { Unit: 'Wh', Value: acWh } } } } };
+      }
+      throw new Error('Not Found');
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createSlave() {
+    return new Inverter('192.0.2.10', 'SLAVE1', false, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 5000, customName: 'Slave', serialNumber: 'SLAVE1'
+    }, undefined, undefined, undefined, clock.now);
+  }
+
+  // Read the counters once per step, generating 100 Wh DC (97 Wh AC) in between
+  async function readCounters(inverter: Inverter, componentsAnswering: boolean[]) {
+    for (const answering of componentsAnswering) {
+      componentsUp = answering;
+      await inverter.fetchEnergyCounters();
+      dcWh += 100;
+      acWh += 97;
+      clock.advance(10 * 1000);
+    }
+  }
+
+  it('keeps to the DC counter while the components API drops out now and then', async () => {
+    const inverter = createSlave();
+    await readCounters(inverter, [true, false, true, false, false, true, false, true]);
+
+    // From the first reading to the last successful one: 7 steps of 100 Wh
+    expect(inverter.getEnergyData().solarWh).toBe(700);
+    expect(inverter.getEnergyState().solarCounterSource).toBe('components');
+  });
+
+  it('keeps to the AC yield counter when that answered first', async () => {
+    const inverter = createSlave();
+    await readCounters(inverter, [false, true, false, true]);
+
+    expect(inverter.getEnergyData().solarWh).toBe(3 * 97);
+    expect(inverter.getEnergyState().solarCounterSource).toBe('inverter-yield');
+  });
+
+  it('carries the counter source across a restart', async () => {
+    const before = createSlave();
+    await readCounters(before, [false, false]);
+
+    const after = createSlave();
+    after.restoreEnergyState(before.getEnergyState());
+    await readCounters(after, [true, true]);
+
+    expect(after.getEnergyData().solarWh).toBe(3 * 97);
+  });
+});
@@ -1,6 +1,17 @@
 import axios from 'axios';
-import { EnergyIntegrator, BidirectionalEnergyIntegrator } from './energy-integrator';
+import {
+  EnergyIntegrator,
+  BidirectionalEnergyIntegrator,
+  EnergyIntegratorState,
+  BidirectionalEnergyIntegratorState,
+  EnergyDrift
+} from './energy-integrator';
 import { InverterInfo, BatteryInfo, MeterInfo } from '@/types/device';
+import { EnergySource, EnergySources } from '@/types/fronius';
+import { Clock, systemClock } from './clock';
+import { PollFailureReason } from './poll-metrics';
+import { BatteryHealthEstimator, BatteryHealthEstimate, BatteryHealthState } from './battery-health';
+import { describeMeterLocation, MetersReading } from './meter';
 
 export interface PowerData {
   solarW?: number;
@@ -10,6 +21,74 @@ export interface PowerData {
   timestamp: Date;
 }
 
+export const METER_PHASES = ['L1', 'L2', 'L3'] as const;
+export type MeterPhase = typeof METER_PHASES[number];
+
+// One phase of the grid meter
+export interface MeterPhaseData {
+  voltageV: number | null;     // Phase to neutral
+  currentA: number | null;
+  powerW: number | null;       // Positive = importing on this phase
+  powerFactor: number | null;
+}
+
+/**
+ * Per-phase AC measurements from the grid meter. Single-phase meters only have L1.
+ */
+export interface MeterData {
+  phases: Partial<Record<MeterPhase, MeterPhaseData>>;
+  frequencyHz: number | null;
+  powerFactor: number | null;  // Across all phases
+  timestamp: Date;
+}
+
+// DC input of one MPPT tracker - a single string, or strings wired in parallel
+export interface MpptTrackerData {
+  voltageV: number | null;
+  currentA: number | null;
+  powerW: number | null;
+}
+
+/**
+ * Per-tracker DC readings. Keyed by tracker number ('1', '2') rather than an array so that history
+ * downsampling averages each tracker separately.
+ */
+export interface MpptData {
+  trackers: Record<string, MpptTrackerData>;
+  timestamp: Date;
+}
+
+/**
+ * Live readings from the battery's BMS (GetStorageRealtimeData)
+ */
+export interface BatteryData {
+  voltageV: number | null;
+  currentA: number | null;              // Positive = discharging
+  temperatureC: number | null;          // Cell temperature
+  socPercent: number | null;
+  capacityWh: number | null;            // Capacity_Maximum as reported by the BMS
+  designedCapacityWh: number | null;
+  reportedHealthPercent: number | null; // Capacity_Maximum as a share of DesignedCapacity
+  cellStatus: number | null;            // Status_BatteryCell, as reported
+  health: BatteryHealthEstimate;        // Our own estimate from energy throughput
+  timestamp: Date;
+}
+
+/**
+ * How far the inverter's clock is from ours, from Head.Timestamp in its responses
+ */
+export interface ClockSkewData {
+  skewMs: number;      // Median of recent samples, positive = inverter ahead (1 s resolution)
+  samples: number;
+  trusted: boolean;    // Whether Head.Timestamp is close enough to use as the sample time
+}
+
+// Inverter clocks further out than this aren't used for sample times - the request midpoint is used instead
+const MAX_TRUSTED_CLOCK_SKEW_MS = 10 * 1000;
+
+// Recent skew samples the estimate is taken over
+const CLOCK_SKEW_SAMPLES = 30;
+
 export interface EnergyData {
   solarWh: number;
   batteryInWh: number;
@@ -18,6 +97,31 @@ export interface EnergyData {
   gridOutWh: number;
 }
 
+// Integration vs hardware counter drift for each flow that has a hardware counter
+export interface EnergyDriftData {
+  solar?: EnergyDrift;
+  batteryIn?: EnergyDrift;
+  batteryOut?: EnergyDrift;
+  gridIn?: EnergyDrift;
+  gridOut?: EnergyDrift;
+}
+
+/**
+ * Where the solar hardware counter is read from: the components API's DC yield, or the AC TOTAL_ENERGY from
+ * GetInverterRealtimeData. They differ by conversion losses, so an inverter sticks with whichever answered first.
+ */
+export type SolarCounterSource = 'components' | 'inverter-yield';
+
+// Checkpointed integrator state, keyed by serial number in the site state file
+export interface InverterEnergyState {
+  isMaster?: boolean;    // Missing from older checkpoints, where only the master has grid state
+  solar: EnergyIntegratorState;
+  battery?: BidirectionalEnergyIntegratorState;
+  grid?: BidirectionalEnergyIntegratorState;
+  solarCounterSource?: SolarCounterSource;
+  batteryHealth?: BatteryHealthState;
+}
+
 export interface InverterStatus {
   code?: number;
   reason?: string;
@@ -30,6 +134,129 @@ const DEVICE_TYPE_MAP: Record<number, string> = {
   // Add more device types as discovered
 };
 
+// Meter_Location_Current of a meter at the grid feed-in point
+const METER_LOCATION_GRID = 0;
+
+// The components API reports energy in watt-seconds
+const WS_PER_WH = 3600;
+
+// Answers in a row saying there's no components API before it's given up on - one could be a web server restarting
+const COMPONENTS_UNAVAILABLE_AFTER = 3;
+
+// A components API response, shared by the MPPT readings and energy counters of one poll
+interface ComponentsReading {
+  channels: any;
+  timestamp: Date;
+}
+
+// A flow's interval is hardware-sourced if its counter was read during the interval
+function energySourceSince(hardwareUpdateTime: Date | undefined, since: Date): EnergySource {
+  return hardwareUpdateTime && hardwareUpdateTime >= since ? 'hardware' : 'integrated';
+}
+
+// A reading rounded to the given decimal places, or null if the device didn't report it
+function roundedReading(value: unknown, decimals: number): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  const scale = 10 ** decimals;
+  return Math.round(value * scale) / scale;
+}
+
+// The grid meter's entry among a GetMeterRealtimeData response's meters
+function findGridMeter(meters: Record<string, any>): any {
+  return Object.values(meters).find(meter => meter.Meter_Location_Current === METER_LOCATION_GRID);
+}
+
+// Describe each meter in a GetMeterRealtimeData response, keyed by its DeviceId
+function parseMetersInfo(meters: Record<string, any>): MeterInfo[] {
+  return Object.entries(meters).map(([deviceId, meter]) => {
+    const locationCode = meter.Meter_Location_Current;
+    
+    // Check for Continental Control Systems meters
+    let manufacturer = meter.Details?.Manufacturer || 'Unknown';
+    const model = meter.Details?.Model || meter.Details?.Type || 'Unknown';
+    
+    if (model && model.startsWith('CCS')) {
+      manufacturer = 'Continental Control Systems';
+    }
+    
+    return {
+      manufacturer,
+      model,
+      serial: meter.Details?.Serial?.trim(),
+      location: describeMeterLocation(locationCode),
+      locationCode,
+      deviceId,
+      enabled: meter.Enable === 1 || meter.Enabled === 1
+    };
+  });
+}
+
+// Pull the per-phase readings out of a GetMeterRealtimeData meter entry
+function parseMeterData(meter: any, timestamp: Date): MeterData {
+  const phases: MeterData['phases'] = {};
+  METER_PHASES.forEach((phase, index) => {
+    const number = index + 1;
+    const phaseData: MeterPhaseData = {
+      voltageV: roundedReading(meter[`Voltage_AC_Phase_${number}`], 1),
+      currentA: roundedReading(meter[`Current_AC_Phase_${number}`], 2),
+      powerW: roundedReading(meter[`PowerReal_P_Phase_${number}`], 0),
+      powerFactor: roundedReading(meter[`PowerFactor_Phase_${number}`], 3)
+    };
+    if (Object.values(phaseData).some(value => value !== null)) {
+      phases[phase] = phaseData;
+    }
+  });
+  
+  return {
+    phases,
+    frequencyHz: roundedReading(meter.Frequency_Phase_Average, 2),
+    powerFactor: roundedReading(meter.PowerFactor_Sum, 3),
+    timestamp
+  };
+}
+
+// Tracker readings from the components API's PV_VOLTAGE/CURRENT/POWERACTIVE_MEAN_0x_F32 channels
+function parseComponentTrackers(channels: any): Record<string, MpptTrackerData> {
+  const trackers: Record<string, MpptTrackerData> = {};
+  for (const key of Object.keys(channels)) {
+    const match = /^PV_POWERACTIVE_MEAN_(\d+)_F32$/.exec(key);
+    if (match) {
+      trackers[String(Number(match[1]))] = {
+        voltageV: roundedReading(channels[`PV_VOLTAGE_MEAN_${match[1]}_F32`], 1),
+        currentA: roundedReading(channels[`PV_CURRENT_MEAN_${match[1]}_F32`], 2),
+        powerW: roundedReading(channels[key], 0)
+      };
+    }
+  }
+  return trackers;
+}
+
+// Tracker readings from CommonInverterData's UDC/IDC, UDC_2/IDC_2, ... - power is voltage times current
+function parseCommonInverterTrackers(data: any): Record<string, MpptTrackerData> {
+  const trackers: Record<string, MpptTrackerData> = {};
+  for (let tracker = 1; ; tracker++) {
+    const suffix = tracker === 1 ? '' : `_${tracker}`;
+    if (!data?.[`UDC${suffix}`]) {
+      break;
+    }
+    const voltageV = roundedReading(data[`UDC${suffix}`]?.Value, 1);
+    const currentA = roundedReading(data[`IDC${suffix}`]?.Value, 2);
+    trackers[String(tracker)] = {
+      voltageV,
+      currentA,
+      powerW: voltageV !== null && currentA !== null ? Math.round(voltageV * currentA) : null
+    };
+  }
+  return trackers;
+}
+
+// The storage controller from a GetStorageRealtimeData response (Data["0"].Controller, or Data.Controller[0] on older firmware)
+function findStorageController(data: any): any {
+  return data?.Body?.Data?.['0']?.Controller ?? data?.Body?.Data?.Controller?.[0];
+}
+
 export class Inverter {
   private ip: string;
   private serialNumber: string;
@@ -45,13 +272,30 @@ export class Inverter {
   private solarIntegrator: EnergyIntegrator;
   private batteryIntegrator: BidirectionalEnergyIntegrator | null = null;
   private gridIntegrator: BidirectionalEnergyIntegrator | null = null;
+  private solarCounterSource?: SolarCounterSource;  // Settled by the first counter read
   
   // Latest data
   private lastPowerData?: PowerData;
+  protected lastMeterData?: MeterData;
+  protected lastMpptData?: MpptData;
+  protected lastBatteryData?: BatteryData;
+  private batteryHealth = new BatteryHealthEstimator();
   private lastApiResponse?: any;
-  private lastDataFetch?: Date;
+  protected lastDataFetch?: Date;
+  private lastCounterFetch?: Date;
   private faultCode?: string | number;
   private faultTimestamp?: Date;
+  private absentSince?: Date;  // Set when a scan didn't find this inverter
+  private consecutiveFailures: number = 0;  // Power flow polls in a row that got no answer
+  private lastFailureReason?: PollFailureReason;  // Why the latest power flow poll failed, if it did
+  private clockSkewSamples: number[] = [];  // Head.Timestamp minus request midpoint, ms
+  private componentsApi: 'unknown' | 'available' | 'unavailable' = 'unknown';  // Only Gen24s have one
+  private componentsMissing: number = 0;  // Answers in a row saying there's no components API
+  private componentsAttempt?: { startedAt: Date; reading: Promise<ComponentsReading | null> };  // Latest request, in flight or not
+  private metersAttempt?: { startedAt: Date; reading: Promise<MetersReading | null> };  // Latest GetMeterRealtimeData request
+  private mpptFailing: boolean = false;  // So a run of failed MPPT reads is only logged once
+  
+  protected clock: Clock;
   
   constructor(
     ip: string,
@@ -60,8 +304,10 @@ export class Inverter {
     info: InverterInfo,
     hostname?: string,
     battery?: BatteryInfo,
-    meter?: MeterInfo
+    meter?: MeterInfo,
+    clock: Clock = systemClock
   ) {
+    this.clock = clock;
     this.ip = ip;
     this.serialNumber = serialNumber;
     this.isMaster = isMaster;
@@ -93,32 +339,178 @@ export class Inverter {
   public getBattery(): BatteryInfo | undefined { return this.battery; }
   public getMeter(): MeterInfo | undefined { return this.meter; }
   public getLastPowerData(): PowerData | undefined { return this.lastPowerData; }
+  public getLastMeterData(): MeterData | undefined { return this.lastMeterData; }
+  public getLastMpptData(): MpptData | undefined { return this.lastMpptData; }
+  public getLastBatteryData(): BatteryData | undefined { return this.lastBatteryData; }
   public getLastDataFetch(): Date | undefined { return this.lastDataFetch; }
+  public getLastCounterFetch(): Date | undefined { return this.lastCounterFetch; }
   public getFaultCode(): string | number | undefined { return this.faultCode; }
   public getFaultTimestamp(): Date | undefined { return this.faultTimestamp; }
+  public getAbsentSince(): Date | undefined { return this.absentSince; }
+  public getConsecutiveFailures(): number { return this.consecutiveFailures; }
+  public getLastFailureReason(): PollFailureReason | undefined { return this.lastFailureReason; }
+  
+  public getClockSkew(): ClockSkewData | null {
+    if (this.clockSkewSamples.length === 0) {
+      return null;
+    }
+    const sorted = [...this.clockSkewSamples].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const skewMs = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    return {
+      skewMs: Math.round(skewMs),
+      samples: sorted.length,
+      trusted: Math.abs(skewMs) <= MAX_TRUSTED_CLOCK_SKEW_MS
+    };
+  }
+  
+  /**
+   * When a reading was taken: the inverter's own Head.Timestamp while its clock agrees with ours,
+   * otherwise the midpoint of the request. Each response also feeds the clock skew estimate.
+   */
+  protected sampleTime(headTimestamp: unknown, requestStart: Date, requestEnd: Date): Date {
+    const midpoint = new Date((requestStart.getTime() + requestEnd.getTime()) / 2);
+    const inverterTime = typeof headTimestamp === 'string' ? new Date(headTimestamp) : null;
+    if (!inverterTime || isNaN(inverterTime.getTime())) {
+      return midpoint;
+    }
+    
+    const wasTrusted = this.getClockSkew()?.trusted;
+    const sampleSkewMs = inverterTime.getTime() - midpoint.getTime();
+    this.clockSkewSamples.push(sampleSkewMs);
+    if (this.clockSkewSamples.length > CLOCK_SKEW_SAMPLES) {
+      this.clockSkewSamples.shift();
+    }
+    
+    const skew = this.getClockSkew()!;
+    if (wasTrusted !== undefined && skew.trusted !== wasTrusted) {
+      if (skew.trusted) {
+        console.log(`Clock on ${this.getDisplayName()} (${this.ip}) is back within ${MAX_TRUSTED_CLOCK_SKEW_MS / 1000}s of ours - using its timestamps again`);
+      } else {
+        console.warn(`Clock on ${this.getDisplayName()} (${this.ip}) is ${(skew.skewMs / 1000).toFixed(1)}s off ours - timing samples by request instead`);
+      }
+    }
+    
+    // One odd timestamp doesn't move the median, but shouldn't be used either
+    return skew.trusted && Math.abs(sampleSkewMs) <= MAX_TRUSTED_CLOCK_SKEW_MS ? inverterTime : midpoint;
+  }
+  
+  // Point at a new address, e.g. after a DHCP change - energy totals and fault state carry on
+  public updateAddress(ip: string, hostname?: string): void {
+    this.ip = ip;
+    if (hostname) {
+      this.hostname = hostname;
+    }
+  }
+  
+  // Follow a change in the inverter's own meter, found by a rescan
+  public updateMeter(meter: MeterInfo | undefined): void {
+    this.meter = meter;
+  }
+  
+  public markAbsent(): void {
+    this.absentSince ??= this.clock();
+  }
+  
+  public markPresent(): void {
+    this.absentSince = undefined;
+  }
   
   // Energy counters
   public getEnergyData(): EnergyData {
     return {
-      solarWh: this.solarIntegrator.getTotalKwh() * 1000,
-      batteryInWh: this.batteryIntegrator ? this.batteryIntegrator.getNegativeKwh() * 1000 : 0,
-      batteryOutWh: this.batteryIntegrator ? this.batteryIntegrator.getPositiveKwh() * 1000 : 0,
-      gridInWh: this.gridIntegrator ? this.gridIntegrator.getPositiveKwh() * 1000 : 0,
-      gridOutWh: this.gridIntegrator ? this.gridIntegrator.getNegativeKwh() * 1000 : 0
+      // Hardware registers where available, integration otherwise
+      solarWh: this.solarIntegrator.getReconciledWh(),
+      batteryInWh: this.batteryIntegrator ? this.batteryIntegrator.getNegativeReconciledWh() : 0,
+      batteryOutWh: this.batteryIntegrator ? this.batteryIntegrator.getPositiveReconciledWh() : 0,
+      gridInWh: this.gridIntegrator ? this.gridIntegrator.getPositiveReconciledWh() : 0,
+      gridOutWh: this.gridIntegrator ? this.gridIntegrator.getNegativeReconciledWh() : 0
+    };
+  }
+  
+  // Integration vs hardware counter drift per flow
+  public getEnergyDrift(): EnergyDriftData {
+    const drift: EnergyDriftData = {};
+    const solar = this.solarIntegrator.getDrift();
+    const batteryIn = this.batteryIntegrator?.getNegativeDrift();
+    const batteryOut = this.batteryIntegrator?.getPositiveDrift();
+    const gridIn = this.gridIntegrator?.getPositiveDrift();
+    const gridOut = this.gridIntegrator?.getNegativeDrift();
+    if (solar) drift.solar = solar;
+    if (batteryIn) drift.batteryIn = batteryIn;
+    if (batteryOut) drift.batteryOut = batteryOut;
+    if (gridIn) drift.gridIn = gridIn;
+    if (gridOut) drift.gridOut = gridOut;
+    return drift;
+  }
+  
+  // Which source the energy totals came from since the given time (null for flows this inverter doesn't have)
+  public getEnergySources(since: Date): EnergySources {
+    return {
+      solar: energySourceSince(this.solarIntegrator.getHardwareUpdateTime(), since),
+      battery: this.batteryIntegrator ? energySourceSince(this.batteryIntegrator.getHardwareUpdateTime(), since) : null,
+      grid: this.gridIntegrator ? energySourceSince(this.gridIntegrator.getHardwareUpdateTime(), since) : null
+    };
+  }
+  
+  // Get integrator state for checkpointing
+  public getEnergyState(): InverterEnergyState {
+    return {
+      isMaster: this.isMaster,
+      solar: this.solarIntegrator.getState(),
+      battery: this.batteryIntegrator?.getState(),
+      grid: this.gridIntegrator?.getState(),
+      solarCounterSource: this.solarCounterSource,
+      batteryHealth: this.batteryIntegrator ? this.batteryHealth.getState() : undefined
+    };
+  }
+  
+  // Restore integrator totals from a checkpoint
+  public restoreEnergyState(state: InverterEnergyState): void {
+    this.solarIntegrator.restoreState(state.solar);
+    this.solarCounterSource = state.solarCounterSource;
+    if (this.batteryIntegrator && state.battery) {
+      this.batteryIntegrator.restoreState(state.battery);
+      if (state.batteryHealth) {
+        this.batteryHealth.restoreState(state.batteryHealth);
+      }
+    }
+    if (this.gridIntegrator && state.grid) {
+      this.gridIntegrator.restoreState(state.grid);
+    }
+  }
+  
+  // Energy totals held in a checkpoint
+  public static energyDataFromState(state: InverterEnergyState): EnergyData {
+    const reconciled = (integratorState?: EnergyIntegratorState): number => {
+      if (!integratorState) return 0;
+      const integrator = new EnergyIntegrator();
+      integrator.restoreState(integratorState);
+      return integrator.getReconciledWh();
+    };
+    
+    return {
+      solarWh: reconciled(state.solar),
+      batteryInWh: reconciled(state.battery?.negative),
+      batteryOutWh: reconciled(state.battery?.positive),
+      gridInWh: reconciled(state.grid?.positive),
+      gridOutWh: reconciled(state.grid?.negative)
     };
   }
   
   // Fetch power flow data from the inverter
   public async fetchPowerFlow(): Promise<PowerData | null> {
     try {
+      const requestStart = this.clock();
       const response = await axios.get(`http://${this.ip}/solar_api/v1/GetPowerFlowRealtimeData.fcgi`, {
         timeout: 5000
       });
       
       this.lastApiResponse = response.data;
-      this.lastDataFetch = new Date();
+      this.lastDataFetch = this.clock();
       
       const data = response.data;
+      const timestamp = this.sampleTime(data?.Head?.Timestamp, requestStart, this.lastDataFetch);
       if (data?.Body?.Data?.Site) {
         const site = data.Body.Data.Site;
         const inverters = data.Body.Data.Inverters;
@@ -126,44 +518,21 @@ export class Inverter {
         
         // Extract power data
         const powerData: PowerData = {
-          timestamp: new Date(),
+          timestamp,
           solarW: site.P_PV !== null && site.P_PV !== undefined ? Math.round(site.P_PV) : undefined,
           batteryW: site.P_Akku !== null && site.P_Akku !== undefined ? Math.round(site.P_Akku) : undefined,
           gridW: site.P_Grid !== null && site.P_Grid !== undefined ? Math.round(site.P_Grid) : undefined,
           batterySoC: firstInverter?.SOC !== null && firstInverter?.SOC !== undefined ? firstInverter.SOC : undefined
         };
         
-        this.lastPowerData = powerData;
-        
-        // Update integrators
-        const now = new Date();
-        if (this.solarIntegrator && powerData.solarW !== undefined) {
-          this.solarIntegrator.updatePower(powerData.solarW, now);
-        }
-        
-        if (this.batteryIntegrator && powerData.batteryW !== undefined) {
-          this.batteryIntegrator.updatePower(powerData.batteryW, now);
-        }
-        
-        if (this.gridIntegrator && powerData.gridW !== undefined) {
-          this.gridIntegrator.updatePower(powerData.gridW, now);
-        }
-        
-        // Check for faults
-        const statusCode = firstInverter?.DeviceStatus?.StatusCode;
-        if (statusCode && statusCode !== 7) {
-          this.faultCode = statusCode;
-          this.faultTimestamp = new Date();
-        } else {
-          this.faultCode = undefined;
-          this.faultTimestamp = undefined;
-        }
-        
+        this.recordPowerData(powerData, firstInverter?.DeviceStatus?.StatusCode);
         return powerData;
       }
       
+      this.recordFailure('no-data');
       return null;
     } catch (error: any) {
+      this.recordFailure(error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'error');
       // Extract just the error code for cleaner logging
       if (error.code === 'ECONNABORTED') {
         console.error(`Failed to fetch power flow from ${this.ip}: timeout of 5000ms exceeded: ${error.code}`);
@@ -176,6 +545,304 @@ export class Inverter {
     }
   }
   
+  // Count a poll that got no usable answer
+  protected recordFailure(reason: PollFailureReason): void {
+    this.consecutiveFailures++;
+    this.lastFailureReason = reason;
+  }
+  
+  // Store a power reading, feed it to the integrators and track faults
+  protected recordPowerData(powerData: PowerData, statusCode?: number): void {
+    this.lastPowerData = powerData;
+    this.consecutiveFailures = 0;
+    this.lastFailureReason = undefined;
+    
+    // Update integrators
+    const now = powerData.timestamp;
+    if (this.solarIntegrator && powerData.solarW !== undefined) {
+      this.solarIntegrator.updatePower(powerData.solarW, now);
+    }
+    
+    if (this.batteryIntegrator && powerData.batteryW !== undefined) {
+      this.batteryIntegrator.updatePower(powerData.batteryW, now);
+    }
+    
+    if (this.gridIntegrator && powerData.gridW !== undefined) {
+      this.gridIntegrator.updatePower(powerData.gridW, now);
+    }
+    
+    // Check for faults
+    if (statusCode && statusCode !== 7) {
+      this.faultCode = statusCode;
+      this.faultTimestamp = now;
+    } else {
+      this.faultCode = undefined;
+      this.faultTimestamp = undefined;
+    }
+  }
+  
+  // Fetch cumulative energy registers and feed them into the integrators
+  public async fetchEnergyCounters(): Promise<void> {
+    this.lastCounterFetch = this.clock();
+    
+    // Solar and battery from the Gen24 components API, falling back to the inverter's yield counter. Once one has
+    // answered the other is never used for solar - a switch would count the DC/AC gap as energy, or as a reset.
+    if (this.solarCounterSource !== 'inverter-yield' && await this.fetchComponentCounters()) {
+      this.solarCounterSource = 'components';
+    }
+    if (this.solarCounterSource !== 'components' && !this.batteryIntegrator && await this.fetchInverterYieldCounter()) {
+      this.solarCounterSource = 'inverter-yield';
+    }
+    
+    // Grid import/export from the revenue-grade meter (master only)
+    if (this.gridIntegrator && this.meter) {
+      await this.fetchMeterCounters();
+    }
+  }
+  
+  /**
+   * Channels from the Gen24 components API. A request made since the latest power flow reading is shared, in flight
+   * or answered, so each poll asks once however many readings come from it. Once an inverter has answered a few
+   * times that it has no components API it isn't asked again, and readings fall back to the Solar API.
+   */
+  private fetchComponents(): Promise<ComponentsReading | null> {
+    if (this.componentsApi === 'unavailable') {
+      return Promise.resolve(null);
+    }
+    if (this.componentsAttempt && this.lastDataFetch && this.componentsAttempt.startedAt >= this.lastDataFetch) {
+      return this.componentsAttempt.reading;
+    }
+    
+    const startedAt = this.clock();
+    const reading = this.requestComponents(startedAt);
+    this.componentsAttempt = { startedAt, reading };
+    return reading;
+  }
+  
+  private async requestComponents(startedAt: Date): Promise<ComponentsReading | null> {
+    let response;
+    try {
+      response = await axios.get(`http://${this.ip}/api/components/inverter/readable`, {
+        timeout: 2000
+      });
+    } catch (error: any) {
+      // A 404 says there's no components API; server errors and timeouts might just be blips
+      if (error.response?.status === 404) {
+        this.recordComponentsMissing();
+      }
+      return null;
+    }
+    
+    const channels = response.data?.Body?.Data?.['0']?.channels;
+    if (!channels) {
+      this.recordComponentsMissing();
+      return null;
+    }
+    this.componentsApi = 'available';
+    this.componentsMissing = 0;
+    return { channels, timestamp: this.sampleTime(response.data?.Head?.Timestamp, startedAt, this.clock()) };
+  }
+  
+  private recordComponentsMissing(): void {
+    if (this.componentsApi === 'unknown' && ++this.componentsMissing >= COMPONENTS_UNAVAILABLE_AFTER) {
+      console.log(`No components API on ${this.getDisplayName()} (${this.ip}) - using the Solar API for string and energy readings`);
+      this.componentsApi = 'unavailable';
+    }
+  }
+  
+  // Read PV_ENERGYACTIVE_ACTIVE_SUM_0x and BAT_ENERGYACTIVE_ACTIVECHARGE/DISCHARGE_SUM_01 from the components API
+  private async fetchComponentCounters(): Promise<boolean> {
+    const channels = (await this.fetchComponents())?.channels;
+    if (!channels) {
+      return false;
+    }
+    
+    // One register per MPPT tracker - the sum is the DC yield that P_PV is integrated against
+    const pvKeys = Object.keys(channels).filter(key => /^PV_ENERGYACTIVE_ACTIVE_SUM_\d+_U64$/.test(key));
+    const pvWs = pvKeys.reduce((sum, key) => sum + (channels[key] ?? 0), 0);
+    if (pvKeys.length === 0 || pvWs <= 0) {
+      return false;
+    }
+    this.solarIntegrator.updateHardwareCounter(pvWs / WS_PER_WH, this.clock());
+    
+    // Batteries that don't report their counters read 0 - keep integrating rather than freezing the totals
+    const chargeWs = channels.BAT_ENERGYACTIVE_ACTIVECHARGE_SUM_01_U64;
+    const dischargeWs = channels.BAT_ENERGYACTIVE_ACTIVEDISCHARGE_SUM_01_U64;
+    if (this.batteryIntegrator && chargeWs > 0 && dischargeWs > 0) {
+      // Positive battery power is discharge, negative is charge
+      this.batteryIntegrator.updateHardwareCounters(dischargeWs / WS_PER_WH, chargeWs / WS_PER_WH, this.clock());
+    }
+    
+    return true;
+  }
+  
+  // Read TOTAL_ENERGY (Wh) from GetInverterRealtimeData
+  // This is AC yield, so it only stands in for solar on inverters without a battery
+  private async fetchInverterYieldCounter(): Promise<boolean> {
+    try {
+      const response = await axios.get(`http://${this.ip}/solar_api/v1/GetInverterRealtimeData.cgi?Scope=Device&DeviceId=1&DataCollection=CommonInverterData`, {
+        timeout: 2000
+      });
+      
+      const totalWh = response.data?.Body?.Data?.TOTAL_ENERGY?.Value;
+      if (typeof totalWh === 'number' && totalWh > 0) {
+        this.solarIntegrator.updateHardwareCounter(totalWh, this.clock());
+        return true;
+      }
+    } catch (error: any) {
+      console.error(`Failed to fetch inverter energy counter from ${this.ip}: ${error.message || error}`);
+    }
+    return false;
+  }
+  
+  // Read DC voltage, current and power per MPPT tracker, from the components API or else CommonInverterData
+  public async fetchMpptData(): Promise<MpptData | null> {
+    const components = await this.fetchComponents();
+    const componentTrackers = components ? parseComponentTrackers(components.channels) : {};
+    if (components && Object.keys(componentTrackers).length > 0) {
+      this.lastMpptData = { trackers: componentTrackers, timestamp: components.timestamp };
+      this.mpptRecovered();
+      return this.lastMpptData;
+    }
+    
+    try {
+      const requestStart = this.clock();
+      const response = await axios.get(`http://${this.ip}/solar_api/v1/GetInverterRealtimeData.cgi?Scope=Device&DeviceId=1&DataCollection=CommonInverterData`, {
+        timeout: 2000
+      });
+      
+      const trackers = parseCommonInverterTrackers(response.data?.Body?.Data);
+      this.lastMpptData = Object.keys(trackers).length > 0
+        ? { trackers, timestamp: this.sampleTime(response.data?.Head?.Timestamp, requestStart, this.clock()) }
+        : undefined;
+      this.mpptRecovered();
+    } catch (error: any) {
+      this.lastMpptData = undefined;
+      // Polled every few seconds, so only the first failure of a run is logged
+      if (!this.mpptFailing) {
+        this.mpptFailing = true;
+        console.error(`Failed to fetch MPPT data from ${this.ip}: ${error.message || error} (not logging again until it recovers)`);
+      }
+    }
+    return this.lastMpptData ?? null;
+  }
+  
+  private mpptRecovered(): void {
+    if (this.mpptFailing) {
+      this.mpptFailing = false;
+      console.log(`Fetching MPPT data from ${this.ip} again`);
+    }
+  }
+  
+  // Read voltage, current, temperature, charge and capacity from the battery, refreshing its details as we go
+  public async fetchBatteryData(): Promise<BatteryData | null> {
+    try {
+      const requestStart = this.clock();
+      const response = await axios.get(`http://${this.ip}/solar_api/v1/GetStorageRealtimeData.cgi`, {
+        timeout: 2000
+      });
+      
+      const controller = findStorageController(response.data);
+      if (!controller) {
+        this.lastBatteryData = undefined;
+        return null;
+      }
+      
+      const timestamp = this.sampleTime(response.data?.Head?.Timestamp, requestStart, this.clock());
+      const capacityWh = roundedReading(controller.Capacity_Maximum, 0);
+      const designedCapacityWh = roundedReading(controller.DesignedCapacity, 0);
+      const socPercent = roundedReading(controller.StateOfCharge_Relative, 1);
+      
+      if (socPercent !== null && this.batteryIntegrator) {
+        this.batteryHealth.update(
+          socPercent,
+          this.batteryIntegrator.getNegativeReconciledWh(),
+          this.batteryIntegrator.getPositiveReconciledWh(),
+          designedCapacityWh
+        );
+      }
+      
+      if (this.battery) {
+        this.battery.capacityWh = capacityWh ?? this.battery.capacityWh;
+        this.battery.enabled = controller.Enable === 1;
+      }
+      
+      this.lastBatteryData = {
+        voltageV: roundedReading(controller.Voltage_DC, 1),
+        currentA: roundedReading(controller.Current_DC, 2),
+        temperatureC: roundedReading(controller.Temperature_Cell, 1),
+        socPercent,
+        capacityWh,
+        designedCapacityWh,
+        reportedHealthPercent: capacityWh !== null && designedCapacityWh ? Math.round((capacityWh / designedCapacityWh) * 1000) / 10 : null,
+        cellStatus: roundedReading(controller.Status_BatteryCell, 0),
+        health: this.batteryHealth.getEstimate(designedCapacityWh ?? capacityWh),
+        timestamp
+      };
+      return this.lastBatteryData;
+    } catch (error: any) {
+      this.lastBatteryData = undefined;
+      console.error(`Failed to fetch battery data from ${this.ip}: ${error.message || error}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Every meter's entry from GetMeterRealtimeData. A request made since the latest power flow reading is shared,
+   * in flight or answered, so the grid meter's readings and counters and the other meters on the bus all come
+   * from one request per poll.
+   */
+  public fetchMeters(): Promise<MetersReading | null> {
+    if (this.metersAttempt && this.lastDataFetch && this.metersAttempt.startedAt >= this.lastDataFetch) {
+      return this.metersAttempt.reading;
+    }
+    
+    const startedAt = this.clock();
+    const reading = axios.get(`http://${this.ip}/solar_api/v1/GetMeterRealtimeData.cgi?Scope=System`, {
+      timeout: 2000
+    }).then(response => ({
+      meters: response.data?.Body?.Data ?? {},
+      timestamp: this.sampleTime(response.data?.Head?.Timestamp, startedAt, this.clock())
+    }), (error: any) => {
+      console.error(`Failed to fetch meter data from ${this.ip}: ${error.message || error}`);
+      return null;
+    });
+    this.metersAttempt = { startedAt, reading };
+    return reading;
+  }
+  
+  // Every meter the inverter reports, from the same request as the poll's meter readings
+  public async fetchReportedMeters(): Promise<MeterInfo[] | null> {
+    const reading = await this.fetchMeters();
+    return reading ? parseMetersInfo(reading.meters) : null;
+  }
+  
+  // Read per-phase voltage, current, power and power factor, plus frequency, from the grid meter
+  public async fetchMeterData(): Promise<MeterData | null> {
+    const reading = await this.fetchMeters();
+    const gridMeter = reading && findGridMeter(reading.meters);
+    // Stale phase readings are worse than none
+    this.lastMeterData = gridMeter ? parseMeterData(gridMeter, reading.timestamp) : undefined;
+    return this.lastMeterData ?? null;
+  }
+  
+  // Read EnergyReal_WAC_Sum_Consumed/Produced from the grid meter
+  private async fetchMeterCounters(): Promise<void> {
+    // Integration carries on filling any gap until the next successful reading
+    const reading = await this.fetchMeters();
+    const gridMeter = reading && findGridMeter(reading.meters);
+    if (!gridMeter) {
+      return;
+    }
+    
+    const consumedWh = gridMeter.EnergyReal_WAC_Sum_Consumed;
+    const producedWh = gridMeter.EnergyReal_WAC_Sum_Produced;
+    if (typeof consumedWh === 'number' && typeof producedWh === 'number') {
+      // Consumed = imported from the grid, produced = exported to the grid
+      this.gridIntegrator!.updateHardwareCounters(consumedWh, producedWh, this.clock());
+    }
+  }
+  
   // Fetch device information (battery, inverter, meter)
   public async fetchDeviceInfo(): Promise<void> {
     // These could be fetched periodically or on demand
@@ -192,6 +859,7 @@ export class Inverter {
     this.solarIntegrator.reset();
     this.batteryIntegrator?.reset();
     this.gridIntegrator?.reset();
+    this.batteryHealth.resetAnchor();
   }
   
   // Static methods to fetch device information during discovery
@@ -201,8 +869,7 @@ export class Inverter {
         timeout: 2000
       });
       
-      // Check for controller in Data["0"].Controller structure (newer API)
-      const controller = response.data?.Body?.Data?.["0"]?.Controller;
+      const controller = findStorageController(response.data);
       if (controller) {
         return {
           manufacturer: controller.Details?.Manufacturer,
@@ -212,18 +879,6 @@ export class Inverter {
           enabled: controller.Enable === 1
         };
       }
-      
-      // Fallback to check for controller in Data.Controller[0] structure (older API)
-      const altController = response.data?.Body?.Data?.Controller?.[0];
-      if (altController) {
-        return {
-          manufacturer: altController.Details?.Manufacturer,
-          model: altController.Details?.Model,
-          serial: altController.Details?.Serial?.trim(),
-          capacityWh: altController.Capacity_Maximum,
-          enabled: altController.Enable === 1
-        };
-      }
     } catch (error: any) {
       // No battery or error fetching battery info - this is normal for devices without batteries
     }
@@ -263,61 +918,17 @@ export class Inverter {
     return undefined;
   }
 
-  public static async fetchMeterInfo(ip: string): Promise<MeterInfo | undefined> {
+  // Every meter the inverter reports - the grid meter and any subload, EV charger or generator meters.
+  // Null if the inverter didn't answer, so a failed read isn't mistaken for the meters having gone.
+  public static async fetchMetersInfo(ip: string): Promise<MeterInfo[] | null> {
     try {
       const response = await axios.get(`http://${ip}/solar_api/v1/GetMeterRealtimeData.cgi?Scope=System`, {
         timeout: 2000
       });
       
-      const meterData = response.data?.Body?.Data;
-      if (meterData && Object.keys(meterData).length > 0) {
-        // Get the first meter
-        const firstMeter = Object.values(meterData)[0] as any;
-        if (firstMeter) {
-          // Translate meter location codes according to Fronius documentation
-          const locationCode = firstMeter.Meter_Location_Current;
-          let location = 'Unknown';
-          
-          if (locationCode === 0) {
-            location = 'Grid (feed-in point)';
-          } else if (locationCode === 1) {
-            location = 'Load (consumption)';
-          } else if (locationCode === 3) {
-            location = 'External generator';
-          } else if (locationCode >= 256 && locationCode <= 511) {
-            // Subload range
-            const subloadNumber = locationCode - 255;
-            location = `Subload #${subloadNumber}`;
-          } else if (locationCode >= 512 && locationCode <= 768) {
-            // EV Charger range
-            const evNumber = locationCode - 511;
-            location = `EV Charger #${evNumber}`;
-          } else if (locationCode >= 769 && locationCode <= 1023) {
-            // Storage range
-            const storageNumber = locationCode - 768;
-            location = `Storage #${storageNumber}`;
-          }
-          
-          // Check for Continental Control Systems meters
-          let manufacturer = firstMeter.Details?.Manufacturer || 'Unknown';
-          const model = firstMeter.Details?.Model || firstMeter.Details?.Type || 'Unknown';
-          
-          if (model && model.startsWith('CCS')) {
-            manufacturer = 'Continental Control Systems';
-          }
-          
-          return {
-            manufacturer,
-            model,
-            serial: firstMeter.Details?.Serial?.trim(),
-            location,
-            enabled: firstMeter.Enable === 1 || firstMeter.Enabled === 1
-          };
-        }
-      }
+      return parseMetersInfo(response.data?.Body?.Data ?? {});
     } catch (error) {
-      // No meter or error fetching meter info
+      return null;
     }
-    return undefined;
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { FroniusMinutely } from '@/types/fronius';
+import { LiveOneCredentials } from './inverter-config';
 
 interface LiveOnePushConfig {
   apiKey: string | null;
@@ -11,16 +12,38 @@ interface LiveOnePushConfig {
 export class LiveOnePushService {
   private config: LiveOnePushConfig;
   private lastPushTimestamp?: Date;
+  private pushes: number = 0;        // Reports the server accepted
+  private pushFailures: number = 0;  // Reports that didn't get through (duplicates aren't counted as either)
   private initialized: boolean = false;
   
-  constructor() {
+  /**
+   * @param credentials From a site's entry in the config file (already validated), null if the site has none,
+   *                    or omitted to read the LIVEONE_* environment variables
+   */
+  constructor(credentials?: LiveOneCredentials | null) {
     // Set initial config to disabled until initialization completes
     this.config = {
       apiKey: null,
       apiUrl: null,
       enabled: false
     };
-    this.initialize();
+    if (credentials === undefined) {
+      this.initialize();
+    } else {
+      this.useCredentials(credentials);
+    }
+  }
+  
+  private useCredentials(credentials: LiveOneCredentials | null) {
+    if (credentials) {
+      this.config = {
+        apiKey: credentials.apiKey,
+        apiUrl: `${credentials.server}/api/push/fronius`,
+        enabled: credentials.enabled
+      };
+      console.log(this.config.enabled ? `[LiveOne] Push service initialized, server: ${credentials.server}` : '[LiveOne] Push service configured but not enabled');
+    }
+    this.initialized = true;
   }
   
   private async initialize() {
@@ -108,9 +131,10 @@ export class LiveOnePushService {
     
     try {
       // FroniusMinutely already has all fields in the right format
-      // Just add API key and action
+      // Just drop local-only fields and add API key and action
+      const { energySources, subloadW, subloadWhInterval, evW, evWhInterval, ...report } = data;
       const payload = {
-        ...data,  // Spread all FroniusMinutely fields
+        ...report,  // Spread all FroniusMinutely fields
         apiKey: this.config.apiKey,
         action: 'store'
       };
@@ -123,6 +147,7 @@ export class LiveOnePushService {
       });
       
       if (response.data.success) {
+        this.pushes++;
         this.lastPushTimestamp = new Date(data.timestamp);
         
         // Create condensed log with key metrics
@@ -140,10 +165,14 @@ export class LiveOnePushService {
         
         console.log(`${data.timestamp} ${data.sequence} pushed to ${hostname}: solar: ${solarKw}kW, battery: ${batteryDirection}${batteryKw}kW${soc}, grid: ${gridKw}kW${gridDirection}, load: ${loadKw}kW`);
       } else {
+        this.pushFailures++;
         console.error('[LiveOne] Push failed:', response.data);
       }
       
     } catch (error: any) {
+      if (!(axios.isAxiosError(error) && error.response?.status === 409)) {
+        this.pushFailures++;
+      }
       if (axios.isAxiosError(error)) {
         if (error.response) {
           const status = error.response.status;
@@ -183,11 +212,13 @@ export class LiveOnePushService {
     return this.lastPushTimestamp;
   }
   
-  public getStatus(): { enabled: boolean; configured: boolean; lastPush?: Date } {
+  public getStatus(): { enabled: boolean; configured: boolean; lastPush?: Date; pushes: number; failures: number } {
     return {
       enabled: this.config.enabled,
       configured: !!this.config.apiKey,
-      lastPush: this.lastPushTimestamp
+      lastPush: this.lastPushTimestamp,
+      pushes: this.pushes,
+      failures: this.pushFailures
     };
   }
   
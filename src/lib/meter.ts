@@ -0,0 +1,117 @@
+import { BidirectionalEnergyIntegrator, BidirectionalEnergyIntegratorState } from './energy-integrator';
+import { MeterInfo, MeterCategory } from '@/types/device';
+import { Clock, systemClock } from './clock';
+
+export interface MeterPowerData {
+  powerW: number;      // Positive = power flowing into whatever the meter measures (e.g. the EV charging)
+  timestamp: Date;
+}
+
+// A GetMeterRealtimeData?Scope=System response: every meter on an inverter's bus, by DeviceId
+export interface MetersReading {
+  meters: Record<string, any>;
+  timestamp: Date;
+}
+
+export interface MeterEnergyData {
+  inWh: number;        // EnergyReal_WAC_Sum_Consumed where reported
+  outWh: number;       // EnergyReal_WAC_Sum_Produced where reported
+}
+
+// Where a meter sits, from Meter_Location_Current
+export function describeMeterLocation(locationCode: number): string {
+  if (locationCode === 0) {
+    return 'Grid (feed-in point)';
+  } else if (locationCode === 1) {
+    return 'Load (consumption)';
+  } else if (locationCode === 3) {
+    return 'External generator';
+  } else if (locationCode >= 256 && locationCode <= 511) {
+    // Subload range
+    return `Subload #${locationCode - 255}`;
+  } else if (locationCode >= 512 && locationCode <= 768) {
+    // EV Charger range
+    return `EV Charger #${locationCode - 511}`;
+  } else if (locationCode >= 769 && locationCode <= 1023) {
+    // Storage range
+    return `Storage #${locationCode - 768}`;
+  }
+  return 'Unknown';
+}
+
+// What a meter measures, from Meter_Location_Current
+export function meterCategory(locationCode: number | undefined): MeterCategory {
+  if (locationCode === 0) return 'grid';
+  if (locationCode === 1) return 'load';
+  if (locationCode === 3) return 'generator';
+  if (locationCode !== undefined && locationCode >= 256 && locationCode <= 511) return 'subload';
+  if (locationCode !== undefined && locationCode >= 512 && locationCode <= 768) return 'ev';
+  if (locationCode !== undefined && locationCode >= 769 && locationCode <= 1023) return 'storage';
+  return 'unknown';
+}
+
+/**
+ * A meter on the master's bus other than the grid meter - a subload, an EV charger, a generator and so on.
+ *
+ * Each is a device of its own: read from its DeviceId's entry in the owner's meter readings, with power integrated
+ * into energy and reconciled against the meter's own consumed/produced registers, the same way the inverters' flows are.
+ */
+export class Meter {
+  private ownerSerialNumber: string;  // The inverter the meter reports through
+  private info: MeterInfo;
+  private integrator = new BidirectionalEnergyIntegrator();
+  protected lastPowerData?: MeterPowerData;
+  protected clock: Clock;
+
+  constructor(ownerSerialNumber: string, info: MeterInfo, clock: Clock = systemClock) {
+    this.ownerSerialNumber = ownerSerialNumber;
+    this.info = info;
+    this.clock = clock;
+  }
+
+  // Meters are keyed by their serial number like inverters, or by their DeviceId on the owner if they don't report one
+  public getId(): string {
+    return this.info.serial || `${this.ownerSerialNumber}-meter-${this.info.deviceId}`;
+  }
+
+  public getInfo(): MeterInfo { return this.info; }
+  public getOwnerSerialNumber(): string { return this.ownerSerialNumber; }
+  public getCategory(): MeterCategory { return meterCategory(this.info.locationCode); }
+  public getLastPowerData(): MeterPowerData | undefined { return this.lastPowerData; }
+  public getDisplayName(): string { return this.info.location || this.info.model || this.getId(); }
+
+  // Take power and the energy registers from this meter's entry in the owner's readings (null if it didn't answer)
+  public updateFromReading(reading: MetersReading | null): MeterPowerData | null {
+    const meter = this.info.deviceId !== undefined ? reading?.meters[this.info.deviceId] : undefined;
+    if (typeof meter?.PowerReal_P_Sum !== 'number') {
+      this.lastPowerData = undefined;
+      return null;
+    }
+
+    this.recordPowerData({ powerW: meter.PowerReal_P_Sum, timestamp: reading!.timestamp });
+    if (typeof meter.EnergyReal_WAC_Sum_Consumed === 'number' && typeof meter.EnergyReal_WAC_Sum_Produced === 'number') {
+      this.integrator.updateHardwareCounters(meter.EnergyReal_WAC_Sum_Consumed, meter.EnergyReal_WAC_Sum_Produced, this.clock());
+    }
+    return this.lastPowerData!;
+  }
+
+  protected recordPowerData(powerData: MeterPowerData): void {
+    this.lastPowerData = powerData;
+    this.integrator.updatePower(powerData.powerW, powerData.timestamp);
+  }
+
+  public getEnergyData(): MeterEnergyData {
+    return {
+      inWh: this.integrator.getPositiveReconciledWh(),
+      outWh: this.integrator.getNegativeReconciledWh()
+    };
+  }
+
+  public getEnergyState(): BidirectionalEnergyIntegratorState {
+    return this.integrator.getState();
+  }
+
+  public restoreEnergyState(state: BidirectionalEnergyIntegratorState): void {
+    this.integrator.restoreState(state);
+  }
+}
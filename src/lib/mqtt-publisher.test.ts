@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import net, { AddressInfo } from 'net';
+import { Aedes } from 'aedes';
+import { connectAsync, MqttClient } from 'mqtt';
+import { MqttPublisher } from './mqtt-publisher';
+import { Site } from './site';
+import { FakeClock } from '@/test/fake-clock';
+import { FakeInverter } from '@/test/fake-inverter';
+
+interface Message {
+  topic: string;
+  payload: string;
+  retain: boolean;
+}
+
+describe('MqttPublisher', () => {
+  let broker: Aedes;
+  let server: net.Server;
+  let url: string;
+  let publisher: MqttPublisher;
+  let subscriber: MqttClient | null;
+  let clock: FakeClock;
+  let site: Site;
+  let master: FakeInverter;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    broker = await Aedes.createBroker();
+    server = net.createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    clock = new FakeClock();
+    site = new Site('Test Site', { id: 'house', clock: clock.now });
+    master = new FakeInverter('MASTER1', { clock: clock.now, isMaster: true });
+    site.addInverter(master);
+
+    publisher = new MqttPublisher({ url, topicPrefix: 'test', qos: 1, retain: true, clientId: 'publisher' });
+    publisher.attach(site);
+    await waitFor(() => publisher.isConnected());
+    subscriber = null;
+  });
+
+  afterEach(async () => {
+    await subscriber?.endAsync();
+    await publisher.close();
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    vi.restoreAllMocks();
+  });
+
+  async function waitFor(condition: () => boolean, timeoutMs: number = 2000) {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+
+  // Subscribe to everything under the prefix, collecting messages
+  async function subscribe(): Promise<Message[]> {
+    const messages: Message[] = [];
+    subscriber = await connectAsync(url, { clientId: 'subscriber' });
+    subscriber.on('message', (topic, payload, packet) => {
+      messages.push({ topic, payload: payload.toString(), retain: packet.retain });
+    });
+    await subscriber.subscribeAsync('test/#', { qos: 1 });
+    return messages;
+  }
+
+  // Wait for a message on the topic and return the latest
+  async function received(messages: Message[], topic: string): Promise<Message> {
+    await waitFor(() => messages.some(m => m.topic === topic));
+    return messages.filter(m => m.topic === topic).pop()!;
+  }
+
+  it('marks itself online with a retained status', async () => {
+    const messages = await subscribe();
+
+    const status = await received(messages, 'test/status');
+    expect(status.payload).toBe('online');
+    expect(status.retain).toBe(true);
+  });
+
+  it('publishes site metrics and heartbeats under the site id', async () => {
+    const messages = await subscribe();
+    master.setPower({ solarW: 3000, gridW: -500, batteryW: 0, batterySoC: 80 });
+    await site.pollAllInverters();
+
+    const metrics = JSON.parse((await received(messages, 'test/house/metrics')).payload);
+    expect(metrics.site.solar.powerW).toBe(3000);
+    expect(metrics.site.grid.powerW).toBe(-500);
+    expect(metrics.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[+-]\d{2}:\d{2}$/);
+
+    const heartbeat = JSON.parse((await received(messages, 'test/house/inverter/MASTER1/heartbeat')).payload);
+    expect(heartbeat.status).toBe('online');
+  });
+
+  it('retains the latest metrics for subscribers that connect later', async () => {
+    const published = new Promise<void>(resolve => broker.on('publish', packet => {
+      if (packet.topic === 'test/house/metrics') resolve();
+    }));
+    master.setPower({ solarW: 2500 });
+    await site.pollAllInverters();
+    await published;
+
+    const messages = await subscribe();
+    const metrics = await received(messages, 'test/house/metrics');
+    expect(metrics.retain).toBe(true);
+    expect(JSON.parse(metrics.payload).site.solar.powerW).toBe(2500);
+  });
+
+  it('retains state topics but not heartbeats or minutely reports', async () => {
+    const retained = new Map<string, boolean>();
+    broker.on('publish', packet => {
+      if (packet.topic.startsWith('test/house/')) retained.set(packet.topic, packet.retain);
+    });
+    master.setPower({ solarW: 3000 });
+    await site.pollAllInverters();
+    site.emit('froniusMinutely', site.generateFroniusMinutely());
+    site.emit('inverterFault', { serialNumber: 'MASTER1', faultCode: 567, timestamp: clock.now() });
+
+    await waitFor(() => retained.size === 4);
+    expect(Object.fromEntries(retained)).toEqual({
+      'test/house/metrics': true,
+      'test/house/inverter/MASTER1/fault': true,
+      'test/house/inverter/MASTER1/heartbeat': false,
+      'test/house/minutely': false
+    });
+  });
+
+  it('publishes minutely reports', async () => {
+    const messages = await subscribe();
+    master.setPower({ solarW: 3000, gridW: 0 });
+    await site.pollAllInverters();
+    clock.advance(60 * 1000);
+    await site.pollAllInverters();
+    site.generateFroniusMinutely();
+    clock.advance(60 * 1000);
+    await site.pollAllInverters();
+    site.emit('froniusMinutely', site.generateFroniusMinutely());
+
+    const report = JSON.parse((await received(messages, 'test/house/minutely')).payload);
+    expect(report.solarWhInterval).toBe(50);
+  });
+
+  it('publishes faults as they are raised and cleared', async () => {
+    const messages = await subscribe();
+    master.setPower({ solarW: 0, statusCode: 3 });
+    await site.pollAllInverters();
+    const raised = JSON.parse((await received(messages, 'test/house/inverter/MASTER1/fault')).payload);
+    expect(raised.faultCode).toBe(3);
+
+    messages.length = 0;
+    master.setPower({ solarW: 100, statusCode: 7 });
+    await site.pollAllInverters();
+    const cleared = JSON.parse((await received(messages, 'test/house/inverter/MASTER1/fault')).payload);
+    expect(cleared.faultCode).toBeNull();
+  });
+
+  it('stops publishing a detached site', async () => {
+    const messages = await subscribe();
+    await received(messages, 'test/status');
+    publisher.detach(site);
+    master.setPower({ solarW: 3000 });
+    await site.pollAllInverters();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(messages.filter(m => m.topic.startsWith('test/house/'))).toEqual([]);
+  });
+
+  it('leaves an offline will if the connection drops', async () => {
+    const messages = await subscribe();
+    await received(messages, 'test/status');
+    messages.length = 0;
+
+    // Drop the publisher's connection from the broker's side, as a crash or network loss would
+    for (const client of Object.values((broker as any).clients) as any[]) {
+      if (client.id === 'publisher') {
+        client.conn.destroy();
+      }
+    }
+
+    const status = await received(messages, 'test/status');
+    expect(status.payload).toBe('offline');
+  });
+
+  it('marks itself offline when closed', async () => {
+    const messages = await subscribe();
+    await received(messages, 'test/status');
+    messages.length = 0;
+
+    await publisher.close();
+
+    const status = await received(messages, 'test/status');
+    expect(status.payload).toBe('offline');
+  });
+
+  describe('Home Assistant discovery', () => {
+    let haPublisher: MqttPublisher;
+
+    beforeEach(async () => {
+      publisher.detach(site);
+      haPublisher = new MqttPublisher({ url, topicPrefix: 'test', qos: 1, retain: true, clientId: 'ha-publisher', homeAssistantPrefix: 'ha' });
+      haPublisher.attach(site);
+      await waitFor(() => haPublisher.isConnected());
+    });
+
+    afterEach(async () => {
+      await haPublisher.close();
+    });
+
+    // Subscribe to the discovery topics, collecting config messages
+    async function subscribeDiscovery(): Promise<Message[]> {
+      const messages: Message[] = [];
+      subscriber = await connectAsync(url, { clientId: 'subscriber' });
+      subscriber.on('message', (topic, payload, packet) => {
+        messages.push({ topic, payload: payload.toString(), retain: packet.retain });
+      });
+      await subscriber.subscribeAsync('ha/sensor/#', { qos: 1 });
+      return messages;
+    }
+
+    it('announces sensor config as retained messages', async () => {
+      const configTopic = 'ha/sensor/fronius_pusher_house/fronius_pusher_house_site_solar_energy/config';
+      const published = new Promise<void>(resolve => broker.on('publish', packet => {
+        if (packet.topic === configTopic) resolve();
+      }));
+      master.setPower({ solarW: 3000, gridW: 0, batteryW: 0, batterySoC: 80 });
+      await site.pollAllInverters();
+      await published;
+
+      const messages = await subscribeDiscovery();
+      const config = await received(messages, configTopic);
+      expect(config.retain).toBe(true);
+      expect(JSON.parse(config.payload)).toMatchObject({ state_class: 'total_increasing', state_topic: 'test/house/metrics' });
+    });
+
+    it('only announces again when the config changes or Home Assistant restarts', async () => {
+      const messages = await subscribeDiscovery();
+      const socTopic = 'ha/sensor/fronius_pusher_house/fronius_pusher_house_master1_battery_soc/config';
+      master.setPower({ solarW: 3000, gridW: 0, batteryW: 0, batterySoC: 80 });
+      await site.pollAllInverters();
+      await received(messages, socTopic);
+
+      messages.length = 0;
+      await site.pollAllInverters();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(messages).toEqual([]);
+
+      await subscriber!.publishAsync('ha/status', 'online', { qos: 1 });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await site.pollAllInverters();
+      await received(messages, socTopic);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { connect, MqttClient } from 'mqtt';
+import crypto from 'crypto';
+import type { Site } from './site';
+import { formatLocalDateTime } from './date-utils';
+import { buildDiscoveryMessages } from './home-assistant-discovery';
+
+export type MqttQoS = 0 | 1 | 2;
+
+export interface MqttPublisherOptions {
+  url: string;            // Broker, e.g. mqtt://homeassistant.local:1883
+  username?: string;
+  password?: string;
+  topicPrefix: string;    // Every topic starts with this (default: fronius)
+  qos: MqttQoS;           // For every publish, including the will (default: 1)
+  retain: boolean;        // Retain state topics (metrics, faults), so subscribers get the latest on connect (default: true)
+  clientId?: string;
+  homeAssistantPrefix?: string;  // Announce entities with Home Assistant MQTT discovery under this prefix
+}
+
+// Site events and the topic each is published to, under <prefix>/<site id>/. State topics hold the latest value and
+// can be retained; the rest are events, which a subscriber connecting later shouldn't take as just having happened.
+const SITE_TOPICS: Array<{ event: string; topic: (data: any) => string; state: boolean }> = [
+  { event: 'siteMetrics', topic: () => 'metrics', state: true },
+  { event: 'froniusMinutely', topic: () => 'minutely', state: false },
+  { event: 'inverterHeartbeat', topic: data => `inverter/${data.serialNumber}/heartbeat`, state: false },
+  { event: 'inverterFault', topic: data => `inverter/${data.serialNumber}/fault`, state: true }
+];
+
+// JSON with dates in local time, as the rest of the API sends them
+function toPayload(data: unknown): string {
+  return JSON.stringify(data, function (this: any, key: string, value: unknown) {
+    const original = this[key];
+    return original instanceof Date ? formatLocalDateTime(original) : value;
+  });
+}
+
+/**
+ * Publishes each site's live metrics, minutely reports, inverter heartbeats and faults to an MQTT broker.
+ *
+ * Topics are <prefix>/<site id>/metrics, .../minutely, .../inverter/<serial>/heartbeat and .../inverter/<serial>/fault,
+ * with JSON payloads. <prefix>/status is "online" while connected, and the broker sets it to "offline" (the will)
+ * if the connection drops.
+ *
+ * With homeAssistantPrefix set, each site's devices and sensors are also announced for Home Assistant discovery,
+ * again whenever they change, after a reconnect, and when Home Assistant comes back online.
+ */
+export class MqttPublisher {
+  private options: MqttPublisherOptions;
+  private client: MqttClient;
+  private listeners: Map<Site, Array<{ event: string; handler: (data: any) => void }>> = new Map();
+  private announced: Map<string, string> = new Map();  // Discovery payload last published to each config topic
+
+  constructor(options: MqttPublisherOptions) {
+    this.options = options;
+    this.client = connect(options.url, {
+      clientId: options.clientId ?? `fronius-pusher-${crypto.randomBytes(4).toString('hex')}`,
+      username: options.username,
+      password: options.password,
+      will: { topic: this.getStatusTopic(), payload: Buffer.from('offline'), qos: options.qos, retain: true }
+    });
+
+    this.client.on('connect', () => {
+      console.log(`[MQTT] Connected to ${options.url}, publishing under ${options.topicPrefix}/`);
+      this.client.publish(this.getStatusTopic(), 'online', { qos: options.qos, retain: true });
+      
+      // A new session may be with a broker that lost its retained messages, so announce everything again
+      this.announced.clear();
+      if (options.homeAssistantPrefix) {
+        this.client.subscribe(`${options.homeAssistantPrefix}/status`, { qos: options.qos });
+      }
+    });
+    this.client.on('message', (topic, payload) => {
+      // Home Assistant's birth message - it has restarted and needs the config again
+      if (topic === `${options.homeAssistantPrefix}/status` && payload.toString() === 'online') {
+        this.announced.clear();
+      }
+    });
+    this.client.on('error', error => {
+      console.error(`[MQTT] ${error.message}`);
+    });
+    this.client.on('offline', () => {
+      console.warn(`[MQTT] Lost connection to ${options.url}, reconnecting`);
+    });
+  }
+
+  /**
+   * Create a publisher from MQTT_* environment variables, or null if MQTT_URL isn't set or they're invalid
+   */
+  public static fromEnv(): MqttPublisher | null {
+    const url = process.env.MQTT_URL;
+    if (!url) {
+      return null;
+    }
+
+    const errors: string[] = [];
+    if (!/^(mqtts?|wss?|tcp|ssl):\/\//i.test(url)) {
+      errors.push('MQTT_URL must start with mqtt://, mqtts://, ws:// or wss://');
+    }
+
+    const qosStr = process.env.MQTT_QOS ?? '1';
+    if (!['0', '1', '2'].includes(qosStr)) {
+      errors.push('MQTT_QOS must be 0, 1 or 2');
+    }
+
+    const retainStr = process.env.MQTT_RETAIN ?? 'true';
+    if (retainStr !== 'true' && retainStr !== 'false') {
+      errors.push('MQTT_RETAIN must be "true" or "false"');
+    }
+
+    const topicPrefix = (process.env.MQTT_TOPIC_PREFIX ?? 'fronius').replace(/\/+$/, '');
+    if (!topicPrefix || /[#+]/.test(topicPrefix)) {
+      errors.push('MQTT_TOPIC_PREFIX must be a topic without wildcards');
+    }
+    
+    const discoveryStr = process.env.MQTT_HA_DISCOVERY ?? 'false';
+    if (discoveryStr !== 'true' && discoveryStr !== 'false') {
+      errors.push('MQTT_HA_DISCOVERY must be "true" or "false"');
+    }
+    const discoveryPrefix = (process.env.MQTT_HA_DISCOVERY_PREFIX ?? 'homeassistant').replace(/\/+$/, '');
+    if (!discoveryPrefix || /[#+]/.test(discoveryPrefix)) {
+      errors.push('MQTT_HA_DISCOVERY_PREFIX must be a topic without wildcards');
+    }
+
+    if (errors.length > 0) {
+      console.error('[MQTT] Configuration errors:');
+      errors.forEach(err => console.error(`  - ${err}`));
+      console.error('[MQTT] MQTT publishing will be disabled.');
+      return null;
+    }
+
+    return new MqttPublisher({
+      url,
+      username: process.env.MQTT_USERNAME,
+      password: process.env.MQTT_PASSWORD,
+      topicPrefix,
+      qos: Number(qosStr) as MqttQoS,
+      retain: retainStr === 'true',
+      homeAssistantPrefix: discoveryStr === 'true' ? discoveryPrefix : undefined
+    });
+  }
+
+  public getStatusTopic(): string {
+    return `${this.options.topicPrefix}/status`;
+  }
+
+  public getSiteTopic(site: Site): string {
+    return `${this.options.topicPrefix}/${site.getId()}`;
+  }
+
+  // Start publishing a site's events
+  public attach(site: Site): void {
+    if (this.listeners.has(site)) {
+      return;
+    }
+
+    const listeners = SITE_TOPICS.map(({ event, topic, state }) => {
+      const handler = (data: any) => {
+        // Announce entities before the state they read, so Home Assistant has them when it arrives
+        if (event === 'siteMetrics' && this.options.homeAssistantPrefix) {
+          this.announce(site, data);
+        }
+        this.publish(`${this.getSiteTopic(site)}/${topic(data)}`, data, state && this.options.retain);
+      };
+      site.on(event, handler);
+      return { event, handler };
+    });
+    this.listeners.set(site, listeners);
+  }
+
+  // Stop publishing a site's events
+  public detach(site: Site): void {
+    this.listeners.get(site)?.forEach(({ event, handler }) => site.removeListener(event, handler));
+    this.listeners.delete(site);
+  }
+
+  public isConnected(): boolean {
+    return this.client.connected;
+  }
+
+  // Publish a message (queued while reconnecting)
+  public publish(topic: string, data: unknown, retain: boolean = false): void {
+    this.client.publish(topic, toPayload(data), { qos: this.options.qos, retain }, error => {
+      if (error) {
+        console.error(`[MQTT] Failed to publish to ${topic}: ${error.message}`);
+      }
+    });
+  }
+
+  // Publish Home Assistant discovery config that's new or has changed since it was last published
+  private announce(site: Site, metrics: any): void {
+    const messages = buildDiscoveryMessages(site, metrics, {
+      discoveryPrefix: this.options.homeAssistantPrefix!,
+      stateTopic: `${this.getSiteTopic(site)}/metrics`,
+      availabilityTopic: this.getStatusTopic()
+    });
+    for (const { topic, payload } of messages) {
+      const config = JSON.stringify(payload);
+      if (this.announced.get(topic) === config) {
+        continue;
+      }
+      this.announced.set(topic, config);
+      this.client.publish(topic, config, { qos: this.options.qos, retain: true }, error => {
+        if (error) {
+          console.error(`[MQTT] Failed to publish to ${topic}: ${error.message}`);
+        }
+      });
+    }
+  }
+
+  // Detach from every site, mark ourselves offline and disconnect
+  public async close(): Promise<void> {
+    Array.from(this.listeners.keys()).forEach(site => this.detach(site));
+    if (this.client.connected) {
+      await this.client.publishAsync(this.getStatusTopic(), 'offline', { qos: this.options.qos, retain: true });
+    }
+    await this.client.endAsync();
+  }
+}
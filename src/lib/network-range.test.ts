@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseCidrRange, interfaceRange, narrowRange, rangeHosts } from './network-range';
+
+describe('parseCidrRange', () => {
+  it('masks off host bits', () => {
+    const range = parseCidrRange('192.168.1.17/24')!;
+
+    expect(range.cidr).toBe('192.168.1.0/24');
+    expect(range.firstHost).toBe('192.168.1.1');
+    expect(range.lastHost).toBe('192.168.1.254');
+    expect(range.hostCount).toBe(254);
+  });
+
+  it('treats a /32 as a single host', () => {
+    expect(rangeHosts(parseCidrRange('10.0.0.5/32')!)).toEqual(['10.0.0.5']);
+  });
+
+  it('rejects anything that is not IPv4 CIDR', () => {
+    expect(parseCidrRange('10.0.0.5')).toBeNull();
+    expect(parseCidrRange('10.0.0.0/33')).toBeNull();
+    expect(parseCidrRange('fe80::/64')).toBeNull();
+    expect(parseCidrRange('inverters.local/24')).toBeNull();
+  });
+});
+
+describe('interfaceRange', () => {
+  it('uses the real netmask rather than assuming a /24', () => {
+    expect(interfaceRange('10.1.2.3', '255.255.254.0').cidr).toBe('10.1.2.0/23');
+    expect(interfaceRange('192.168.1.130', '255.255.255.192').cidr).toBe('192.168.1.128/26');
+  });
+});
+
+describe('narrowRange', () => {
+  it('narrows a big network to the /20 around the address', () => {
+    const range = interfaceRange('10.1.37.3', '255.255.0.0');
+
+    expect(narrowRange(range, '10.1.37.3').cidr).toBe('10.1.32.0/20');
+  });
+
+  it('leaves small enough networks alone', () => {
+    const range = interfaceRange('10.1.2.3', '255.255.255.0');
+
+    expect(narrowRange(range, '10.1.2.3')).toBe(range);
+  });
+});
+
+describe('rangeHosts', () => {
+  it('lists every usable address, spanning octets', () => {
+    const hosts = rangeHosts(parseCidrRange('10.0.0.0/23')!);
+
+    expect(hosts).toHaveLength(510);
+    expect(hosts[0]).toBe('10.0.0.1');
+    expect(hosts[254]).toBe('10.0.0.255');
+    expect(hosts[509]).toBe('10.0.1.254');
+  });
+});
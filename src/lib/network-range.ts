@@ -0,0 +1,76 @@
+import ip from 'ip';
+import { v4 as cidrV4 } from 'cidr-regex';
+
+// Ranges bigger than this take too long to ping-sweep (a /20 is ~4000 hosts)
+export const MIN_SCAN_PREFIX = 20;
+
+/**
+ * An IPv4 range to scan, in CIDR notation
+ */
+export interface NetworkRange {
+  cidr: string;           // e.g. 192.168.1.0/24
+  networkAddress: string;
+  prefixLength: number;
+  firstHost: string;
+  lastHost: string;
+  hostCount: number;
+}
+
+function toRange(networkAddress: string, prefixLength: number): NetworkRange {
+  const subnet = ip.cidrSubnet(`${networkAddress}/${prefixLength}`);
+  return {
+    cidr: `${subnet.networkAddress}/${subnet.subnetMaskLength}`,
+    networkAddress: subnet.networkAddress,
+    prefixLength: subnet.subnetMaskLength,
+    firstHost: subnet.firstAddress,
+    lastHost: subnet.lastAddress,
+    hostCount: subnet.numHosts
+  };
+}
+
+export function isCidrRange(value: string): boolean {
+  return cidrV4({ exact: true }).test(value);
+}
+
+/**
+ * Parse an IPv4 CIDR range such as "192.168.1.0/24". Host bits are masked off,
+ * so "192.168.1.17/24" gives the same range. Returns null if it isn't valid CIDR.
+ */
+export function parseCidrRange(value: string): NetworkRange | null {
+  const cidr = value.trim();
+  if (!isCidrRange(cidr)) {
+    return null;
+  }
+  const [address, prefix] = cidr.split('/');
+  return toRange(address, Number(prefix));
+}
+
+/**
+ * The network an interface is on, from its address and netmask
+ */
+export function interfaceRange(address: string, netmask: string): NetworkRange {
+  const subnet = ip.subnet(address, netmask);
+  return toRange(subnet.networkAddress, subnet.subnetMaskLength);
+}
+
+/**
+ * Narrow a range that's too big to sweep down to the MIN_SCAN_PREFIX block around an address
+ */
+export function narrowRange(range: NetworkRange, around: string): NetworkRange {
+  if (range.prefixLength >= MIN_SCAN_PREFIX) {
+    return range;
+  }
+  return toRange(ip.mask(around, ip.fromPrefixLen(MIN_SCAN_PREFIX)), MIN_SCAN_PREFIX);
+}
+
+/**
+ * Every usable host address in a range, in order
+ */
+export function rangeHosts(range: NetworkRange): string[] {
+  const first = ip.toLong(range.firstHost);
+  const hosts: string[] = [];
+  for (let i = 0; i < range.hostCount; i++) {
+    hosts.push(ip.fromLong(first + i));
+  }
+  return hosts;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { PollMetrics } from './poll-metrics';
+
+const at = new Date('2025-09-14T10:00:00Z');
+
+describe('PollMetrics', () => {
+  it('buckets latencies into a histogram', () => {
+    const metrics = new PollMetrics();
+    [10, 25, 40, 300, 9000].forEach(latencyMs => metrics.recordPoll(latencyMs, at));
+
+    const { latency } = metrics.getSnapshot();
+    expect(latency.buckets.filter(bucket => bucket.count > 0)).toEqual([
+      { leMs: 25, count: 2 },
+      { leMs: 50, count: 1 },
+      { leMs: 500, count: 1 },
+      { leMs: null, count: 1 }
+    ]);
+    expect(latency).toMatchObject({ count: 5, sumMs: 9375, minMs: 10, maxMs: 9000 });
+  });
+
+  it('counts timeouts and errors separately and remembers the last outcome of each kind', () => {
+    const metrics = new PollMetrics();
+    const later = new Date(at.getTime() + 2000);
+    metrics.recordPoll(40, at);
+    metrics.recordPoll(5000, later, 'timeout');
+    metrics.recordPoll(3, later, 'error');
+
+    expect(metrics.getSnapshot()).toMatchObject({
+      polls: 3,
+      successes: 1,
+      timeouts: 1,
+      errors: 1,
+      lastLatencyMs: 3,
+      lastSuccess: at,
+      lastFailure: later,
+      lastFailureReason: 'error'
+    });
+  });
+});
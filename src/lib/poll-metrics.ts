@@ -0,0 +1,91 @@
+// Upper bounds (ms) of the latency histogram buckets - the last bucket catches everything slower
+export const LATENCY_BUCKETS_MS = [25, 50, 100, 250, 500, 1000, 2000, 5000];
+
+// Why a poll got no data
+export type PollFailureReason = 'timeout' | 'error' | 'no-data';
+
+export interface LatencyHistogram {
+  buckets: Array<{ leMs: number | null; count: number }>;  // leMs null = slower than the last bound
+  count: number;
+  sumMs: number;
+  minMs: number | null;
+  maxMs: number | null;
+}
+
+export interface PollMetricsSnapshot {
+  polls: number;
+  successes: number;
+  timeouts: number;
+  errors: number;      // Connection errors and unusable responses
+  lastLatencyMs: number | null;
+  lastSuccess: Date | null;
+  lastFailure: Date | null;
+  lastFailureReason: PollFailureReason | null;
+  latency: LatencyHistogram;
+}
+
+/**
+ * Timing and outcome of every poll of one inverter
+ */
+export class PollMetrics {
+  private bucketCounts: number[] = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  private polls = 0;
+  private successes = 0;
+  private timeouts = 0;
+  private errors = 0;
+  private sumMs = 0;
+  private minMs: number | null = null;
+  private maxMs: number | null = null;
+  private lastLatencyMs: number | null = null;
+  private lastSuccess: Date | null = null;
+  private lastFailure: Date | null = null;
+  private lastFailureReason: PollFailureReason | null = null;
+
+  public recordPoll(latencyMs: number, at: Date, failure?: PollFailureReason): void {
+    this.polls++;
+    this.lastLatencyMs = latencyMs;
+    this.sumMs += latencyMs;
+    this.minMs = this.minMs === null ? latencyMs : Math.min(this.minMs, latencyMs);
+    this.maxMs = this.maxMs === null ? latencyMs : Math.max(this.maxMs, latencyMs);
+
+    const bucket = LATENCY_BUCKETS_MS.findIndex(bound => latencyMs <= bound);
+    this.bucketCounts[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+
+    if (!failure) {
+      this.successes++;
+      this.lastSuccess = at;
+      return;
+    }
+
+    if (failure === 'timeout') {
+      this.timeouts++;
+    } else {
+      this.errors++;
+    }
+    this.lastFailure = at;
+    this.lastFailureReason = failure;
+  }
+
+  public getSnapshot(): PollMetricsSnapshot {
+    return {
+      polls: this.polls,
+      successes: this.successes,
+      timeouts: this.timeouts,
+      errors: this.errors,
+      lastLatencyMs: this.lastLatencyMs,
+      lastSuccess: this.lastSuccess,
+      lastFailure: this.lastFailure,
+      lastFailureReason: this.lastFailureReason,
+      latency: {
+        buckets: this.bucketCounts.map((count, index) => ({
+          leMs: index < LATENCY_BUCKETS_MS.length ? LATENCY_BUCKETS_MS[index] : null,
+          count
+        })),
+        count: this.polls,
+        sumMs: this.sumMs,
+        minMs: this.minMs,
+        maxMs: this.maxMs
+      }
+    };
+  }
+}
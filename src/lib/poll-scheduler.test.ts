@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PollScheduler, SLEEP_AFTER_FAILURES, SLEEP_PROBE_MIN_MS, SLEEP_PROBE_MAX_MS, SLEEP_PROBE_MAX_NO_LOCATION_MS, WAKING_PROBE_MS } from './poll-scheduler';
+import { FakeClock } from '@/test/fake-clock';
+
+const MINUTE = 60 * 1000;
+const hobart = { latitude: -42.88, longitude: 147.33 };
+
+describe('PollScheduler', () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    clock = new FakeClock('2025-09-14T12:00:00Z');   // 22:00 in Hobart
+  });
+
+  function failTimes(scheduler: PollScheduler, count: number) {
+    for (let i = 0; i < count; i++) {
+      scheduler.recordFailure();
+    }
+  }
+
+  it('puts a silent slave to sleep and backs off probing it', () => {
+    const scheduler = new PollScheduler({ clock: clock.now });
+
+    failTimes(scheduler, SLEEP_AFTER_FAILURES - 1);
+    expect(scheduler.getState()).toBe('active');
+    expect(scheduler.isDue()).toBe(true);
+
+    scheduler.recordFailure();
+    expect(scheduler.getState()).toBe('sleeping');
+    expect(scheduler.isDue()).toBe(false);
+
+    clock.advance(SLEEP_PROBE_MIN_MS);
+    expect(scheduler.isDue()).toBe(true);
+
+    scheduler.recordFailure();
+    clock.advance(SLEEP_PROBE_MIN_MS);
+    expect(scheduler.isDue()).toBe(false);   // Now twice as long
+    clock.advance(SLEEP_PROBE_MIN_MS);
+    expect(scheduler.isDue()).toBe(true);
+  });
+
+  it('caps the back-off for a silent slave when it doesn\'t know where the sun is', () => {
+    clock.set('2025-09-14T02:00:00Z');   // Midday in Hobart, but the scheduler can't tell
+    const scheduler = new PollScheduler({ clock: clock.now });
+    failTimes(scheduler, SLEEP_AFTER_FAILURES + 10);
+    expect(scheduler.getState()).toBe('sleeping');
+
+    clock.advance(SLEEP_PROBE_MAX_NO_LOCATION_MS);
+    expect(scheduler.isDue()).toBe(true);
+  });
+
+  it('backs off further at night when it knows where the sun is', () => {
+    const scheduler = new PollScheduler({ clock: clock.now, location: hobart });
+    failTimes(scheduler, SLEEP_AFTER_FAILURES + 10);
+
+    clock.advance(SLEEP_PROBE_MAX_MS - 1000);
+    expect(scheduler.isDue()).toBe(false);
+  });
+
+  it('is active again as soon as a poll succeeds', () => {
+    const scheduler = new PollScheduler({ clock: clock.now });
+    failTimes(scheduler, SLEEP_AFTER_FAILURES);
+
+    scheduler.recordSuccess();
+    expect(scheduler.getStatus()).toMatchObject({ state: 'active', consecutiveFailures: 0, nextPollAt: null });
+  });
+
+  it('never puts the master to sleep', () => {
+    const scheduler = new PollScheduler({ clock: clock.now, isMaster: true });
+    failTimes(scheduler, 20);
+
+    expect(scheduler.getState()).toBe('active');
+  });
+
+  it('keeps polling a silent slave in daylight when it knows where the sun is', () => {
+    clock.set('2025-09-14T02:00:00Z');   // Midday in Hobart
+    const scheduler = new PollScheduler({ clock: clock.now, location: hobart });
+    failTimes(scheduler, 20);
+
+    expect(scheduler.getState()).toBe('active');
+    expect(scheduler.isNight()).toBe(false);
+  });
+
+  it('probes more often around sunrise, then goes back to sleep if nothing answers', () => {
+    const scheduler = new PollScheduler({ clock: clock.now, location: hobart });
+    failTimes(scheduler, SLEEP_AFTER_FAILURES + 4);   // Back-off now well past WAKING_PROBE_MS
+    expect(scheduler.getState()).toBe('sleeping');
+
+    clock.set('2025-09-14T19:50:00Z');   // ~25 minutes before sunrise
+    expect(scheduler.getState()).toBe('waking');
+    scheduler.recordFailure();
+    clock.advance(WAKING_PROBE_MS);
+    expect(scheduler.isDue()).toBe(true);
+
+    clock.set('2025-09-14T22:00:00Z');   // Hours after sunrise
+    expect(scheduler.getState()).toBe('sleeping');
+  });
+
+  it('reports sunrise and sunset with its state', () => {
+    const scheduler = new PollScheduler({ clock: clock.now, location: hobart });
+    const status = scheduler.getStatus();
+
+    expect(status.sunrise).toBeInstanceOf(Date);
+    expect(status.sunset).toBeInstanceOf(Date);
+    expect(new PollScheduler({ clock: clock.now }).getStatus().sunrise).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { Clock, systemClock } from './clock';
+import { GeoLocation, getNextSunrise, getSunTimes, isNight } from './sun-times';
+
+/**
+ * Polling state of one inverter:
+ * - active: polled on every tick
+ * - sleeping: stopped answering when it's expected to be asleep - probed with a growing back-off
+ * - waking: asleep but sunrise is close - probed often so production is picked up promptly
+ */
+export type PollState = 'active' | 'sleeping' | 'waking';
+
+export interface PollSchedulerOptions {
+  clock?: Clock;
+  location?: GeoLocation;   // Without one, only failures (and never the master) put an inverter to sleep
+  isMaster?: boolean;       // The master stays awake at night, so it's never assumed to be asleep
+}
+
+export interface PollSchedulerStatus {
+  state: PollState;
+  since: Date;
+  consecutiveFailures: number;
+  nextPollAt: Date | null;   // null while active (every tick)
+  sunrise: Date | null;
+  sunset: Date | null;
+}
+
+// Failed polls in a row before an inverter is treated as asleep
+export const SLEEP_AFTER_FAILURES = 5;
+
+// Back-off between probes of a sleeping inverter
+export const SLEEP_PROBE_MIN_MS = 60 * 1000;
+export const SLEEP_PROBE_MAX_MS = 15 * 60 * 1000;
+
+// Without sun times a silent slave may be out in daylight, so its probes never back off further than this
+export const SLEEP_PROBE_MAX_NO_LOCATION_MS = 2 * 60 * 1000;
+
+// Probe interval around sunrise, and how far either side of it counts
+export const WAKING_PROBE_MS = 30 * 1000;
+export const WAKING_BEFORE_SUNRISE_MS = 30 * 60 * 1000;
+export const WAKING_AFTER_SUNRISE_MS = 90 * 60 * 1000;
+
+/**
+ * Decides when to poll an inverter. Slave inverters switch their Solar API off at night and requests to
+ * them just time out, so once one stops answering when it's expected to be asleep it's only probed
+ * occasionally, then more often as sunrise approaches.
+ */
+export class PollScheduler {
+  private clock: Clock;
+  private location?: GeoLocation;
+  private isMaster: boolean;
+
+  private state: PollState = 'active';
+  private since: Date;
+  private consecutiveFailures: number = 0;
+  private sleepProbeMs: number = SLEEP_PROBE_MIN_MS;
+  private nextPollAt: Date | null = null;
+
+  constructor(options: PollSchedulerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.location = options.location;
+    this.isMaster = options.isMaster ?? false;
+    this.since = this.clock();
+  }
+
+  public getState(): PollState {
+    this.updateWaking();
+    return this.state;
+  }
+
+  // Whether the inverter should be polled on this tick
+  public isDue(): boolean {
+    this.updateWaking();
+    return this.nextPollAt === null || this.clock() >= this.nextPollAt;
+  }
+
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.sleepProbeMs = SLEEP_PROBE_MIN_MS;
+    this.nextPollAt = null;
+    this.setState('active');
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    const now = this.clock();
+
+    if (this.state === 'active') {
+      if (this.consecutiveFailures < SLEEP_AFTER_FAILURES || !this.expectAsleep(now)) {
+        return;
+      }
+      this.setState('sleeping');
+    } else if (this.state === 'sleeping') {
+      this.sleepProbeMs = Math.min(this.sleepProbeMs * 2, this.location ? SLEEP_PROBE_MAX_MS : SLEEP_PROBE_MAX_NO_LOCATION_MS);
+    }
+
+    this.updateWaking();
+    const interval = this.state === 'waking' ? WAKING_PROBE_MS : this.sleepProbeMs;
+    this.nextPollAt = new Date(now.getTime() + interval);
+  }
+
+  /**
+   * Whether the sun is down at this inverter's location. Unknown without a location.
+   */
+  public isNight(): boolean | null {
+    return this.location ? isNight(this.clock(), this.location) : null;
+  }
+
+  public getStatus(): PollSchedulerStatus {
+    const sunTimes = this.location ? getSunTimes(this.clock(), this.location) : null;
+    return {
+      state: this.getState(),
+      since: this.since,
+      consecutiveFailures: this.consecutiveFailures,
+      nextPollAt: this.nextPollAt,
+      sunrise: sunTimes?.sunrise ?? null,
+      sunset: sunTimes?.sunset ?? null
+    };
+  }
+
+  // A silent master is a real problem, and so is a silent slave in daylight when we know where the sun is
+  private expectAsleep(now: Date): boolean {
+    if (this.isMaster) {
+      return false;
+    }
+    return this.location ? isNight(now, this.location) : true;
+  }
+
+  // Move between sleeping and waking as sunrise comes and goes
+  private updateWaking(): void {
+    if (this.state === 'active' || !this.location) {
+      return;
+    }
+
+    const now = this.clock();
+    const nearSunrise = this.isNearSunrise(now);
+    if (this.state === 'sleeping' && nearSunrise) {
+      this.setState('waking');
+      // Don't sit out the rest of a long back-off
+      const wakingPollAt = new Date(now.getTime() + WAKING_PROBE_MS);
+      if (this.nextPollAt && this.nextPollAt > wakingPollAt) {
+        this.nextPollAt = wakingPollAt;
+      }
+    } else if (this.state === 'waking' && !nearSunrise) {
+      // Still silent well after sunrise - back to occasional probing
+      this.sleepProbeMs = SLEEP_PROBE_MIN_MS;
+      this.setState('sleeping');
+    }
+  }
+
+  private isNearSunrise(now: Date): boolean {
+    const location = this.location!;
+    const nextSunrise = getNextSunrise(now, location);
+    if (nextSunrise && nextSunrise.getTime() - now.getTime() <= WAKING_BEFORE_SUNRISE_MS) {
+      return true;
+    }
+    const { sunrise } = getSunTimes(now, location);
+    return sunrise !== null && now >= sunrise && now.getTime() - sunrise.getTime() <= WAKING_AFTER_SUNRISE_MS;
+  }
+
+  private setState(state: PollState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.since = this.clock();
+    }
+  }
+}
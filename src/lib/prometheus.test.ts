@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PrometheusWriter, renderPrometheusMetrics } from './prometheus';
+import { Site } from './site';
+import { FakeClock } from '@/test/fake-clock';
+import { FakeInverter } from '@/test/fake-inverter';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('PrometheusWriter', () => {
+  it('groups samples under one HELP and TYPE per metric and escapes label values', () => {
+    const out = new PrometheusWriter();
+    out.gauge('power_watts', 'Power', { name: 'Shed "east"' }, 100);
+    out.counter('energy_total', 'Energy', {}, 5);
+    out.gauge('power_watts', 'Power', { name: 'House' }, 200);
+
+    expect(out.toString()).toBe([
+      '# HELP power_watts Power',
+      '# TYPE power_watts gauge',
+      'power_watts{name="Shed \\"east\\""} 100',
+      'power_watts{name="House"} 200',
+      '# HELP energy_total Energy',
+      '# TYPE energy_total counter',
+      'energy_total 5',
+      ''
+    ].join('\n'));
+  });
+
+  it('leaves out missing readings', () => {
+    const out = new PrometheusWriter();
+    out.gauge('soc_percent', 'SoC', {}, null);
+    out.gauge('soc_percent', 'SoC', {}, undefined);
+
+    expect(out.toString()).not.toContain('soc_percent ');
+  });
+
+  it('writes histograms with cumulative buckets', () => {
+    const out = new PrometheusWriter();
+    out.histogram('latency_seconds', 'Latency', { serial: 'A' }, [{ le: 0.1, count: 2 }, { le: 1, count: 1 }, { le: null, count: 1 }], 3.5, 4);
+
+    expect(out.toString()).toContain([
+      'latency_seconds_bucket{serial="A",le="0.1"} 2',
+      'latency_seconds_bucket{serial="A",le="1"} 3',
+      'latency_seconds_bucket{serial="A",le="+Inf"} 4',
+      'latency_seconds_sum{serial="A"} 3.5',
+      'latency_seconds_count{serial="A"} 4'
+    ].join('\n'));
+  });
+});
+
+describe('renderPrometheusMetrics', () => {
+  let clock: FakeClock;
+  let site: Site;
+  let master: FakeInverter;
+  let slave: FakeInverter;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    clock = new FakeClock();
+    site = new Site('House', { id: 'house', clock: clock.now, liveOne: null });
+    master = new FakeInverter('MASTER1', { clock: clock.now, isMaster: true });
+    slave = new FakeInverter('SLAVE1', { clock: clock.now });
+    site.addInverter(master);
+    site.addInverter(slave);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Lines of the rendered metrics, by series
+  function render(now: Date = clock.now()): Map<string, string> {
+    const lines = renderPrometheusMetrics([site], now).split('\n').filter(line => line && !line.startsWith('#'));
+    return new Map(lines.map(line => {
+      const split = line.lastIndexOf(' ');
+      return [line.slice(0, split), line.slice(split + 1)];
+    }));
+  }
+
+  it('exposes per-inverter power, SoC and energy counters', async () => {
+    master.setPower({ solarW: 3000, batteryW: -1000, gridW: 500, batterySoC: 60 });
+    slave.setPower({ solarW: 2000 });
+    await site.pollAllInverters();
+    clock.advance(HOUR);
+    await site.pollAllInverters();
+
+    const series = render();
+    const masterLabels = 'site="house",serial="MASTER1",name="Fake MASTER1"';
+    expect(series.get(`fronius_inverter_solar_power_watts{${masterLabels}}`)).toBe('3000');
+    expect(series.get(`fronius_inverter_battery_power_watts{${masterLabels}}`)).toBe('-1000');
+    expect(series.get(`fronius_inverter_battery_soc_percent{${masterLabels}}`)).toBe('60');
+    expect(series.get(`fronius_inverter_grid_power_watts{${masterLabels}}`)).toBe('500');
+    expect(series.get(`fronius_inverter_solar_energy_watt_hours_total{${masterLabels}}`)).toBe('3000');
+    expect(series.get(`fronius_inverter_battery_charged_energy_watt_hours_total{${masterLabels}}`)).toBe('1000');
+    expect(series.get(`fronius_inverter_grid_import_energy_watt_hours_total{${masterLabels}}`)).toBe('500');
+
+    // The slave has no battery or grid meter
+    const slaveLabels = 'site="house",serial="SLAVE1",name="Fake SLAVE1"';
+    expect(series.get(`fronius_inverter_solar_energy_watt_hours_total{${slaveLabels}}`)).toBe('2000');
+    expect(series.has(`fronius_inverter_battery_charged_energy_watt_hours_total{${slaveLabels}}`)).toBe(false);
+    expect(series.has(`fronius_inverter_grid_power_watts{${slaveLabels}}`)).toBe(false);
+  });
+
+  it('exposes site totals', async () => {
+    master.setPower({ solarW: 3000, batteryW: -1000, gridW: 500, batterySoC: 60 });
+    slave.setPower({ solarW: 2000 });
+    await site.pollAllInverters();
+    clock.advance(HOUR);
+    await site.pollAllInverters();
+
+    const series = render();
+    expect(series.get('fronius_site_solar_power_watts{site="house"}')).toBe('5000');
+    expect(series.get('fronius_site_load_power_watts{site="house"}')).toBe('4500');
+    expect(series.get('fronius_site_solar_energy_watt_hours_total{site="house"}')).toBe('5000');
+    expect(series.get('fronius_site_info{site="house",name="House"}')).toBe('1');
+    expect(series.get('fronius_site_inverters{site="house"}')).toBe('2');
+  });
+
+  it('exposes faults and how long since each inverter answered', async () => {
+    master.setPower({ solarW: 0, statusCode: 3 });
+    slave.setPower({ solarW: 2000 });
+    await site.pollAllInverters();
+    slave.setPower(null);
+    clock.advance(30 * 1000);
+    await site.pollAllInverters();
+
+    const series = render();
+    expect(series.get('fronius_inverter_fault_code{site="house",serial="MASTER1",name="Fake MASTER1"}')).toBe('3');
+    expect(series.get('fronius_inverter_last_fetch_age_seconds{site="house",serial="MASTER1",name="Fake MASTER1"}')).toBe('0');
+    expect(series.get('fronius_inverter_fault_code{site="house",serial="SLAVE1",name="Fake SLAVE1"}')).toBe('0');
+    expect(series.get('fronius_inverter_last_fetch_age_seconds{site="house",serial="SLAVE1",name="Fake SLAVE1"}')).toBe('30');
+  });
+
+  it('exposes poll counts and latency per inverter, LiveOne pushes and scans', async () => {
+    master.setPower({ solarW: 1000 });
+    slave.setPower(null);
+    await site.pollAllInverters();
+    await site.pollAllInverters();
+
+    const series = render();
+    expect(series.get('fronius_polls_total{site="house",serial="SLAVE1"}')).toBe('2');
+    expect(series.get('fronius_poll_timeouts_total{site="house",serial="SLAVE1"}')).toBe('2');
+    expect(series.get('fronius_poll_errors_total{site="house",serial="SLAVE1"}')).toBe('0');
+    expect(series.get('fronius_poll_duration_seconds_count{site="house",serial="MASTER1"}')).toBe('2');
+    expect(series.get('fronius_poll_duration_seconds_bucket{site="house",serial="MASTER1",le="+Inf"}')).toBe('2');
+    expect(series.get('fronius_liveone_enabled{site="house"}')).toBe('0');
+    expect(series.get('fronius_liveone_pushes_total{site="house"}')).toBe('0');
+    expect(series.get('fronius_liveone_push_failures_total{site="house"}')).toBe('0');
+    expect(series.get('fronius_scans_total{site="house"}')).toBe('0');
+  });
+});
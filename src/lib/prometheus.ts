@@ -0,0 +1,164 @@
+import type { Site } from './site';
+
+type MetricType = 'gauge' | 'counter' | 'histogram';
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+  type: MetricType;
+  help: string;
+  lines: string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Collects samples and renders them in the Prometheus text exposition format, grouped by metric name with one
+ * HELP and TYPE line each. Missing readings (null/undefined) are left out rather than reported as zero.
+ */
+export class PrometheusWriter {
+  private families: Map<string, MetricFamily> = new Map();
+
+  private family(name: string, type: MetricType, help: string): MetricFamily {
+    let family = this.families.get(name);
+    if (!family) {
+      family = { type, help, lines: [] };
+      this.families.set(name, family);
+    }
+    return family;
+  }
+
+  public gauge(name: string, help: string, labels: Labels, value: number | null | undefined): void {
+    if (value === null || value === undefined || Number.isNaN(value)) {
+      return;
+    }
+    this.family(name, 'gauge', help).lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  public counter(name: string, help: string, labels: Labels, value: number | null | undefined): void {
+    if (value === null || value === undefined || Number.isNaN(value)) {
+      return;
+    }
+    this.family(name, 'counter', help).lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  // Buckets are per-bucket counts with their upper bounds (null = +Inf), as PollMetrics keeps them
+  public histogram(name: string, help: string, labels: Labels, buckets: Array<{ le: number | null; count: number }>, sum: number, count: number): void {
+    const family = this.family(name, 'histogram', help);
+    let cumulative = 0;
+    for (const bucket of buckets) {
+      cumulative += bucket.count;
+      family.lines.push(`${name}_bucket${formatLabels({ ...labels, le: bucket.le === null ? '+Inf' : String(bucket.le) })} ${cumulative}`);
+    }
+    family.lines.push(`${name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+    family.lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+  }
+
+  public toString(): string {
+    return Array.from(this.families, ([name, family]) =>
+      [`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`, ...family.lines].join('\n')
+    ).join('\n') + '\n';
+  }
+}
+
+/**
+ * Everything /api/metrics exposes, for every site: live power and state of charge, energy counters, faults and
+ * data age per inverter, the site's totals, poll latency and outcomes, LiveOne push counts and scan timing.
+ * Every series has a site label so several sites can be told apart.
+ */
+export function renderPrometheusMetrics(sites: Site[], now: Date = new Date()): string {
+  const out = new PrometheusWriter();
+
+  for (const site of sites) {
+    const siteLabels = { site: site.getId() };
+    const metrics = site.getLatestSiteMetrics();
+    const diagnostics = site.getDiagnostics();
+
+    // Site totals
+    out.gauge('fronius_site_info', 'Site name, always 1', { ...siteLabels, name: site.getName() }, 1);
+    out.gauge('fronius_site_inverters', 'Inverters known to the site', siteLabels, site.getInverters().length);
+    out.gauge('fronius_site_solar_power_watts', 'Solar generation across the site', siteLabels, metrics?.site?.solar?.powerW);
+    out.gauge('fronius_site_battery_power_watts', 'Battery power across the site (positive = discharging)', siteLabels, metrics?.site?.battery?.powerW);
+    out.gauge('fronius_site_battery_soc_percent', 'Battery state of charge across the site', siteLabels, metrics?.site?.battery?.soc);
+    out.gauge('fronius_site_grid_power_watts', 'Grid power at the feed-in point (positive = importing)', siteLabels, metrics?.site?.grid?.powerW);
+    out.gauge('fronius_site_load_power_watts', 'Site consumption', siteLabels, metrics?.site?.load?.powerW);
+
+    const totals = site.getEnergyTotals();
+    out.counter('fronius_site_solar_energy_watt_hours_total', 'Solar energy generated by the site', siteLabels, totals.solarWh);
+    out.counter('fronius_site_battery_charged_energy_watt_hours_total', 'Energy into the site\'s batteries', siteLabels, totals.batteryInWh);
+    out.counter('fronius_site_battery_discharged_energy_watt_hours_total', 'Energy out of the site\'s batteries', siteLabels, totals.batteryOutWh);
+    out.counter('fronius_site_grid_import_energy_watt_hours_total', 'Energy imported from the grid', siteLabels, totals.gridInWh);
+    out.counter('fronius_site_grid_export_energy_watt_hours_total', 'Energy exported to the grid', siteLabels, totals.gridOutWh);
+    out.counter('fronius_site_load_energy_watt_hours_total', 'Energy consumed by the site', siteLabels, totals.loadWh);
+
+    // Per inverter
+    for (const inverter of site.getInverters()) {
+      const labels = { ...siteLabels, serial: inverter.getSerialNumber(), name: inverter.getDisplayName() };
+      const powerData = inverter.getLastPowerData();
+      const energyData = inverter.getEnergyData();
+      const lastDataFetch = inverter.getLastDataFetch();
+      const faultCode = inverter.getFaultCode();
+
+      out.gauge('fronius_inverter_solar_power_watts', 'Solar generation of the inverter', labels, powerData?.solarW);
+      out.gauge('fronius_inverter_battery_power_watts', 'Battery power of the inverter (positive = discharging)', labels, powerData?.batteryW);
+      out.gauge('fronius_inverter_battery_soc_percent', 'Battery state of charge', labels, powerData?.batterySoC);
+      if (inverter.getIsMaster()) {
+        out.gauge('fronius_inverter_grid_power_watts', 'Grid power at the master\'s meter (positive = importing)', labels, powerData?.gridW);
+      }
+      out.gauge('fronius_inverter_fault_code', 'Inverter fault code (0 = no fault)', labels, faultCode === undefined ? 0 : Number(faultCode));
+      out.gauge('fronius_inverter_last_fetch_age_seconds', 'Seconds since the inverter last answered', labels,
+        lastDataFetch ? Math.max(0, (now.getTime() - lastDataFetch.getTime()) / 1000) : null);
+
+      out.counter('fronius_inverter_solar_energy_watt_hours_total', 'Solar energy generated by the inverter', labels, energyData.solarWh);
+      if (inverter.getBattery()) {
+        out.counter('fronius_inverter_battery_charged_energy_watt_hours_total', 'Energy into the inverter\'s battery', labels, energyData.batteryInWh);
+        out.counter('fronius_inverter_battery_discharged_energy_watt_hours_total', 'Energy out of the inverter\'s battery', labels, energyData.batteryOutWh);
+      }
+      if (inverter.getIsMaster()) {
+        out.counter('fronius_inverter_grid_import_energy_watt_hours_total', 'Energy imported through the master\'s meter', labels, energyData.gridInWh);
+        out.counter('fronius_inverter_grid_export_energy_watt_hours_total', 'Energy exported through the master\'s meter', labels, energyData.gridOutWh);
+      }
+    }
+
+    // Polling
+    out.counter('fronius_poll_ticks_total', 'Poll loop ticks run', siteLabels, diagnostics.polling.ticks);
+    out.counter('fronius_poll_skipped_ticks_total', 'Poll loop ticks skipped because the one before ran over', siteLabels, diagnostics.polling.skippedTicks);
+    out.gauge('fronius_poll_last_tick_seconds', 'How long the latest poll loop tick took', siteLabels,
+      diagnostics.polling.lastTickMs !== null ? diagnostics.polling.lastTickMs / 1000 : null);
+    for (const inverter of diagnostics.inverters) {
+      const labels = { ...siteLabels, serial: inverter.serialNumber };
+      out.histogram('fronius_poll_duration_seconds', 'Latency of each poll of the inverter', labels,
+        inverter.latency.buckets.map(bucket => ({ le: bucket.leMs !== null ? bucket.leMs / 1000 : null, count: bucket.count })),
+        inverter.latency.sumMs / 1000, inverter.latency.count);
+      out.counter('fronius_polls_total', 'Polls of the inverter', labels, inverter.polls);
+      out.counter('fronius_poll_timeouts_total', 'Polls of the inverter that timed out', labels, inverter.timeouts);
+      out.counter('fronius_poll_errors_total', 'Polls of the inverter that failed other than by timing out', labels, inverter.errors);
+    }
+
+    // LiveOne
+    const liveOne = site.getLiveOneService().getStatus();
+    out.gauge('fronius_liveone_enabled', 'Whether reports are pushed to LiveOne', siteLabels, liveOne.enabled ? 1 : 0);
+    out.counter('fronius_liveone_pushes_total', 'Reports LiveOne accepted', siteLabels, liveOne.pushes);
+    out.counter('fronius_liveone_push_failures_total', 'Reports that failed to reach LiveOne', siteLabels, liveOne.failures);
+
+    // Scanning
+    out.counter('fronius_scans_total', 'Network scans completed', siteLabels, diagnostics.scanning.scans);
+    out.counter('fronius_scan_duration_seconds_total', 'Time spent scanning', siteLabels, diagnostics.scanning.totalDurationMs / 1000);
+    out.gauge('fronius_scan_last_duration_seconds', 'How long the latest scan took', siteLabels,
+      diagnostics.scanning.lastDurationMs !== null ? diagnostics.scanning.lastDurationMs / 1000 : null);
+  }
+
+  return out.toString();
+}
@@ -0,0 +1,876 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Site } from './site';
+import { Inverter } from './inverter';
+import { Meter } from './meter';
+import { DiscoveryOptions } from './fronius-discovery';
+import { StateStore } from './state-store';
+import { FakeClock } from '@/test/fake-clock';
+import { FakeInverter } from '@/test/fake-inverter';
+import { FakeMeter } from '@/test/fake-meter';
+import { FroniusSimulator } from '@/simulator/fronius-simulator';
+import { formatLocalDateTime } from './date-utils';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('Site', () => {
+  let clock: FakeClock;
+  let site: Site;
+  let master: FakeInverter;
+  let slave: FakeInverter;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    clock = new FakeClock();
+    site = new Site('Test Site', { clock: clock.now });
+    master = new FakeInverter('MASTER1', { clock: clock.now, isMaster: true });
+    slave = new FakeInverter('SLAVE1', { clock: clock.now });
+    site.addInverter(master);
+    site.addInverter(slave);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Poll now, then again after the given time with the same power
+  async function pollFor(ms: number) {
+    await site.pollAllInverters();
+    clock.advance(ms);
+    await site.pollAllInverters();
+  }
+
+  describe('pollAllInverters', () => {
+    it('aggregates power across inverters into siteMetrics', async () => {
+      master.setPower({ solarW: 3000, batteryW: -1000, gridW: 500, batterySoC: 60 });
+      slave.setPower({ solarW: 2000 });
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics).toHaveLength(1);
+      const { site: totals } = metrics[0];
+      expect(totals.solar.powerW).toBe(5000);
+      expect(totals.battery.powerW).toBe(-1000);
+      expect(totals.battery.soc).toBe(60);
+      expect(totals.grid.powerW).toBe(500);
+      expect(totals.load.powerW).toBe(4500);
+      expect(metrics[0].MASTER1.solar.powerW).toBe(3000);
+      expect(metrics[0].SLAVE1.solar.powerW).toBe(2000);
+    });
+
+    it('adds the master\'s per-phase grid meter readings to siteMetrics', async () => {
+      const phase = { voltageV: 241.8, currentA: 3.26, powerW: 484, powerFactor: 0.615 };
+      master.setPower({ solarW: 0, gridW: 1452 });
+      master.setMeter({ phases: { L1: phase, L2: phase, L3: phase }, frequencyHz: 50, powerFactor: 0.665 });
+      slave.setPower(null);
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics[0].site.grid).toMatchObject({ phases: { L1: phase, L2: phase, L3: phase }, frequencyHz: 50, powerFactor: 0.665 });
+    });
+
+    it('adds per-tracker DC readings to each inverter\'s solar in siteMetrics', async () => {
+      const strings = {
+        '1': { voltageV: 380, currentA: 5.26, powerW: 2000 },
+        '2': { voltageV: 380, currentA: 2.63, powerW: 1000 }
+      };
+      master.setPower({ solarW: 3000, gridW: 0 });
+      master.setMppt(strings);
+      slave.setPower({ solarW: 500 });
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics[0].MASTER1.solar).toEqual({ powerW: 3000, energyWh: 0, strings });
+      expect(metrics[0].SLAVE1.solar.strings).toBeUndefined();
+    });
+
+    it('adds battery telemetry to the inverter\'s battery in siteMetrics', async () => {
+      master.setPower({ solarW: 0, batteryW: 800, gridW: 0, batterySoC: 55 });
+      master.setBatteryData({
+        voltageV: 395.6, currentA: 2.02, temperatureC: 21.5, socPercent: 55, capacityWh: 22464, designedCapacityWh: 22464,
+        reportedHealthPercent: 100, cellStatus: 3, health: { capacityWh: null, healthPercent: null, samples: 0 }
+      });
+      slave.setPower(null);
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics[0].MASTER1.battery).toMatchObject({ powerW: 800, soc: 55, voltageV: 395.6, temperatureC: 21.5, reportedHealthPercent: 100 });
+    });
+
+    it('adds subload and EV charger meters as devices and as metered flows of the site', async () => {
+      const charger = new FakeMeter('EV1', { clock: clock.now, category: 'ev' });
+      const pool = new FakeMeter('POOL1', { clock: clock.now, category: 'subload' });
+      site.addMeter(charger);
+      site.addMeter(pool);
+      master.setPower({ solarW: 2000, gridW: 6000 });
+      slave.setPower(null);
+      charger.setPower(7200);
+      pool.setPower(800);
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await pollFor(HOUR);
+
+      expect(metrics[1].EV1.meter).toEqual({ category: 'ev', powerW: 7200, energyInWh: 7200, energyOutWh: 0 });
+      expect(metrics[1].site.ev).toEqual({ powerW: 7200, energyWh: 7200 });
+      expect(metrics[1].site.subload).toEqual({ powerW: 800, energyWh: 800 });
+      expect(metrics[1].site.load.powerW).toBe(8000);   // Metered flows are part of load, not added to it
+    });
+
+    it('reads meters from their owner\'s meter readings', async () => {
+      const charger = new Meter('MASTER1', {
+        manufacturer: 'Fronius', model: 'Wattpilot', serial: 'EV1', location: 'EV Charger #1', locationCode: 512, deviceId: '1', enabled: true
+      }, clock.now);
+      site.addMeter(charger);
+      master.setPower({ solarW: 2000, gridW: 6000 });
+      slave.setPower(null);
+      const fetchMeters = vi.spyOn(master, 'fetchMeters').mockImplementation(async () => ({
+        meters: { '1': { Meter_Location_Current: 512, PowerReal_P_Sum: 7200 } },
+        timestamp: clock.now()
+      }));
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics[0].EV1.meter.powerW).toBe(7200);
+      expect(fetchMeters).toHaveBeenCalledTimes(1);
+    });
+
+    it('has no metered flows without subload or EV meters', async () => {
+      master.setPower({ solarW: 2000, gridW: 0 });
+      slave.setPower(null);
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics[0].site.ev).toEqual({ powerW: null, energyWh: null });
+      expect(metrics[0].site.subload).toEqual({ powerW: null, energyWh: null });
+    });
+
+    it('reports inverters that do not answer as offline', async () => {
+      master.setPower({ solarW: 1000, gridW: 0 });
+      slave.setPower(null);
+
+      const heartbeats: any[] = [];
+      site.on('inverterHeartbeat', h => heartbeats.push(h));
+      await site.pollAllInverters();
+
+      const status = Object.fromEntries(heartbeats.map(h => [h.serialNumber, h.status]));
+      expect(status).toEqual({ MASTER1: 'online', SLAVE1: 'offline' });
+    });
+
+    it('leaves an inverter that stops answering out of the site\'s power, keeping its energy', async () => {
+      master.setPower({ solarW: 3000, batteryW: -1000, gridW: 500 });
+      slave.setPower({ solarW: 2000 });
+      await pollFor(HOUR);
+      slave.setPower(null);
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      const { site: totals, SLAVE1 } = metrics[0];
+      expect(totals.solar.powerW).toBe(3000);
+      expect(totals.load.powerW).toBe(2500);
+      expect(totals.solar.energyWh).toBe(5000);
+      expect(SLAVE1.solar).toEqual({ powerW: null, energyWh: 2000 });
+      expect(site.calculateLoadPowerW()).toBe(2500);
+    });
+
+    it('leaves an absent inverter out of the site\'s power', async () => {
+      master.setPower({ solarW: 3000, gridW: 0 });
+      slave.setPower({ solarW: 2000 });
+      await site.pollAllInverters();
+      slave.markAbsent();
+
+      const metrics: any[] = [];
+      site.on('siteMetrics', m => metrics.push(m));
+      await site.pollAllInverters();
+
+      expect(metrics[0].site.solar.powerW).toBe(3000);
+      expect(site.getTotalSolarPowerW()).toBe(3000);
+    });
+  });
+
+  describe('poll scheduling', () => {
+    it('stops polling a slave that has gone to sleep on every tick', async () => {
+      master.setPower({ solarW: 0, gridW: 300 });
+      slave.setPower(null);
+      const fetchSpy = vi.spyOn(slave, 'fetchPowerFlow');
+
+      for (let i = 0; i < 10; i++) {
+        await site.pollAllInverters();
+        clock.advance(2000);
+      }
+
+      expect(fetchSpy).toHaveBeenCalledTimes(5);
+      expect(site.getDevices().find(device => device.serialNumber === 'SLAVE1')?.polling.state).toBe('sleeping');
+      expect(site.getDevices().find(device => device.serialNumber === 'MASTER1')?.polling.state).toBe('active');
+    });
+
+    it('doesn\'t go looking for a sleeping slave when there\'s no location to say it\'s daytime', async () => {
+      master.setPower({ solarW: 0, gridW: 300 });
+      slave.setPower(null);
+      const relocateSpy = vi.spyOn(site, 'relocateInverter').mockResolvedValue(false);
+
+      // A night's worth of probes, well past the failures that would otherwise trigger a search
+      for (let i = 0; i < 12 * 4; i++) {
+        await site.pollAllInverters();
+        clock.advance(15 * MINUTE);
+      }
+
+      expect(slave.getConsecutiveFailures()).toBeGreaterThan(15);
+      expect(relocateSpy).not.toHaveBeenCalled();
+    });
+
+    it('reports a sleeping inverter as sleeping rather than offline', async () => {
+      master.setPower({ solarW: 0, gridW: 300 });
+      slave.setPower(null);
+      const heartbeats: any[] = [];
+      site.on('inverterHeartbeat', h => h.serialNumber === 'SLAVE1' && heartbeats.push(h.status));
+
+      for (let i = 0; i < 5; i++) {
+        await site.pollAllInverters();
+      }
+
+      expect(heartbeats).toEqual(['offline', 'offline', 'offline', 'offline', 'sleeping']);
+    });
+  });
+
+  describe('getDiagnostics', () => {
+    it('counts each inverter\'s polls, failures and last success', async () => {
+      master.setPower({ solarW: 1000, gridW: 0 });
+      slave.setPower(null);
+      await site.pollAllInverters();
+      clock.advance(2000);
+      await site.pollAllInverters();
+
+      const inverters = Object.fromEntries(site.getDiagnostics().inverters.map(inverter => [inverter.serialNumber, inverter]));
+      expect(inverters.MASTER1).toMatchObject({ polls: 2, successes: 2, timeouts: 0, lastSuccess: clock.now() });
+      expect(inverters.SLAVE1).toMatchObject({ polls: 2, successes: 0, timeouts: 2, lastSuccess: null, consecutiveFailures: 2 });
+      expect(inverters.MASTER1.latency.count).toBe(2);
+    });
+  });
+
+  describe('startPolling', () => {
+    it('never overlaps polls, skipping ticks a slow poll runs over', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const slowPoll = master.fetchPowerFlow.bind(master);
+      vi.spyOn(master, 'fetchPowerFlow').mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        inFlight--;
+        return slowPoll();
+      });
+      master.setPower({ solarW: 1000, gridW: 0 });
+      slave.setPower({ solarW: 500 });
+
+      site.startPolling(20);
+      await new Promise(resolve => setTimeout(resolve, 300));
+      site.stopPolling();
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      const { polling } = site.getDiagnostics();
+      expect(maxInFlight).toBe(1);
+      expect(polling.ticks).toBeGreaterThan(1);
+      expect(polling.skippedTicks).toBeGreaterThan(0);
+      expect(polling.running).toBe(false);
+    });
+
+    it('cuts reports on the report period boundaries however far apart the polls are', async () => {
+      const fiveMinuteSite = new Site('Five Minute Site', { clock: clock.now, reportPeriodMinutes: 5 });
+      const inverter = new FakeInverter('MASTER2', { clock: clock.now, isMaster: true });
+      fiveMinuteSite.addInverter(inverter);
+      inverter.setPower({ solarW: 1200, gridW: 0 });
+      // Each poll reads the inverter 130 s after the last, so boundaries fall at odd points between polls
+      const poll = inverter.fetchPowerFlow.bind(inverter);
+      vi.spyOn(inverter, 'fetchPowerFlow').mockImplementation(async () => {
+        clock.advance(130 * 1000);
+        return poll();
+      });
+
+      const reports: any[] = [];
+      fiveMinuteSite.on('froniusMinutely', report => reports.push(report));
+      fiveMinuteSite.startPolling(10);
+      await vi.waitFor(() => expect(reports.length).toBeGreaterThanOrEqual(2), { timeout: 2000 });
+      fiveMinuteSite.stopPolling();
+
+      expect(reports.slice(0, 2).map(report => report.timestamp)).toEqual([
+        formatLocalDateTime(new Date('2025-09-14T10:10:00Z')),
+        formatLocalDateTime(new Date('2025-09-14T10:15:00Z'))
+      ]);
+      expect(reports.slice(0, 2).map(report => report.solarWhInterval)).toEqual([100, 100]);  // 1200 W for 5 minutes
+    });
+  });
+
+  describe('calculateLoadPowerW', () => {
+    it('is solar + grid import + battery discharge', async () => {
+      master.setPower({ solarW: 2000, batteryW: 1500, gridW: 700 });
+      slave.setPower({ solarW: 800 });
+      await site.pollAllInverters();
+
+      expect(site.calculateLoadPowerW()).toBe(5000);
+    });
+
+    it('only takes grid power from the master', async () => {
+      master.setPower({ solarW: 1000, gridW: 200 });
+      slave.setPower({ solarW: 1000, gridW: 5000 });
+      await site.pollAllInverters();
+
+      expect(site.calculateLoadPowerW()).toBe(2200);
+    });
+
+    it('never goes negative', async () => {
+      master.setPower({ solarW: 1000, batteryW: -3000, gridW: 0 });
+      slave.setPower(null);
+      await site.pollAllInverters();
+
+      expect(site.calculateLoadPowerW()).toBe(0);
+    });
+
+    it('is null before there is any data', () => {
+      expect(site.calculateLoadPowerW()).toBeNull();
+    });
+  });
+
+  describe('getEnergyTotals', () => {
+    it('sums integrated energy and derives load from the energy balance', async () => {
+      master.setPower({ solarW: 3000, batteryW: -1000, gridW: 500 });
+      slave.setPower({ solarW: 2000 });
+      await pollFor(HOUR);
+
+      const totals = site.getEnergyTotals();
+      expect(totals.solarWh).toBeCloseTo(5000);
+      expect(totals.batteryInWh).toBeCloseTo(1000);
+      expect(totals.batteryOutWh).toBeCloseTo(0);
+      expect(totals.gridInWh).toBeCloseTo(500);
+      expect(totals.gridOutWh).toBeCloseTo(0);
+      expect(totals.loadWh).toBeCloseTo(4500);
+    });
+
+    it('integrates changing power with the trapezoidal rule', async () => {
+      master.setPower({ solarW: 0, gridW: 0 });
+      slave.setPower({ solarW: 0 });
+      await site.pollAllInverters();
+
+      clock.advance(HOUR);
+      master.setPower({ solarW: 2000, gridW: 0 });
+      await site.pollAllInverters();
+
+      expect(site.getEnergyTotals().solarWh).toBeCloseTo(1000);
+    });
+
+    it('is all null with no inverters', () => {
+      const empty = new Site('Empty', { clock: clock.now });
+      expect(empty.getEnergyTotals()).toEqual({
+        solarWh: null,
+        batteryInWh: null,
+        batteryOutWh: null,
+        gridInWh: null,
+        gridOutWh: null,
+        loadWh: null
+      });
+    });
+  });
+
+  describe('generateFroniusMinutely', () => {
+    it('initialises its snapshot on the first call', async () => {
+      master.setPower({ solarW: 3000, gridW: 0 });
+      slave.setPower({ solarW: 1000 });
+      await pollFor(MINUTE);
+
+      expect(site.generateFroniusMinutely()).toBeNull();
+    });
+
+    it('reports energy per interval with an incrementing sequence', async () => {
+      master.setPower({ solarW: 3000, batteryW: -600, gridW: -1200 });
+      slave.setPower({ solarW: 1800 });
+      await pollFor(MINUTE);
+      site.generateFroniusMinutely();
+
+      clock.advance(MINUTE);
+      await site.pollAllInverters();
+      const first = site.generateFroniusMinutely()!;
+
+      clock.advance(MINUTE);
+      await site.pollAllInverters();
+      const second = site.generateFroniusMinutely()!;
+
+      expect(first.solarWhInterval).toBe(80);          // 4800 W for a minute
+      expect(first.batteryInWhInterval).toBe(10);
+      expect(first.gridOutWhInterval).toBe(20);
+      expect(first.loadWhInterval).toBe(50);           // 80 - 10 - 20
+      expect(first.solarW).toBe(4800);
+      expect(first.loadW).toBe(3000);
+
+      // The session ID is base64, so it can contain a '/' itself
+      const split = first.sequence.lastIndexOf('/');
+      const [session, sequence] = [first.sequence.slice(0, split), first.sequence.slice(split + 1)];
+      expect(second.sequence).toBe(`${session}/${Number(sequence) + 1}`);
+    });
+
+    it('splits solar between master (local) and slaves (remote) by current power', async () => {
+      master.setPower({ solarW: 3000, gridW: 0 });
+      slave.setPower({ solarW: 1000 });
+      await pollFor(MINUTE);
+      site.generateFroniusMinutely();
+
+      clock.advance(3 * MINUTE);
+      await site.pollAllInverters();
+      const report = site.generateFroniusMinutely()!;
+
+      expect(report.solarWhInterval).toBe(200);
+      expect(report.solarLocalWhInterval).toBe(150);
+      expect(report.solarRemoteWhInterval).toBe(50);
+      expect(report.solarLocalW).toBe(3000);
+      expect(report.solarRemoteW).toBe(1000);
+    });
+
+    it('carries rounding over between intervals so reported energy adds up to the total', async () => {
+      // 100 W is 1.67 Wh a minute
+      master.setPower({ solarW: 100, gridW: 0 });
+      slave.setPower(null);
+      await site.pollAllInverters();
+      clock.advance(1000);
+      await site.pollAllInverters();
+      site.generateFroniusMinutely();
+      const startWh = site.getEnergyTotals().solarWh!;
+
+      const intervals: number[] = [];
+      for (let i = 0; i < 6; i++) {
+        clock.advance(MINUTE);
+        await site.pollAllInverters();
+        intervals.push(site.generateFroniusMinutely()!.solarWhInterval);
+      }
+
+      expect(intervals).toEqual([2, 1, 2, 2, 1, 2]);
+      const endWh = site.getEnergyTotals().solarWh!;
+      expect(intervals.reduce((a, b) => a + b, 0)).toBe(Math.round(endWh) - Math.round(startWh));
+    });
+
+    it('interpolates energy to the boundary between two polls', async () => {
+      master.setPower({ solarW: 6000, gridW: 0 });
+      slave.setPower(null);
+      clock.set('2025-09-14T09:59:30Z');
+      await pollFor(MINUTE);                                      // 09:59:30 and 10:00:30
+      site.generateFroniusMinutely(new Date('2025-09-14T10:00:00Z'));
+
+      clock.advance(MINUTE);                                      // 10:01:30
+      await site.pollAllInverters();
+      const report = site.generateFroniusMinutely(new Date('2025-09-14T10:01:00Z'))!;
+
+      expect(report.timestamp).toBe(formatLocalDateTime(new Date('2025-09-14T10:01:00Z')));
+      expect(report.solarWhInterval).toBe(100);                  // Exactly 10:00 to 10:01 at 6000 W
+      expect(site.getFroniusMinutelyHistory()).toHaveLength(1);
+    });
+
+    it('reports EV charger energy per interval only when the site has one', async () => {
+      master.setPower({ solarW: 0, gridW: 7200 });
+      slave.setPower(null);
+      await pollFor(MINUTE);
+      site.generateFroniusMinutely();
+      clock.advance(MINUTE);
+      await site.pollAllInverters();
+      expect(site.generateFroniusMinutely()!.evWhInterval).toBeUndefined();
+
+      const charger = new FakeMeter('EV1', { clock: clock.now, category: 'ev' });
+      site.addMeter(charger);
+      charger.setPower(7200);
+      await site.pollAllInverters();
+      site.generateFroniusMinutely();   // The charger's first interval starts here
+
+      clock.advance(MINUTE);
+      await site.pollAllInverters();
+      const report = site.generateFroniusMinutely()!;
+
+      expect(report.evW).toBe(7200);
+      expect(report.evWhInterval).toBe(120);
+      expect(report.subloadWhInterval).toBeUndefined();
+    });
+
+    it('keeps the last 20 reports in history', async () => {
+      master.setPower({ solarW: 1000, gridW: 0 });
+      slave.setPower(null);
+      await pollFor(MINUTE);
+      site.generateFroniusMinutely();
+
+      for (let i = 0; i < 25; i++) {
+        clock.advance(MINUTE);
+        await site.pollAllInverters();
+        site.generateFroniusMinutely();
+      }
+
+      expect(site.getFroniusMinutelyHistory()).toHaveLength(20);
+    });
+  });
+});
+
+describe('Site checkpoints', () => {
+  let clock: FakeClock;
+  let dataDir: string;
+  let store: StateStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    clock = new FakeClock();
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'site-state-'));
+    store = new StateStore(dataDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  // A process's worth of site: restore the checkpoint, then rediscover the same master and slave
+  async function startSite() {
+    const site = new Site('Test Site', { clock: clock.now, stateStore: store });
+    const restores: any[] = [];
+    site.on('stateRestored', restore => restores.push(restore));
+    await site.restoreState();
+
+    const master = new FakeInverter('MASTER1', { clock: clock.now, isMaster: true });
+    const slave = new FakeInverter('SLAVE1', { clock: clock.now });
+    site.addInverter(master);
+    site.addInverter(slave);
+    master.setPower({ solarW: 1200, gridW: -600 });
+    slave.setPower({ solarW: 600 });
+    return { site, restores };
+  }
+
+  // Poll with a minute passing on every tick until enough reports are out, then wait for the last checkpoint
+  async function runUntilReports(site: Site, count: number) {
+    const reports: any[] = [];
+    site.on('froniusMinutely', report => reports.push(report));
+    const tick = site.pollAllInverters.bind(site);
+    vi.spyOn(site, 'pollAllInverters').mockImplementation(async () => {
+      clock.advance(MINUTE);
+      return tick();
+    });
+    const save = vi.spyOn(store, 'save');
+
+    site.startPolling(10);
+    await vi.waitFor(() => expect(reports.length).toBeGreaterThanOrEqual(count), { timeout: 2000 });
+    site.stopPolling();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await save.mock.results.at(-1)?.value;
+    return reports;
+  }
+
+  function sequenceNumber(report: any): number {
+    return Number(report.sequence.slice(report.sequence.lastIndexOf('/') + 1));
+  }
+
+  it('carries energy totals and the report sequence over a restart', async () => {
+    const first = await startSite();
+    const before = await runUntilReports(first.site, 3);
+    const totals = first.site.getEnergyTotals();
+    expect(totals.solarWh).toBeGreaterThan(0);
+
+    clock.advance(10 * 1000);
+    const second = await startSite();
+    expect(second.site.getEnergyTotals()).toEqual(totals);
+
+    const after = await runUntilReports(second.site, 2);
+    const last = before.at(-1);
+    expect(after[0].sequence).toBe(`${last.sequence.slice(0, last.sequence.lastIndexOf('/'))}/${sequenceNumber(last) + 1}`);
+    expect(second.site.getEnergyTotals().solarWh).toBeGreaterThan(totals.solarWh!);
+    expect(second.restores).toEqual([{ savedAt: expect.any(String), gapSeconds: 10 }]);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('starts the first report after a restart at the last checkpoint, not before it', async () => {
+    const first = await startSite();
+    const before = await runUntilReports(first.site, 3);
+
+    clock.advance(10 * 1000);
+    const second = await startSite();
+    const after = await runUntilReports(second.site, 2);
+
+    // Energy in the first report is only what was seen since the restart, never negative
+    expect(after[0].timestamp > before.at(-1).timestamp).toBe(true);
+    for (const field of ['solarWhInterval', 'solarLocalWhInterval', 'solarRemoteWhInterval', 'gridOutWhInterval', 'loadWhInterval']) {
+      expect(after[0][field]).toBeGreaterThanOrEqual(0);
+    }
+    expect(after[0].solarWhInterval).toBeGreaterThan(0);
+    expect(after[1].solarWhInterval).toBe(30);   // 1800 W for a minute
+  });
+
+  it('flags a long gap since the last checkpoint', async () => {
+    const first = await startSite();
+    await runUntilReports(first.site, 2);
+
+    clock.advance(HOUR);
+    const second = await startSite();
+
+    expect(second.restores).toEqual([{ savedAt: expect.any(String), gapSeconds: 3600 }]);
+    expect(second.site.getStatus().lastRestore).toEqual(second.restores[0]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('3600s gap since the last checkpoint'));
+  });
+
+  it('starts fresh from a corrupt state file, and checkpoints over it', async () => {
+    await fs.writeFile(store.getFilePath(), '{"version": 1, "savedAt": ');
+
+    const { site, restores } = await startSite();
+    expect(restores).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Ignoring unreadable'));
+
+    const reports = await runUntilReports(site, 2);
+    const state = JSON.parse(await fs.readFile(store.getFilePath(), 'utf8'));
+    expect(state.sequenceNumber).toBe(sequenceNumber(reports.at(-1)) + 1);
+    expect(state.inverters.MASTER1.isMaster).toBe(true);
+    expect(state.inverters.SLAVE1.isMaster).toBe(false);
+  });
+
+  it('starts fresh without a state file', async () => {
+    const { site, restores } = await startSite();
+    expect(restores).toEqual([]);
+    expect(site.getEnergyTotals().solarWh).toBeNull();
+
+    await runUntilReports(site, 2);
+    await expect(fs.access(store.getFilePath())).resolves.toBeUndefined();
+  });
+
+  it('counts a restored master\'s grid energy before it is rediscovered', async () => {
+    const first = await startSite();
+    await runUntilReports(first.site, 2);
+    const totals = first.site.getEnergyTotals();
+    expect(totals.gridOutWh).toBeGreaterThan(0);
+
+    // Only the slave has answered the scan so far
+    const second = new Site('Test Site', { clock: clock.now, stateStore: store });
+    await second.restoreState();
+    second.addInverter(new FakeInverter('SLAVE1', { clock: clock.now }));
+    expect(second.getEnergyTotals()).toEqual(totals);
+  });
+});
+
+describe('Site discovery', () => {
+  // Two copies of the same pair of inverters on different ports stand in for a DHCP change
+  let before: FroniusSimulator;
+  let after: FroniusSimulator;
+  let beforeHosts: string[];
+  let afterHosts: string[];
+
+  beforeAll(async () => {
+    before = new FroniusSimulator({ profile: 'day' });
+    after = new FroniusSimulator({ profile: 'day' });
+    beforeHosts = await before.start();
+    afterHosts = await after.start();
+  });
+
+  afterAll(async () => {
+    await before.stop();
+    await after.stop();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function recordChanges(site: Site) {
+    const changes: string[] = [];
+    site.on('inverterAdded', e => changes.push(`added ${e.serialNumber} at ${e.ip}`));
+    site.on('inverterMoved', e => changes.push(`moved ${e.serialNumber} from ${e.previousIp} to ${e.ip}`));
+    site.on('inverterRemoved', e => changes.push(`removed ${e.serialNumber}`));
+    return changes;
+  }
+
+  it('merges rescans by serial number, keeping each Inverter and its energy totals', async () => {
+    const discovery: DiscoveryOptions = { hosts: beforeHosts };
+    const site = new Site('Test Site', { discovery });
+    const changes = recordChanges(site);
+
+    await site.scanForDevices();
+    const master = site.getInverters().find(inverter => inverter.getIsMaster())!;
+    await site.pollAllInverters();
+    await site.pollAllInverters();
+    const solarWh = master.getEnergyData().solarWh;
+
+    // The slave moves, the master doesn't
+    discovery.hosts = [beforeHosts[0], afterHosts[1]];
+    await site.scanForDevices();
+
+    expect(site.getInverters()).toHaveLength(2);
+    expect(site.getInverters()).toContain(master);
+    expect(master.getEnergyData().solarWh).toBeGreaterThanOrEqual(solarWh);
+    expect(changes).toEqual([
+      `added 31347675 at ${beforeHosts[0]}`,
+      `added 31347674 at ${beforeHosts[1]}`,
+      `moved 31347674 from ${beforeHosts[1]} to ${afterHosts[1]}`
+    ]);
+  });
+
+  it('reuses the meter readings of the latest poll when a rescan checks for new meters', async () => {
+    const site = new Site('Test Site', { discovery: { hosts: beforeHosts } });
+    await site.scanForDevices();
+    await site.pollAllInverters();
+
+    const getSpy = vi.spyOn(axios, 'get');
+    await site.scanForDevices();
+    const masterMeterRequests = getSpy.mock.calls.filter(([url]) => url.startsWith(`http://${beforeHosts[0]}/`) && url.includes('GetMeterRealtimeData'));
+
+    expect(masterMeterRequests).toHaveLength(0);
+    expect(site.getInverters().find(inverter => inverter.getIsMaster())!.getMeter()?.location).toBe('Grid (feed-in point)');
+  });
+
+  it('marks inverters a scan misses as absent until they turn up again', async () => {
+    const discovery: DiscoveryOptions = { hosts: beforeHosts };
+    const site = new Site('Test Site', { discovery });
+    const changes = recordChanges(site);
+    await site.scanForDevices();
+
+    discovery.hosts = [beforeHosts[0]];
+    await site.scanForDevices();
+    const slave = site.getInverters().find(inverter => !inverter.getIsMaster())!;
+
+    expect(site.getInverters()).toHaveLength(2);
+    expect(slave.getAbsentSince()).toBeInstanceOf(Date);
+    expect(site.getDevices().find(device => device.serialNumber === '31347674')?.absentSince).toBeInstanceOf(Date);
+
+    discovery.hosts = beforeHosts;
+    await site.scanForDevices();
+
+    expect(slave.getAbsentSince()).toBeUndefined();
+    expect(changes.slice(2)).toEqual([
+      'removed 31347674',
+      `added 31347674 at ${beforeHosts[1]}`
+    ]);
+  });
+
+  it('picks up meters added to or taken off the bus on a rescan', async () => {
+    const loadMeter = { model: 'TS 65A-3', location: 'Load (consumption)', locationCode: 1, deviceId: '0', serial: 'LOAD1' };
+    const charger = { model: 'Wattpilot', location: 'EV Charger #1', locationCode: 512, deviceId: '1', serial: 'EV1' };
+    const pool = { model: 'TS 65A-1', location: 'Subload #1', locationCode: 256, deviceId: '2', serial: 'POOL1' };
+    let masterMeters = [loadMeter, charger];
+    // New inverters are asked for their meters at discovery, known ones share the request their polls make
+    vi.spyOn(Inverter, 'fetchMetersInfo').mockImplementation(async ip => ip === beforeHosts[0] ? masterMeters : []);
+    vi.spyOn(Inverter.prototype, 'fetchReportedMeters').mockImplementation(async function (this: Inverter) {
+      return this.getIp() === beforeHosts[0] ? masterMeters : [];
+    });
+    const site = new Site('Test Site', { discovery: { hosts: beforeHosts } });
+
+    await site.scanForDevices();
+    const master = site.getInverters().find(inverter => inverter.getIsMaster())!;
+
+    // With no grid meter, the load meter is the master's own
+    expect(master.getMeter()).toBe(loadMeter);
+    expect(site.getMeters().map(meter => meter.getId())).toEqual(['EV1']);
+
+    masterMeters = [loadMeter, pool];
+    await site.scanForDevices();
+
+    expect(site.getMeters().map(meter => meter.getId())).toEqual(['POOL1']);
+    expect(site.getInverters()).toContain(master);
+  });
+
+  it('looks for an inverter by serial number once it stops answering', async () => {
+    const site = new Site('Test Site', { discovery: { hosts: afterHosts } });
+    const master = new Inverter('127.0.0.1:1', '31347675', true, {
+      manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: 'Master', serialNumber: '31347675'
+    });
+    site.addInverter(master);
+    const updates: any[] = [];
+    site.on('siteUpdate', update => updates.push(update));
+
+    for (let i = 0; i < 15; i++) {
+      await site.pollAllInverters();
+    }
+
+    await vi.waitFor(() => expect(master.getIp()).toBe(afterHosts[0]));
+    expect(updates.at(-1).change).toMatchObject({ type: 'moved', previousIp: '127.0.0.1:1', ip: afterHosts[0] });
+
+    await site.pollAllInverters();
+    expect(master.getConsecutiveFailures()).toBe(0);
+  });
+});
+
+describe('getSites', () => {
+  let simulator: FroniusSimulator;
+  let strays: FroniusSimulator;
+  let hosts: string[];
+  let strayHosts: string[];
+  let dataDir: string;
+
+  beforeAll(async () => {
+    simulator = new FroniusSimulator({ profile: 'day' });
+    strays = new FroniusSimulator({ profile: 'day' });
+    hosts = await simulator.start();
+    strayHosts = await strays.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+    await strays.stop();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sites-'));
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('leaves FRONIUS_HOSTS out of the sites a config file lists', async () => {
+    const configFile = path.join(dataDir, 'fronius.config.json');
+    await fs.writeFile(configFile, JSON.stringify({
+      sites: [
+        { id: 'house', inverters: [{ host: hosts[0] }] },
+        { id: 'shed', inverters: [{ host: hosts[1] }] }
+      ]
+    }));
+    vi.stubEnv('FRONIUS_CONFIG', configFile);
+    vi.stubEnv('FRONIUS_DATA_DIR', dataDir);
+    vi.stubEnv('FRONIUS_HOSTS', strayHosts.join(','));
+
+    const { getSites } = await import('./site');
+    const sites = getSites();
+    try {
+      await vi.waitFor(() => {
+        expect(sites.every(site => site.getDiagnostics().scanning.scans > 0)).toBe(true);
+      }, { timeout: 5000 });
+
+      expect(sites.map(site => [site.getId(), site.getInverters().map(inverter => inverter.getIp())])).toEqual([
+        ['house', [hosts[0]]],
+        ['shed', [hosts[1]]]
+      ]);
+    } finally {
+      for (const site of sites) {
+        site.stopPolling();
+        site.getHistoryStore()?.stopMaintenance();
+      }
+    }
+  });
+});
@@ -1,11 +1,73 @@
-import { discoverFroniusInverters } from './fronius-discovery';
+import { discoverFroniusInverters, locateInverter, DiscoveryOptions, ScanProgress } from './fronius-discovery';
 import EventEmitter from 'events';
 import crypto from 'crypto';
-import { Inverter, PowerData } from './inverter';
+import { Inverter, PowerData, EnergyData, InverterEnergyState, MeterData } from './inverter';
+import { Meter, MeterEnergyData, meterCategory } from './meter';
+import { BidirectionalEnergyIntegratorState } from './energy-integrator';
 import { InverterInfo, BatteryInfo, MeterInfo } from '@/types/device';
-import { FroniusMinutely } from '@/types/fronius';
+import { FroniusMinutely, InverterMinutely } from '@/types/fronius';
 import { formatLocalDateTime } from './date-utils';
 import { LiveOnePushService } from './liveone-push';
+import { MqttPublisher } from './mqtt-publisher';
+import { InfluxSink } from './influx-sink';
+import { attachSink } from './time-series-sink';
+import { combineEnergySources } from './energy-sources';
+import { HistoryStore } from './history-store';
+import { getSiteDataDir } from './data-dir';
+import { StateStore } from './state-store';
+import { Clock, systemClock } from './clock';
+import { ConfigIssue, LiveOneCredentials, InverterConfig, loadInverterConfig, DEFAULT_SITE_ID, DEFAULT_SITE_NAME, getLocationFromEnv, getCadenceFromEnv, ReportPeriod, DEFAULT_POLL_INTERVAL_MS } from './inverter-config';
+import { PollScheduler } from './poll-scheduler';
+import { PollMetrics } from './poll-metrics';
+import { GeoLocation } from './sun-times';
+
+export interface SiteOptions {
+  id?: string;                  // Identifies the site in API requests (default: main)
+  liveOne?: LiveOneCredentials | null;  // The site's own LiveOne credentials, null for none (default: LIVEONE_* env)
+  historyStore?: HistoryStore;  // Persists minutely reports and siteMetrics samples when provided
+  stateStore?: StateStore;      // Checkpoints energy counters and sequence state when provided
+  discovery?: DiscoveryOptions; // e.g. fixed hosts for a simulator (default: FRONIUS_HOSTS, else scan the network)
+  clock?: Clock;                // Source of the current time (default: system clock)
+  configIssues?: ConfigIssue[]; // Problems found loading the config file, reported in getStatus()
+  location?: GeoLocation;       // Where the site is, for sunrise/sunset-aware polling of sleeping inverters
+  reportPeriodMinutes?: ReportPeriod;  // Minutes each FroniusMinutely report covers (default: 1)
+}
+
+export interface EnergyTotals {
+  solarWh: number | null;
+  batteryInWh: number | null;
+  batteryOutWh: number | null;
+  gridInWh: number | null;
+  gridOutWh: number | null;
+  loadWh: number | null;
+}
+
+// Energy totals as of one poll, kept so a report boundary that falls between polls can be interpolated
+interface EnergySample {
+  time: number;
+  totals: EnergyTotals;
+  inverters: Map<string, EnergyData>;
+  meters: Map<string, MeterEnergyData>;
+}
+
+// Meter categories whose flows are broken out of load in siteMetrics and reports
+type MeteredFlow = 'subload' | 'ev';
+const METERED_FLOWS: MeteredFlow[] = ['subload', 'ev'];
+
+// How often energy state is checkpointed between minutely reports
+const CHECKPOINT_INTERVAL_MS = 15 * 1000;
+
+// How often hardware energy registers and battery telemetry are read from each inverter
+const ENERGY_COUNTER_INTERVAL_MS = 10 * 1000;
+
+// How often the diagnostics event is emitted while polling
+const DIAGNOSTICS_INTERVAL_MS = 10 * 1000;
+
+// Failed polls in a row before looking for an inverter at a new address (about 30 s at the default poll rate)
+const RELOCATE_AFTER_FAILURES = 15;
+
+// Wait between searches for an inverter that stays silent - asleep overnight looks the same as moved
+const RELOCATE_RETRY_MS = 10 * 60 * 1000;
 
 interface FroniusDevice {
   ip: string;
@@ -22,13 +84,25 @@ interface FroniusDevice {
   battery?: BatteryInfo;
   inverterInfo?: InverterInfo;
   meter?: MeterInfo;
+  meters?: MeterInfo[];  // Every meter the device reports, grid meter included
   lastUpdated?: Date;
   lastDataFetch?: Date;
 }
 
+// The meter that belongs to an inverter: the grid meter, or failing that one at the load position
+function findOwnMeter(metersInfo: MeterInfo[]): MeterInfo | undefined {
+  return metersInfo.find(meter => meterCategory(meter.locationCode) === 'grid')
+    ?? metersInfo.find(meter => meterCategory(meter.locationCode) === 'load');
+}
+
 export class Site extends EventEmitter {
+  private id: string;
   private name: string;
   private inverters: Map<string, Inverter> = new Map();
+  private meters: Map<string, Meter> = new Map();  // Subload, EV charger and other non-grid meters, by id
+  private pollSchedulers: Map<string, PollScheduler> = new Map();
+  private pollMetrics: Map<string, PollMetrics> = new Map();
+  private location?: GeoLocation;
   private devices: Map<string, FroniusDevice> = new Map();  // Cache for discovered devices
   
   // Energy tracking
@@ -36,21 +110,66 @@ export class Site extends EventEmitter {
   private sequenceNumber: number = 0;
   private lastEnergySnapshot: Map<string, any> = new Map();
   private froniusMinutelyHistory: FroniusMinutely[] = [];
+  private lastInverterMinutely: InverterMinutely[] = [];  // Per-inverter records from the latest report
   private siteMetricsHistory: any[] = [];  // Store last 10 minutes of siteMetrics
   private lastSiteMetrics: any = null;
   
   // Polling and scanning state
-  private pollingInterval: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+  private pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS;
+  private pollLoopStart: number = 0;       // performance.now() when polling started - ticks are scheduled from it
+  private pollTick: number = 0;            // Index of the latest tick since pollLoopStart
+  private pollTicks: number = 0;           // Ticks run
+  private skippedPollTicks: number = 0;    // Ticks dropped because the one before ran over
+  private lastPollTickMs: number | null = null;
+  private maxPollTickMs: number | null = null;
+  private lastDiagnosticsEmit: number = 0;
   private isScanning: boolean = false;
+  private scanProgress: ScanProgress | null = null;  // Latest progress of the running scan
   private lastScan: Date | null = null;
-  private lastMinute: number | null = null;  // Track last minute for FroniusMinutely generation
+  private scans: number = 0;                         // Completed scans
+  private lastScanMs: number | null = null;
+  private totalScanMs: number = 0;
+  private reportPeriodMs: number;
+  private nextReportBoundary: number | null = null;  // Wall-clock time (ms) the next FroniusMinutely report is cut at
+  private lastReportTime: Date | null = null;  // Start of the current FroniusMinutely interval
+  private previousEnergySample: EnergySample | null = null;
+  private latestEnergySample: EnergySample | null = null;
   
   // LiveOne push service
   private liveOnePush: LiveOnePushService;
   
-  constructor(name: string = 'Main Site') {
+  // On-disk history
+  private historyStore: HistoryStore | null;
+  
+  // State checkpointing
+  private stateStore: StateStore | null;
+  private discoveryOptions: DiscoveryOptions;
+  private clock: Clock;
+  private configIssues: ConfigIssue[];
+  private discoveryIssues: ConfigIssue[] = [];  // From the latest scan
+  private relocating: Set<string> = new Set();  // Serials being searched for after going silent
+  private lastRelocateAttempt: Map<string, number> = new Map();
+  private restoredInverterStates: Map<string, InverterEnergyState> = new Map();  // Applied as inverters are discovered
+  private restoredMeterStates: Map<string, BidirectionalEnergyIntegratorState> = new Map();  // Applied as meters are discovered
+  private activeFaults: Map<string, string | number> = new Map();  // Fault code by serial, to announce changes
+  private checkpointingEnabled: boolean = false;  // Only after restore, so a fresh start can't overwrite saved state
+  private lastCheckpoint: number = 0;
+  private lastRestore: { savedAt: string; gapSeconds: number } | null = null;
+  
+  constructor(name: string = DEFAULT_SITE_NAME, options: SiteOptions = {}) {
     super();
+    this.id = options.id ?? DEFAULT_SITE_ID;
     this.name = name;
+    this.historyStore = options.historyStore ?? null;
+    this.stateStore = options.stateStore ?? null;
+    this.discoveryOptions = options.discovery ?? {};
+    this.clock = options.clock ?? systemClock;
+    this.configIssues = options.configIssues ?? [];
+    this.location = options.location;
+    this.reportPeriodMs = (options.reportPeriodMinutes ?? 1) * 60 * 1000;
+    this.checkpointingEnabled = this.stateStore === null;
     
     // Generate a 24-bit random number (3 bytes) and encode as base64
     const randomBytes = crypto.randomBytes(3);
@@ -58,51 +177,123 @@ export class Site extends EventEmitter {
     this.sessionId = randomBytes.toString('base64');
     
     // Initialize LiveOne push service
-    this.liveOnePush = new LiveOnePushService();
+    this.liveOnePush = new LiveOnePushService(options.liveOne);
   }
   
-  // Start polling inverters
-  public startPolling(intervalMs: number = 2000): void {
-    if (this.pollingInterval) {
+  /**
+   * Start polling inverters. Each tick waits for the last one to finish, so polls never overlap and readings
+   * reach the integrators in order. Ticks stay on a fixed grid from the start time rather than drifting by
+   * however long each one took; a tick that runs over skips the slots it missed.
+   */
+  public startPolling(intervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.polling) {
       return;
     }
     
-    this.pollingInterval = setInterval(async () => {
-      await this.pollAllInverters();
-      
-      // Check if we rolled over to a new minute
-      const currentMinute = new Date().getMinutes();
-      if (this.lastMinute !== currentMinute) {
-        // We just crossed a minute boundary
-        this.generateAndEmitFroniusMinutely();
-      }
-      this.lastMinute = currentMinute;
-    }, intervalMs);
-    
-    // Do initial poll and set initial minute
-    this.pollAllInverters();
-    this.lastMinute = new Date().getMinutes();
+    this.polling = true;
+    this.pollIntervalMs = intervalMs;
+    this.pollLoopStart = performance.now();
+    this.pollTick = 0;
+    this.nextReportBoundary = null;
+    this.runPollTick();
   }
   
   // Stop polling
   public stopPolling(): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+    this.polling = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
     }
   }
   
-  // Poll all inverters
-  private async pollAllInverters(): Promise<void> {
-    const promises = Array.from(this.inverters.values()).map(inverter => 
-      this.pollInverter(inverter)
+  private async runPollTick(): Promise<void> {
+    this.pollTimer = null;
+    const started = performance.now();
+    
+    try {
+      await this.pollAllInverters();
+      
+      if (!this.emitDueReports() && this.clock().getTime() - this.lastCheckpoint >= CHECKPOINT_INTERVAL_MS) {
+        this.saveCheckpoint();
+      }
+    } catch (error) {
+      console.error('Polling failed:', error);
+    }
+    
+    const finished = performance.now();
+    this.pollTicks++;
+    this.lastPollTickMs = Math.round(finished - started);
+    this.maxPollTickMs = Math.max(this.maxPollTickMs ?? 0, this.lastPollTickMs);
+    
+    if (finished - this.lastDiagnosticsEmit >= DIAGNOSTICS_INTERVAL_MS) {
+      this.lastDiagnosticsEmit = finished;
+      this.emit('diagnostics', this.getDiagnostics());
+    }
+    
+    if (!this.polling) {
+      return;
+    }
+    
+    const nextTick = Math.floor((finished - this.pollLoopStart) / this.pollIntervalMs) + 1;
+    this.skippedPollTicks += nextTick - this.pollTick - 1;
+    this.pollTick = nextTick;
+    this.pollTimer = setTimeout(
+      () => this.runPollTick(),
+      this.pollLoopStart + nextTick * this.pollIntervalMs - performance.now()
     );
+  }
+  
+  /**
+   * Poll loop timing and per-inverter poll latency, outcomes and polling state
+   */
+  public getDiagnostics() {
+    return {
+      timestamp: this.clock(),
+      polling: {
+        running: this.polling,
+        intervalMs: this.pollIntervalMs,
+        reportPeriodMinutes: this.reportPeriodMs / (60 * 1000),
+        nextReportAt: this.nextReportBoundary !== null ? new Date(this.nextReportBoundary) : null,
+        ticks: this.pollTicks,
+        skippedTicks: this.skippedPollTicks,
+        lastTickMs: this.lastPollTickMs,
+        maxTickMs: this.maxPollTickMs
+      },
+      scanning: {
+        scans: this.scans,
+        lastDurationMs: this.lastScanMs,
+        totalDurationMs: this.totalScanMs
+      },
+      inverters: Array.from(this.inverters.values()).map(inverter => ({
+        serialNumber: inverter.getSerialNumber(),
+        name: inverter.getDisplayName(),
+        ip: inverter.getIp(),
+        state: this.getPollScheduler(inverter).getState(),
+        consecutiveFailures: inverter.getConsecutiveFailures(),
+        clockSkew: inverter.getClockSkew(),
+        ...this.pollMetrics.get(inverter.getSerialNumber())!.getSnapshot()
+      }))
+    };
+  }
+  
+  // Poll every inverter that's due (sleeping ones are only probed now and then) and emit siteMetrics
+  public async pollAllInverters(): Promise<void> {
+    const polled = Array.from(this.inverters.values())
+      .filter(inverter => this.getPollScheduler(inverter).isDue());
+    const results = await Promise.allSettled(polled.map(inverter => this.pollInverter(inverter)));
     
-    await Promise.allSettled(promises);
+    // Stamp the sample with when the readings were taken - the master's if it answered, else the latest
+    const sampleTimes = results.flatMap((result, index) =>
+      result.status === 'fulfilled' && result.value ? [{ time: result.value.timestamp, isMaster: polled[index].getIsMaster() }] : []
+    );
+    const sampleTime = sampleTimes.find(sample => sample.isMaster)?.time
+      ?? sampleTimes.map(sample => sample.time).sort((a, b) => b.getTime() - a.getTime())[0]
+      ?? this.clock();
     
     // Build site metrics event with site and device data
     const siteMetrics: any = {
-      timestamp: formatLocalDateTime(new Date())
+      timestamp: formatLocalDateTime(sampleTime)
     };
     
     // Aggregate site-level data - use null if no devices report data
@@ -117,6 +308,7 @@ export class Site extends EventEmitter {
     let siteLoadW: number | null = null;
     let siteLoadWh: number | null = null;
     let batterySoCs: number[] = [];
+    let meterData: MeterData | undefined;
     
     // Track whether we have any data
     let hasSolarData = false;
@@ -125,34 +317,50 @@ export class Site extends EventEmitter {
     
     // Collect data from each inverter
     this.inverters.forEach((inverter, serialNumber) => {
-      const powerData = inverter.getLastPowerData();
+      const lastPowerData = inverter.getLastPowerData();
       const energyData = inverter.getEnergyData();
       
-      if (powerData) {
+      if (lastPowerData) {
         const deviceData: any = {};
+        // Energy totals carry on while an inverter is silent, but its last watts no longer count
+        const powerData = this.getCurrentPowerData(inverter);
         
         // Solar data
-        if (powerData.solarW !== undefined) {
+        if (lastPowerData.solarW !== undefined) {
+          const mpptData = inverter.getLastMpptData();
           deviceData.solar = {
-            powerW: powerData.solarW,
-            energyWh: Math.round(energyData.solarWh)
+            powerW: powerData?.solarW ?? null,
+            energyWh: Math.round(energyData.solarWh),
+            ...(mpptData && powerData && { strings: mpptData.trackers })
           };
           if (!hasSolarData) {
             siteSolarW = 0;
             siteSolarWh = 0;
             hasSolarData = true;
           }
-          siteSolarW! += powerData.solarW;
+          siteSolarW! += powerData?.solarW ?? 0;
           siteSolarWh! += energyData.solarWh;
         }
         
         // Battery data
-        if (powerData.batteryW !== undefined) {
+        if (lastPowerData.batteryW !== undefined) {
+          const batteryData = inverter.getLastBatteryData();
           deviceData.battery = {
-            powerW: powerData.batteryW,
+            powerW: powerData?.batteryW ?? null,
             energyInWh: Math.round(energyData.batteryInWh),
             energyOutWh: Math.round(energyData.batteryOutWh),
-            soc: powerData.batterySoC
+            soc: powerData?.batterySoC,
+            // Telemetry from the BMS, read with the energy counters
+            ...(batteryData && powerData && {
+              voltageV: batteryData.voltageV,
+              currentA: batteryData.currentA,
+              temperatureC: batteryData.temperatureC,
+              capacityWh: batteryData.capacityWh,
+              designedCapacityWh: batteryData.designedCapacityWh,
+              reportedHealthPercent: batteryData.reportedHealthPercent,
+              cellStatus: batteryData.cellStatus,
+              health: batteryData.health
+            })
           };
           if (!hasBatteryData) {
             siteBatteryW = 0;
@@ -160,20 +368,21 @@ export class Site extends EventEmitter {
             siteBatteryOutWh = 0;
             hasBatteryData = true;
           }
-          siteBatteryW! += powerData.batteryW;
+          siteBatteryW! += powerData?.batteryW ?? 0;
           siteBatteryInWh! += energyData.batteryInWh;
           siteBatteryOutWh! += energyData.batteryOutWh;
-          if (powerData.batterySoC !== undefined) {
+          if (powerData?.batterySoC !== undefined) {
             batterySoCs.push(powerData.batterySoC);
           }
         }
         
         // Grid data (only from master)
-        if (inverter.getIsMaster() && powerData.gridW !== undefined) {
-          siteGridW = powerData.gridW;
+        if (inverter.getIsMaster() && lastPowerData.gridW !== undefined) {
+          siteGridW = powerData?.gridW ?? null;
           siteGridInWh = energyData.gridInWh;
           siteGridOutWh = energyData.gridOutWh;
           hasGridData = true;
+          meterData = powerData && inverter.getLastMeterData();
         }
         
         // Add device data if it has any measurements
@@ -183,6 +392,35 @@ export class Site extends EventEmitter {
       }
     });
     
+    // Each meter as a device of its own, with subloads and EV chargers also summed for the site
+    const meteredFlows: Record<MeteredFlow, { powerW: number | null; energyWh: number | null }> = {
+      subload: { powerW: null, energyWh: null },
+      ev: { powerW: null, energyWh: null }
+    };
+    for (const [id, meter] of this.meters) {
+      const meterPower = meter.getLastPowerData();
+      if (!meterPower) {
+        continue;
+      }
+      const meterEnergy = meter.getEnergyData();
+      siteMetrics[id] = {
+        meter: {
+          category: meter.getCategory(),
+          powerW: meterPower.powerW,
+          energyInWh: Math.round(meterEnergy.inWh),
+          energyOutWh: Math.round(meterEnergy.outWh)
+        }
+      };
+      
+      const category = meter.getCategory();
+      if (category === 'subload' || category === 'ev') {
+        meteredFlows[category] = {
+          powerW: (meteredFlows[category].powerW ?? 0) + meterPower.powerW,
+          energyWh: (meteredFlows[category].energyWh ?? 0) + Math.round(meterEnergy.inWh)
+        };
+      }
+    }
+    
     // Calculate load only if we have the necessary data
     if (hasSolarData || hasGridData || hasBatteryData) {
       siteLoadW = Math.max(0, 
@@ -217,12 +455,18 @@ export class Site extends EventEmitter {
       grid: {
         powerW: siteGridW,
         energyInWh: siteGridInWh !== null ? Math.round(siteGridInWh) : null,
-        energyOutWh: siteGridOutWh !== null ? Math.round(siteGridOutWh) : null
+        energyOutWh: siteGridOutWh !== null ? Math.round(siteGridOutWh) : null,
+        phases: meterData?.phases ?? null,
+        frequencyHz: meterData?.frequencyHz ?? null,
+        powerFactor: meterData?.powerFactor ?? null
       },
       load: {
         powerW: siteLoadW,
         energyWh: siteLoadWh !== null ? Math.round(siteLoadWh) : null
-      }
+      },
+      // Metered parts of load, null without such meters
+      subload: meteredFlows.subload,
+      ev: meteredFlows.ev
     };
     
     // Store and emit the site metrics
@@ -230,25 +474,242 @@ export class Site extends EventEmitter {
     
     // Add to history and keep only last 10 minutes
     this.siteMetricsHistory.push(siteMetrics);
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+    const tenMinutesAgo = new Date(this.clock().getTime() - 10 * 60 * 1000);
     this.siteMetricsHistory = this.siteMetricsHistory.filter(
       metrics => new Date(metrics.timestamp) >= tenMinutesAgo
     );
     
-    this.emit('siteMetrics', siteMetrics);
+    // The sample time goes along too, for listeners that need better than the timestamp's whole seconds
+    this.emit('siteMetrics', siteMetrics, sampleTime);
+    
+    // Persist the sample
+    this.historyStore?.appendSample(siteMetrics);
+    
+    this.previousEnergySample = this.latestEnergySample;
+    this.latestEnergySample = this.takeEnergySample(sampleTime);
+  }
+  
+  /**
+   * Emit a report for each boundary the latest poll has passed. Boundaries fall on wall-clock multiples of the
+   * report period (epoch-aligned, which is also local-time-aligned for every time zone a whole 15 minutes off UTC),
+   * and are judged by when the readings were taken rather than when the poll finished, so a slow poll makes a
+   * report late but never moves or drops it. Returns whether any boundary was passed.
+   */
+  private emitDueReports(): boolean {
+    if (!this.latestEnergySample) {
+      return false;
+    }
+    
+    const sampleTime = this.latestEnergySample.time;
+    if (this.nextReportBoundary === null) {
+      this.nextReportBoundary = (Math.floor(sampleTime / this.reportPeriodMs) + 1) * this.reportPeriodMs;
+    }
+    
+    let passed = false;
+    while (sampleTime >= this.nextReportBoundary) {
+      this.generateAndEmitFroniusMinutely(new Date(this.nextReportBoundary));
+      this.nextReportBoundary += this.reportPeriodMs;
+      passed = true;
+    }
+    return passed;
+  }
+  
+  private takeEnergySample(time: Date): EnergySample {
+    return {
+      time: time.getTime(),
+      totals: this.getEnergyTotals(),
+      inverters: new Map(Array.from(this.inverters, ([serialNumber, inverter]) => [serialNumber, inverter.getEnergyData()])),
+      meters: new Map(Array.from(this.meters, ([id, meter]) => [id, meter.getEnergyData()]))
+    };
   }
   
-  // Poll a single inverter
-  private async pollInverter(inverter: Inverter): Promise<void> {
+  // Energy totals at an instant, interpolated linearly between the two latest polls
+  private energySampleAt(boundary: Date): EnergySample {
+    const time = boundary.getTime();
+    const after = this.latestEnergySample;
+    const before = this.previousEnergySample;
+    if (!after || !before || after.time <= before.time || time >= after.time) {
+      return { ...this.takeEnergySample(boundary), time };
+    }
+    
+    const fraction = Math.max(0, (time - before.time) / (after.time - before.time));
+    const interpolate = <T extends object>(from: T, to: T): T => {
+      const result = { ...to };
+      for (const key of Object.keys(to) as Array<keyof T>) {
+        // A total that was still null hadn't seen any energy, so it starts from zero
+        const [start, end] = [from[key] ?? 0, to[key]];
+        if (typeof start === 'number' && typeof end === 'number') {
+          result[key] = (start + (end - start) * fraction) as T[keyof T];
+        }
+      }
+      return result;
+    };
+    
+    const inverters = new Map<string, EnergyData>();
+    for (const [serialNumber, energyData] of after.inverters) {
+      const previous = before.inverters.get(serialNumber);
+      inverters.set(serialNumber, previous ? interpolate(previous, energyData) : energyData);
+    }
+    
+    const meters = new Map<string, MeterEnergyData>();
+    for (const [id, energyData] of after.meters) {
+      const previous = before.meters.get(id);
+      meters.set(id, previous ? interpolate(previous, energyData) : energyData);
+    }
+    
+    return { time, totals: interpolate(before.totals, after.totals), inverters, meters };
+  }
+  
+  // Poll a single inverter, returning its reading if it answered
+  private async pollInverter(inverter: Inverter): Promise<PowerData | null> {
+    const started = performance.now();
     const powerData = await inverter.fetchPowerFlow();
     const serialNumber = inverter.getSerialNumber();
     
+    this.pollMetrics.get(serialNumber)!.recordPoll(
+      Math.round(performance.now() - started),
+      this.clock(),
+      powerData ? undefined : inverter.getLastFailureReason() ?? 'error'
+    );
+    
+    const scheduler = this.getPollScheduler(inverter);
+    const previousState = scheduler.getState();
+    if (powerData) {
+      scheduler.recordSuccess();
+    } else {
+      scheduler.recordFailure();
+    }
+    if (scheduler.getState() !== previousState) {
+      console.log(`Inverter ${inverter.getDisplayName()} (${serialNumber}) is now ${scheduler.getState()}`);
+    }
+    
+    // String-level DC readings go with every poll, so each tracker can be charted alongside solar power
+    if (powerData) {
+      await inverter.fetchMpptData();
+    }
+    
+    // Per-phase readings from the grid meter go with every master poll
+    if (powerData && inverter.getIsMaster() && inverter.getMeter()) {
+      await inverter.fetchMeterData();
+    }
+    
+    // Meters are read through the inverter they're wired to, from the same request as its own meter's readings
+    const meters = Array.from(this.meters.values()).filter(meter => meter.getOwnerSerialNumber() === serialNumber);
+    if (meters.length > 0) {
+      const reading = powerData ? await inverter.fetchMeters() : null;
+      meters.forEach(meter => meter.updateFromReading(reading));
+    }
+    
+    // Read the hardware energy registers less often than power flow
+    const lastCounterFetch = inverter.getLastCounterFetch();
+    if (powerData && (!lastCounterFetch || this.clock().getTime() - lastCounterFetch.getTime() >= ENERGY_COUNTER_INTERVAL_MS)) {
+      await inverter.fetchEnergyCounters();
+      if (inverter.getBattery()) {
+        await inverter.fetchBatteryData();
+      }
+    }
+    
+    // A run of failures may mean DHCP has moved it. A silent slave is only looked for when the sun is known to be
+    // up - at night, or with no location to tell, it's most likely just asleep.
+    const mayHaveMoved = inverter.getIsMaster() || scheduler.isNight() === false;
+    if (!powerData && inverter.getConsecutiveFailures() >= RELOCATE_AFTER_FAILURES && mayHaveMoved) {
+      const lastAttempt = this.lastRelocateAttempt.get(serialNumber);
+      if (!this.relocating.has(serialNumber) && (lastAttempt === undefined || this.clock().getTime() - lastAttempt >= RELOCATE_RETRY_MS)) {
+        this.relocateInverter(inverter).catch(error => {
+          console.error(`Failed to relocate inverter ${serialNumber}:`, error);
+        });
+      }
+    }
+    
+    // Announce a fault when it's raised or cleared (or changes code)
+    if (powerData) {
+      const faultCode = inverter.getFaultCode();
+      if (faultCode !== this.activeFaults.get(serialNumber)) {
+        if (faultCode === undefined) {
+          this.activeFaults.delete(serialNumber);
+        } else {
+          this.activeFaults.set(serialNumber, faultCode);
+        }
+        this.emit('inverterFault', {
+          serialNumber,
+          faultCode: faultCode ?? null,
+          timestamp: inverter.getFaultTimestamp() ?? this.clock()
+        });
+      }
+    }
+    
     // Emit heartbeat event for this inverter
     this.emit('inverterHeartbeat', {
       serialNumber,
-      status: powerData ? 'online' : 'offline',
-      timestamp: new Date()
+      status: powerData ? 'online' : scheduler.getState() === 'active' ? 'offline' : 'sleeping',
+      timestamp: this.clock()
     });
+    
+    return powerData;
+  }
+  
+  // Add an inverter to the site, carrying on from its checkpointed energy totals if there are any
+  public addInverter(inverter: Inverter): void {
+    const serialNumber = inverter.getSerialNumber();
+    const restoredState = this.restoredInverterStates.get(serialNumber);
+    if (restoredState) {
+      inverter.restoreEnergyState(restoredState);
+      this.restoredInverterStates.delete(serialNumber);
+    }
+    
+    this.inverters.set(serialNumber, inverter);
+    this.pollMetrics.set(serialNumber, new PollMetrics());
+    this.pollSchedulers.set(serialNumber, new PollScheduler({
+      clock: this.clock,
+      location: this.location,
+      isMaster: inverter.getIsMaster()
+    }));
+  }
+  
+  // Add a non-grid meter to the site, carrying on from its checkpointed energy totals if there are any
+  public addMeter(meter: Meter): void {
+    const id = meter.getId();
+    const restoredState = this.restoredMeterStates.get(id);
+    if (restoredState) {
+      meter.restoreEnergyState(restoredState);
+      this.restoredMeterStates.delete(id);
+    }
+    
+    this.meters.set(id, meter);
+  }
+  
+  /**
+   * Bring the meters read through an inverter in line with the ones it reports, besides its own: new ones are
+   * added, and ones it no longer reports are dropped with their totals kept for the checkpoint in case they come
+   * back. Returns the added meters.
+   */
+  private syncMeters(device: FroniusDevice, metersInfo: MeterInfo[]): Meter[] {
+    const reported = metersInfo.map(info => new Meter(device.serialNumber, info, this.clock));
+    const reportedIds = new Set(reported.map(meter => meter.getId()));
+    
+    for (const [id, meter] of this.meters) {
+      if (meter.getOwnerSerialNumber() === device.serialNumber && !reportedIds.has(id)) {
+        console.log(`Meter ${meter.getDisplayName()} (${id}) is no longer reported by ${device.serialNumber} - removing it`);
+        this.restoredMeterStates.set(id, meter.getEnergyState());
+        this.meters.delete(id);
+      }
+    }
+    
+    const added = reported.filter(meter => !this.meters.has(meter.getId()));
+    added.forEach(meter => this.addMeter(meter));
+    return added;
+  }
+  
+  private getPollScheduler(inverter: Inverter): PollScheduler {
+    return this.pollSchedulers.get(inverter.getSerialNumber())!;
+  }
+  
+  // The inverter's latest power reading, unless it's absent or its latest poll failed (e.g. a sleeping slave)
+  private getCurrentPowerData(inverter: Inverter): PowerData | undefined {
+    if (inverter.getAbsentSince() || inverter.getConsecutiveFailures() > 0) {
+      return undefined;
+    }
+    return inverter.getLastPowerData();
   }
   
   // Discover and add inverters
@@ -259,99 +720,45 @@ export class Site extends EventEmitter {
     }
     
     this.isScanning = true;
-    this.lastScan = new Date();
+    this.scanProgress = null;
+    this.lastScan = this.clock();
+    const scanStarted = performance.now();
     
     // Emit initial scan status
     this.emit('scanStatus', { 
       state: 'SCANNING'
     });
     
-    // Emit scan status every second while scanning
+    // Emit scan status every second while scanning - progress changes per host, too often to send every update
     const scanStatusInterval = setInterval(() => {
       if (this.isScanning) {
         this.emit('scanStatus', { 
-          state: 'SCANNING'
+          state: 'SCANNING',
+          progress: this.scanProgress
         });
       }
     }, 1000);
     
     try {
       console.log('Starting device discovery...');
-      const devices = await discoverFroniusInverters();
+      const discoveryIssues: ConfigIssue[] = [];
+      const devices = await discoverFroniusInverters({
+        ...this.discoveryOptions,
+        onIssue: issue => discoveryIssues.push(issue),
+        onProgress: progress => { this.scanProgress = progress; }
+      });
+      this.discoveryIssues = discoveryIssues;
       
-      if (devices.length === 0) {
-        console.log('No Fronius devices found');
-      } else {
-        console.log(`Found ${devices.length} Fronius device(s)`);
-        
-        // Clear existing inverters
-        this.inverters.clear();
-        this.devices.clear();
-        
-        // Process each discovered device
-        for (const device of devices) {
-          console.log(`Fetching detailed info for ${device.ip}...`);
-          
-          // Fetch detailed information during discovery only
-          const [batteryInfo, inverterInfo, meterInfo] = await Promise.all([
-            Inverter.fetchBatteryInfo(device.ip),
-            Inverter.fetchInverterInfo(device.ip),
-            Inverter.fetchMeterInfo(device.ip)
-          ]);
-          
-          // Update device with fetched info
-          const updatedDevice = {
-            ...device,
-            battery: batteryInfo,
-            inverterInfo: inverterInfo,
-            meter: meterInfo
-          };
-          
-          // Store device in cache
-          this.devices.set(device.serialNumber, updatedDevice);
-          
-          // Create InverterInfo with fetched data or defaults
-          const inverterInfoForConstructor: InverterInfo = inverterInfo ? {
-            ...inverterInfo,
-            // Use the customName from discovery if the fetched one is empty
-            customName: inverterInfo.customName || device.info?.CustomName || device.hostname?.split('.')[0] || ''
-          } : {
-            manufacturer: 'Fronius',
-            model: 'Unknown',
-            pvPowerW: 0,
-            customName: device.info?.CustomName || device.hostname?.split('.')[0] || '',
-            serialNumber: device.serialNumber
-          };
-          
-          // Create new Inverter instance
-          const inverter = new Inverter(
-            device.ip,
-            device.serialNumber,
-            device.isMaster,
-            inverterInfoForConstructor,
-            device.hostname,
-            batteryInfo,
-            meterInfo
-          );
-          
-          this.inverters.set(device.serialNumber, inverter);
-          
-          console.log(`Added inverter: ${inverter.getDisplayName()} (${device.serialNumber})`);
-          if (batteryInfo) {
-            console.log(`  - Battery: ${batteryInfo.manufacturer} ${batteryInfo.model}, Capacity: ${(batteryInfo.capacityWh || 0) / 1000}kWh`);
-          }
-          if (inverterInfo) {
-            console.log(`  - Inverter: ${inverterInfo.model}, PV: ${(inverterInfo.pvPowerW || 0) / 1000}kW`);
-          }
-          if (meterInfo) {
-            console.log(`  - Meter: ${meterInfo.manufacturer} ${meterInfo.model} at ${meterInfo.location}`);
-          }
-        }
-      }
+      console.log(devices.length === 0 ? 'No Fronius devices found' : `Found ${devices.length} Fronius device(s)`);
+      await this.mergeDiscoveredDevices(devices);
     } catch (error) {
       console.error('Device discovery failed:', error);
     } finally {
       this.isScanning = false;
+      this.scanProgress = null;
+      this.scans++;
+      this.lastScanMs = Math.round(performance.now() - scanStarted);
+      this.totalScanMs += this.lastScanMs;
       
       // Stop the scan status interval
       if (scanStatusInterval) {
@@ -368,13 +775,195 @@ export class Site extends EventEmitter {
     }
   }
   
+  /**
+   * Merge scan results into the site by serial number. Known inverters keep their Inverter (and so their
+   * energy totals and fault state), following any change of address; new ones are added; ones the scan
+   * didn't find are marked absent rather than dropped, since a missed scan shouldn't lose their history.
+   */
+  private async mergeDiscoveredDevices(devices: FroniusDevice[]): Promise<void> {
+    const found = new Set<string>();
+    
+    for (const device of devices) {
+      found.add(device.serialNumber);
+      const existing = this.inverters.get(device.serialNumber);
+      
+      if (!existing) {
+        const inverter = await this.createInverter(device);
+        this.addInverter(inverter);
+        this.emit('inverterAdded', {
+          serialNumber: device.serialNumber,
+          ip: device.ip,
+          name: inverter.getDisplayName(),
+          timestamp: this.clock()
+        });
+        continue;
+      }
+      
+      const previousIp = existing.getIp();
+      existing.updateAddress(device.ip, device.hostname);
+      this.devices.set(device.serialNumber, { ...this.devices.get(device.serialNumber), ...device });
+      
+      // Meters can be added to or taken off the bus between scans
+      const metersInfo = await existing.fetchReportedMeters();
+      if (metersInfo) {
+        const meterInfo = findOwnMeter(metersInfo);
+        existing.updateMeter(meterInfo);
+        this.devices.set(device.serialNumber, { ...this.devices.get(device.serialNumber)!, meter: meterInfo, meters: metersInfo });
+        for (const meter of this.syncMeters(device, metersInfo.filter(info => info !== meterInfo))) {
+          console.log(`Inverter ${existing.getDisplayName()} (${device.serialNumber}) now reports a meter at ${meter.getInfo().location} (${meter.getId()})`);
+        }
+      }
+      
+      if (previousIp !== device.ip) {
+        console.log(`Inverter ${existing.getDisplayName()} (${device.serialNumber}) moved from ${previousIp} to ${device.ip}`);
+        this.emit('inverterMoved', {
+          serialNumber: device.serialNumber,
+          previousIp,
+          ip: device.ip,
+          timestamp: this.clock()
+        });
+      }
+      
+      if (existing.getAbsentSince()) {
+        console.log(`Inverter ${existing.getDisplayName()} (${device.serialNumber}) is back at ${device.ip}`);
+        existing.markPresent();
+        this.emit('inverterAdded', {
+          serialNumber: device.serialNumber,
+          ip: device.ip,
+          name: existing.getDisplayName(),
+          timestamp: this.clock()
+        });
+      }
+    }
+    
+    for (const [serialNumber, inverter] of this.inverters) {
+      if (!found.has(serialNumber) && !inverter.getAbsentSince()) {
+        console.log(`Inverter ${inverter.getDisplayName()} (${serialNumber}) wasn't found at ${inverter.getIp()} or anywhere else - marking it absent`);
+        inverter.markAbsent();
+        this.emit('inverterRemoved', {
+          serialNumber,
+          ip: inverter.getIp(),
+          timestamp: this.clock()
+        });
+      }
+    }
+  }
+  
+  /**
+   * Look for a silent inverter at a new address by its serial number, and move it there if found.
+   * Returns whether it was found somewhere new.
+   */
+  public async relocateInverter(inverter: Inverter): Promise<boolean> {
+    const serialNumber = inverter.getSerialNumber();
+    const previousIp = inverter.getIp();
+    const failures = inverter.getConsecutiveFailures();
+    
+    this.relocating.add(serialNumber);
+    this.lastRelocateAttempt.set(serialNumber, this.clock().getTime());
+    try {
+      console.log(`Inverter ${inverter.getDisplayName()} (${serialNumber}) hasn't answered ${failures} polls at ${previousIp} - looking for it elsewhere`);
+      const ip = await locateInverter(serialNumber, this.devices.get(serialNumber)?.mac, this.discoveryOptions);
+      
+      if (!ip || ip === previousIp) {
+        console.log(`Inverter ${inverter.getDisplayName()} (${serialNumber}) not found at another address`);
+        return false;
+      }
+      
+      console.log(`Inverter ${inverter.getDisplayName()} (${serialNumber}) moved from ${previousIp} to ${ip}`);
+      inverter.updateAddress(ip);
+      const cachedDevice = this.devices.get(serialNumber);
+      if (cachedDevice) {
+        this.devices.set(serialNumber, { ...cachedDevice, ip });
+      }
+      
+      const change = {
+        type: 'moved',
+        serialNumber,
+        previousIp,
+        ip,
+        reason: `No answer for ${failures} polls at ${previousIp}; found by serial number at ${ip}`,
+        timestamp: this.clock()
+      };
+      this.emit('inverterMoved', change);
+      this.emit('siteUpdate', { ...this.getSiteData(), change });
+      return true;
+    } finally {
+      this.relocating.delete(serialNumber);
+    }
+  }
+  
+  // Build an Inverter for a newly discovered device, fetching the details only needed once
+  private async createInverter(device: FroniusDevice): Promise<Inverter> {
+    console.log(`Fetching detailed info for ${device.ip}...`);
+    
+    const [batteryInfo, inverterInfo, metersInfo] = await Promise.all([
+      Inverter.fetchBatteryInfo(device.ip),
+      Inverter.fetchInverterInfo(device.ip),
+      Inverter.fetchMetersInfo(device.ip)
+    ]);
+    
+    // The grid (or load) meter belongs to the inverter; any others become devices of their own
+    const meters = metersInfo ?? [];
+    const meterInfo = findOwnMeter(meters);
+    
+    // Store device in cache
+    this.devices.set(device.serialNumber, {
+      ...device,
+      battery: batteryInfo,
+      inverterInfo: inverterInfo,
+      meter: meterInfo,
+      meters
+    });
+    
+    // Create InverterInfo with fetched data or defaults
+    const inverterInfoForConstructor: InverterInfo = inverterInfo ? {
+      ...inverterInfo,
+      // Use the customName from discovery if the fetched one is empty
+      customName: inverterInfo.customName || device.info?.CustomName || device.hostname?.split('.')[0] || ''
+    } : {
+      manufacturer: 'Fronius',
+      model: 'Unknown',
+      pvPowerW: 0,
+      customName: device.info?.CustomName || device.hostname?.split('.')[0] || '',
+      serialNumber: device.serialNumber
+    };
+    
+    const inverter = new Inverter(
+      device.ip,
+      device.serialNumber,
+      device.isMaster,
+      inverterInfoForConstructor,
+      device.hostname,
+      batteryInfo,
+      meterInfo,
+      this.clock
+    );
+    
+    console.log(`Added inverter: ${inverter.getDisplayName()} (${device.serialNumber})`);
+    if (batteryInfo) {
+      console.log(`  - Battery: ${batteryInfo.manufacturer} ${batteryInfo.model}, Capacity: ${(batteryInfo.capacityWh || 0) / 1000}kWh`);
+    }
+    if (inverterInfo) {
+      console.log(`  - Inverter: ${inverterInfo.model}, PV: ${(inverterInfo.pvPowerW || 0) / 1000}kW`);
+    }
+    if (meterInfo) {
+      console.log(`  - Meter: ${meterInfo.manufacturer} ${meterInfo.model} at ${meterInfo.location}`);
+    }
+    for (const meter of this.syncMeters(device, meters.filter(info => info !== meterInfo))) {
+      const info = meter.getInfo();
+      console.log(`  - Meter: ${info.manufacturer} ${info.model} at ${info.location} (${meter.getId()})`);
+    }
+    
+    return inverter;
+  }
+  
   // Calculate total solar power
   public getTotalSolarPowerW(): number | null {
     if (this.inverters.size === 0) return null;
     
     let total = 0;
     for (const inverter of this.inverters.values()) {
-      const powerData = inverter.getLastPowerData();
+      const powerData = this.getCurrentPowerData(inverter);
       if (powerData?.solarW !== undefined) {
         total += powerData.solarW;
       }
@@ -388,7 +977,7 @@ export class Site extends EventEmitter {
     
     let total = 0;
     for (const inverter of this.inverters.values()) {
-      const powerData = inverter.getLastPowerData();
+      const powerData = this.getCurrentPowerData(inverter);
       if (powerData?.batteryW !== undefined) {
         total += powerData.batteryW;
       }
@@ -400,7 +989,7 @@ export class Site extends EventEmitter {
   public getTotalGridPowerW(): number | null {
     for (const inverter of this.inverters.values()) {
       if (inverter.getIsMaster()) {
-        const powerData = inverter.getLastPowerData();
+        const powerData = this.getCurrentPowerData(inverter);
         return powerData?.gridW ?? null;
       }
     }
@@ -419,7 +1008,7 @@ export class Site extends EventEmitter {
     let hasData = false;
     
     for (const inverter of this.inverters.values()) {
-      const powerData = inverter.getLastPowerData();
+      const powerData = this.getCurrentPowerData(inverter);
       if (powerData) {
         if (powerData.solarW !== undefined) {
           totalSolar += powerData.solarW;
@@ -452,7 +1041,7 @@ export class Site extends EventEmitter {
     const socValues: number[] = [];
     
     for (const inverter of this.inverters.values()) {
-      const powerData = inverter.getLastPowerData();
+      const powerData = this.getCurrentPowerData(inverter);
       if (powerData?.batterySoC !== undefined) {
         socValues.push(powerData.batterySoC);
       }
@@ -465,14 +1054,7 @@ export class Site extends EventEmitter {
   }
   
   // Get energy totals
-  public getEnergyTotals(): {
-    solarWh: number | null;
-    batteryInWh: number | null;
-    batteryOutWh: number | null;
-    gridInWh: number | null;
-    gridOutWh: number | null;
-    loadWh: number | null;
-  } {
+  public getEnergyTotals(): EnergyTotals {
     if (this.inverters.size === 0) {
       return {
         solarWh: null,
@@ -497,9 +1079,19 @@ export class Site extends EventEmitter {
     let hasBattery = false;
     let hasGrid = false;
     
-    for (const inverter of this.inverters.values()) {
-      const energyData = inverter.getEnergyData();
-      
+    // Inverters restored from a checkpoint but not yet rediscovered still count, so site totals stay continuous
+    const sources = [
+      ...Array.from(this.inverters.values()).map(inverter => ({
+        energyData: inverter.getEnergyData(),
+        isMaster: inverter.getIsMaster()
+      })),
+      ...Array.from(this.restoredInverterStates.values()).map(state => ({
+        energyData: Inverter.energyDataFromState(state),
+        isMaster: state.isMaster ?? state.grid !== undefined
+      }))
+    ];
+    
+    for (const { energyData, isMaster } of sources) {
       if (energyData.solarWh > 0) {
         totals.solarWh += energyData.solarWh;
         hasSolar = true;
@@ -511,7 +1103,7 @@ export class Site extends EventEmitter {
         hasBattery = true;
       }
       
-      if (inverter.getIsMaster() && (energyData.gridInWh > 0 || energyData.gridOutWh > 0)) {
+      if (isMaster && (energyData.gridInWh > 0 || energyData.gridOutWh > 0)) {
         totals.gridInWh += energyData.gridInWh;
         totals.gridOutWh += energyData.gridOutWh;
         hasGrid = true;
@@ -560,6 +1152,24 @@ export class Site extends EventEmitter {
           gridInWh: energyData.gridInWh,
           gridOutWh: energyData.gridOutWh,
           loadWh: null  // Load is calculated at site level only
+        },
+        energyDrift: inverter.getEnergyDrift(),
+        absentSince: inverter.getAbsentSince()
+      };
+    });
+    
+    const meters = Array.from(this.meters.values()).map(meter => {
+      const energyData = meter.getEnergyData();
+      return {
+        id: meter.getId(),
+        ownerSerialNumber: meter.getOwnerSerialNumber(),
+        name: meter.getDisplayName(),
+        category: meter.getCategory(),
+        info: meter.getInfo(),
+        lastDataFetch: meter.getLastPowerData()?.timestamp,
+        energyCounters: {
+          inWh: energyData.inWh,
+          outWh: energyData.outWh
         }
       };
     });
@@ -567,6 +1177,7 @@ export class Site extends EventEmitter {
     return {
       name: this.name,
       devices: devices,
+      meters,
       siteMetrics: this.lastSiteMetrics,
       hasFault: this.hasFault(),
       faults: this.getFaults()
@@ -628,12 +1239,21 @@ export class Site extends EventEmitter {
   }
   
   // Generate and emit FroniusMinutely report
-  private async generateAndEmitFroniusMinutely(): Promise<void> {
-    const froniusMinutely = this.generateFroniusMinutely();
+  private async generateAndEmitFroniusMinutely(boundary: Date): Promise<void> {
+    const froniusMinutely = this.generateFroniusMinutely(boundary);
+    
+    // Checkpoint straight after the snapshot moves so a restart resumes from this report
+    this.saveCheckpoint();
     
     if (froniusMinutely) {
       this.emit('froniusMinutely', froniusMinutely);
       
+      // Persist the report and its per-inverter breakdown
+      this.historyStore?.appendMinutely(froniusMinutely);
+      for (const record of this.lastInverterMinutely) {
+        this.historyStore?.appendInverterMinutely(record);
+      }
+      
       // Push to LiveOne if enabled
       if (this.liveOnePush.isEnabled()) {
         await this.liveOnePush.pushFroniusMinutely(froniusMinutely);
@@ -641,9 +1261,13 @@ export class Site extends EventEmitter {
     }
   }
   
-  // Generate FroniusMinutely report
-  public generateFroniusMinutely(): FroniusMinutely | null {
-    const energyTotals = this.getEnergyTotals();
+  /**
+   * Generate a FroniusMinutely report covering up to the given boundary, with energy totals interpolated to that
+   * instant from the polls either side of it. Without a boundary the report runs up to now, using the current totals.
+   */
+  public generateFroniusMinutely(boundary?: Date): FroniusMinutely | null {
+    const energySample = boundary ? this.energySampleAt(boundary) : this.takeEnergySample(this.clock());
+    const energyTotals = energySample.totals;
     
     // Don't generate FroniusMinutely if we have no data yet
     if (energyTotals.solarWh === null && energyTotals.gridInWh === null) {
@@ -665,6 +1289,9 @@ export class Site extends EventEmitter {
       this.lastEnergySnapshot.set('total', totalCurrentWh);
       this.lastEnergySnapshot.set('master', { solarWh: 0 });
       this.lastEnergySnapshot.set('slave', { solarWh: 0 });
+      this.generateInverterMinutely('', '', this.clock(), energySample);  // Initialises the per-inverter snapshots
+      METERED_FLOWS.forEach(flow => this.meteredFlowInterval(flow, energySample));
+      this.lastReportTime = new Date(energySample.time);
       return null;
     }
     
@@ -686,6 +1313,15 @@ export class Site extends EventEmitter {
       loadWh: (lastSnapshot.loadWh || 0) + delta.loadWh
     };
     
+    // A total going backwards means an integrator lost its state - rebase rather than report a negative interval
+    for (const key of Object.keys(delta) as Array<keyof typeof delta>) {
+      if (delta[key] < 0) {
+        console.warn(`[Site] ${key} went backwards by ${-delta[key]}Wh, rebasing snapshot`);
+        delta[key] = 0;
+        nextSnapshot[key] = totalCurrentWh[key];
+      }
+    }
+    
     this.lastEnergySnapshot.set('total', nextSnapshot);
     
     // Calculate master/slave solar split
@@ -693,7 +1329,7 @@ export class Site extends EventEmitter {
     let slavePowerW = 0;
     
     for (const inverter of this.inverters.values()) {
-      const powerData = inverter.getLastPowerData();
+      const powerData = this.getCurrentPowerData(inverter);
       if (powerData?.solarW) {
         if (inverter.getIsMaster()) {
           masterPowerW += powerData.solarW;
@@ -728,9 +1364,20 @@ export class Site extends EventEmitter {
       faultTimestamp = faults[0].timestamp ? formatLocalDateTime(faults[0].timestamp) : null;
     }
     
+    const now = new Date(energySample.time);
+    const timestamp = formatLocalDateTime(now);
+    const sequence = `${this.sessionId}/${this.sequenceNumber}`;
+    
+    // After a restart there's no previous report in this process, so assume a full period
+    const intervalStart = this.lastReportTime ?? new Date(now.getTime() - this.reportPeriodMs);
+    this.lastReportTime = now;
+    const energySources = combineEnergySources(
+      Array.from(this.inverters.values()).map(inverter => inverter.getEnergySources(intervalStart))
+    );
+    
     const froniusMinutely: FroniusMinutely = {
-      timestamp: formatLocalDateTime(new Date()),
-      sequence: `${this.sessionId}/${this.sequenceNumber}`,
+      timestamp,
+      sequence,
       solarW: Math.round(totalSolarPowerW),
       solarWhInterval: delta.solarWh,
       
@@ -756,9 +1403,21 @@ export class Site extends EventEmitter {
       faultCode: faultCode,
       faultTimestamp: faultTimestamp,
       
-      generatorStatus: null
+      generatorStatus: null,
+      
+      energySources
     };
     
+    for (const flow of METERED_FLOWS) {
+      const interval = this.meteredFlowInterval(flow, energySample);
+      if (interval) {
+        froniusMinutely[`${flow}W`] = interval.powerW;
+        froniusMinutely[`${flow}WhInterval`] = interval.intervalWh;
+      }
+    }
+    
+    this.lastInverterMinutely = this.generateInverterMinutely(timestamp, sequence, intervalStart, energySample);
+    
     // Increment sequence number after use (post-increment)
     this.sequenceNumber++;
     
@@ -773,11 +1432,228 @@ export class Site extends EventEmitter {
     return froniusMinutely;
   }
   
+  /**
+   * Power and energy for one interval of a metered flow, summed over the meters in that category. The snapshot
+   * carries rounding over like the site totals do. Null when the site has no meters in the category.
+   */
+  private meteredFlowInterval(flow: MeteredFlow, energySample: EnergySample): { powerW: number; intervalWh: number } | null {
+    const meters = Array.from(this.meters.values()).filter(meter => meter.getCategory() === flow);
+    if (meters.length === 0) {
+      return null;
+    }
+    
+    const energyWh = meters.reduce((sum, meter) => sum + (energySample.meters.get(meter.getId())?.inWh ?? 0), 0);
+    const powerW = meters.reduce((sum, meter) => sum + (meter.getLastPowerData()?.powerW ?? 0), 0);
+    const lastSnapshot: { energyWh: number } | undefined = this.lastEnergySnapshot.get(flow);
+    
+    let intervalWh = lastSnapshot ? Math.round(energyWh - lastSnapshot.energyWh) : 0;
+    let nextSnapshotWh = lastSnapshot ? lastSnapshot.energyWh + intervalWh : energyWh;
+    if (intervalWh < 0) {
+      console.warn(`[Site] ${flow} energy went backwards by ${-intervalWh}Wh, rebasing snapshot`);
+      intervalWh = 0;
+      nextSnapshotWh = energyWh;
+    }
+    this.lastEnergySnapshot.set(flow, { energyWh: nextSnapshotWh });
+    
+    return { powerW: Math.round(powerW), intervalWh };
+  }
+  
+  // Generate FroniusMinutely-shaped records for each inverter, using the same rounding carry-over as the site report
+  private generateInverterMinutely(timestamp: string, sequence: string, intervalStart: Date, energySample: EnergySample): InverterMinutely[] {
+    const records: InverterMinutely[] = [];
+    const energyKeys: Array<keyof EnergyData> = ['solarWh', 'batteryInWh', 'batteryOutWh', 'gridInWh', 'gridOutWh'];
+    
+    for (const inverter of this.inverters.values()) {
+      const serialNumber = inverter.getSerialNumber();
+      const snapshotKey = `inverter:${serialNumber}`;
+      const energyData = energySample.inverters.get(serialNumber) ?? inverter.getEnergyData();
+      const lastSnapshot: EnergyData | undefined = this.lastEnergySnapshot.get(snapshotKey);
+      
+      // First time we see this inverter - start tracking from here
+      if (!lastSnapshot) {
+        this.lastEnergySnapshot.set(snapshotKey, { ...energyData });
+        continue;
+      }
+      
+      const delta = {} as EnergyData;
+      const nextSnapshot = {} as EnergyData;
+      for (const key of energyKeys) {
+        delta[key] = Math.round(energyData[key] - lastSnapshot[key]);
+        nextSnapshot[key] = lastSnapshot[key] + delta[key];
+        
+        // Rebase if the inverter's total went backwards (e.g. counters reset)
+        if (delta[key] < 0) {
+          delta[key] = 0;
+          nextSnapshot[key] = energyData[key];
+        }
+      }
+      this.lastEnergySnapshot.set(snapshotKey, nextSnapshot);
+      
+      const powerData = this.getCurrentPowerData(inverter);
+      const isMaster = inverter.getIsMaster();
+      const solarW = Math.round(powerData?.solarW ?? 0);
+      const faultTimestamp = inverter.getFaultTimestamp();
+      
+      records.push({
+        serialNumber,
+        timestamp,
+        sequence,
+        solarW,
+        solarWhInterval: delta.solarWh,
+        
+        solarLocalW: isMaster ? solarW : 0,
+        solarLocalWhInterval: isMaster ? delta.solarWh : 0,
+        
+        solarRemoteW: isMaster ? 0 : solarW,
+        solarRemoteWhInterval: isMaster ? 0 : delta.solarWh,
+        
+        loadW: 0,
+        loadWhInterval: 0,
+        
+        batteryW: Math.round(powerData?.batteryW ?? 0),
+        batteryInWhInterval: delta.batteryInWh,
+        batteryOutWhInterval: delta.batteryOutWh,
+        
+        gridW: isMaster ? Math.round(powerData?.gridW ?? 0) : 0,
+        gridInWhInterval: delta.gridInWh,
+        gridOutWhInterval: delta.gridOutWh,
+        
+        batterySOC: powerData?.batterySoC !== undefined ? Math.round(powerData.batterySoC * 10) / 10 : null,
+        
+        faultCode: inverter.getFaultCode() ?? null,
+        faultTimestamp: faultTimestamp ? formatLocalDateTime(faultTimestamp) : null,
+        
+        generatorStatus: null,
+        
+        energySources: inverter.getEnergySources(intervalStart)
+      });
+    }
+    
+    return records;
+  }
+  
+  // Restore energy totals, snapshots and sequence state from the last checkpoint
+  public async restoreState(): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+    
+    try {
+      const state = await this.stateStore.load();
+      if (!state) {
+        console.log('[State] No checkpoint found - starting fresh');
+        return;
+      }
+      
+      const gapSeconds = Math.round((this.clock().getTime() - new Date(state.savedAt).getTime()) / 1000);
+      
+      this.sessionId = state.sessionId;
+      this.sequenceNumber = state.sequenceNumber;
+      this.lastEnergySnapshot = new Map(Object.entries(state.energySnapshots));
+      this.restoredInverterStates = new Map(Object.entries(state.inverters));
+      this.restoredMeterStates = new Map(Object.entries(state.meters ?? {}));
+      this.lastRestore = { savedAt: state.savedAt, gapSeconds };
+      
+      // Energy flowing while we were down is not measured - the next report covers only what we saw
+      console.log(`[State] Restored checkpoint from ${state.savedAt} (${gapSeconds}s gap), continuing sequence ${this.sessionId}/${this.sequenceNumber}`);
+      if (gapSeconds > 60) {
+        console.warn(`[State] ${gapSeconds}s gap since the last checkpoint - energy during the gap was not recorded`);
+      }
+      
+      this.emit('stateRestored', this.lastRestore);
+    } catch (error) {
+      console.error('[State] Failed to restore checkpoint:', error);
+    } finally {
+      this.checkpointingEnabled = true;
+    }
+  }
+  
+  // Write a checkpoint of energy totals, snapshots and sequence state
+  private saveCheckpoint(): void {
+    if (!this.stateStore || !this.checkpointingEnabled) {
+      return;
+    }
+    
+    this.lastCheckpoint = this.clock().getTime();
+    
+    const inverters: Record<string, InverterEnergyState> = {};
+    // Keep restored state for inverters that haven't been rediscovered yet
+    for (const [serialNumber, state] of this.restoredInverterStates) {
+      inverters[serialNumber] = state;
+    }
+    for (const [serialNumber, inverter] of this.inverters) {
+      inverters[serialNumber] = inverter.getEnergyState();
+    }
+    
+    const meters: Record<string, BidirectionalEnergyIntegratorState> = Object.fromEntries(this.restoredMeterStates);
+    for (const [id, meter] of this.meters) {
+      meters[id] = meter.getEnergyState();
+    }
+    
+    this.stateStore.save({
+      savedAt: this.clock().toISOString(),
+      sessionId: this.sessionId,
+      sequenceNumber: this.sequenceNumber,
+      energySnapshots: Object.fromEntries(this.lastEnergySnapshot),
+      inverters,
+      meters
+    });
+  }
+  
   // Get FroniusMinutely history
   public getFroniusMinutelyHistory(): FroniusMinutely[] {
     return this.froniusMinutelyHistory;
   }
   
+  // Get the on-disk history store (null when persistence is disabled)
+  public getHistoryStore(): HistoryStore | null {
+    return this.historyStore;
+  }
+  
+  // Reload the in-memory history buffers from disk so they survive restarts
+  public async restoreHistory(): Promise<void> {
+    if (!this.historyStore) {
+      return;
+    }
+    
+    try {
+      const tenMinutesAgo = new Date(this.clock().getTime() - 10 * 60 * 1000);
+      const [minutely, samples] = await Promise.all([
+        this.historyStore.readRecentMinutely(20),
+        this.historyStore.readSamples(tenMinutesAgo, this.clock())
+      ]);
+      
+      // Anything generated while we were reading is newer, so restored records go first
+      const firstMinutely = this.froniusMinutelyHistory[0]?.timestamp;
+      const olderMinutely = firstMinutely
+        ? minutely.filter(report => new Date(report.timestamp) < new Date(firstMinutely))
+        : minutely;
+      this.froniusMinutelyHistory = [...olderMinutely, ...this.froniusMinutelyHistory].slice(-20);
+      
+      const firstSample = this.siteMetricsHistory[0]?.timestamp;
+      const olderSamples = firstSample
+        ? samples.filter(sample => new Date(sample.timestamp) < new Date(firstSample))
+        : samples;
+      this.siteMetricsHistory = [...olderSamples, ...this.siteMetricsHistory];
+      
+      if (!this.lastSiteMetrics && samples.length > 0) {
+        this.lastSiteMetrics = samples[samples.length - 1];
+      }
+      
+      console.log(`[History] Restored ${olderMinutely.length} minutely reports and ${olderSamples.length} samples`);
+    } catch (error) {
+      console.error('[History] Failed to restore history:', error);
+    }
+  }
+  
+  public getId(): string {
+    return this.id;
+  }
+  
+  public getName(): string {
+    return this.name;
+  }
+  
   // Get site info for SSE
   public getSiteInfo(): any {
     return this.getSiteData();
@@ -793,6 +1669,11 @@ export class Site extends EventEmitter {
     return Array.from(this.inverters.values());
   }
   
+  // Get meters other than the grid meters
+  public getMeters(): Meter[] {
+    return Array.from(this.meters.values());
+  }
+  
   // Get master inverters
   public getMasterInverters(): Inverter[] {
     return this.getInverters().filter(inv => inv.getIsMaster());
@@ -809,6 +1690,9 @@ export class Site extends EventEmitter {
       deviceCount: this.inverters.size,
       lastScan: this.lastScan,
       isScanning: this.isScanning,
+      scanProgress: this.scanProgress,
+      lastRestore: this.lastRestore,
+      configIssues: [...this.configIssues, ...this.discoveryIssues],
       devices: this.getDevices(),
       site: this.getSiteInfo()
     };
@@ -835,8 +1719,12 @@ export class Site extends EventEmitter {
         },
         lastUpdated: lastPowerData?.timestamp,
         lastDataFetch: lastDataFetch,
+        energyDrift: inverter.getEnergyDrift(),
         faultCode: inverter.getFaultCode(),
-        faultTimestamp: inverter.getFaultTimestamp()
+        faultTimestamp: inverter.getFaultTimestamp(),
+        absentSince: inverter.getAbsentSince(),
+        polling: this.getPollScheduler(inverter).getStatus(),
+        clockSkew: inverter.getClockSkew()
       };
     });
   }
@@ -846,14 +1734,83 @@ export class Site extends EventEmitter {
   }
 }
 
-// Singleton instance
-let siteInstance: Site | null = null;
+// Site instances, in config file order
+let siteInstances: Site[] | null = null;
+
+// Create, restore and start one site, keeping its history and state in dataDir
+function startSite(id: string, name: string, config: InverterConfig | null, dataDir: string | undefined, options: SiteOptions): Site {
+  const historyStore = HistoryStore.fromEnv(dataDir);
+  historyStore.startMaintenance();
+  
+  // Config file settings win over environment variables
+  const envCadence = getCadenceFromEnv();
+  const pollIntervalMs = config?.pollIntervalMs ?? envCadence.pollIntervalMs;
+  const site = new Site(name, {
+    ...options,
+    id,
+    historyStore,
+    stateStore: StateStore.fromEnv(dataDir),
+    discovery: { ...config, ...options.discovery },
+    location: config?.location ?? getLocationFromEnv(),
+    reportPeriodMinutes: config?.reportPeriodMinutes ?? envCadence.reportPeriodMinutes
+  });
+  site.restoreHistory();
+  
+  // Restore counters before the first poll or scan so nothing starts from zero
+  site.restoreState().finally(() => {
+    site.startPolling(pollIntervalMs);
+    site.scanForDevices();
+  });
+  return site;
+}
+
+// All sites. A config file with a "sites" array gives one per entry, anything else a single site.
+export function getSites(): Site[] {
+  if (!siteInstances) {
+    // Inverters listed in the config file are used instead of (or as well as) scanning
+    const inverterConfig = loadInverterConfig();
+    for (const issue of inverterConfig.issues) {
+      console.error(`[Config] ${issue.message}`);
+    }
+    
+    if (inverterConfig.sites && inverterConfig.sites.length > 0) {
+      // Each site keeps its own history and state under data/sites/<id>, and only pushes with its own credentials
+      siteInstances = inverterConfig.sites.map(siteConfig => {
+        console.log(`[Config] Site ${siteConfig.id}: ${siteConfig.config.inverters.length} inverter(s) configured${siteConfig.config.scan ? ', also scanning' : ''}`);
+        // FRONIUS_HOSTS has no site to go with, so only the single site takes it - here it'd be added to every one
+        return startSite(siteConfig.id, siteConfig.name, siteConfig.config, getSiteDataDir(siteConfig.id), {
+          configIssues: inverterConfig.issues,
+          liveOne: siteConfig.liveOne ?? null,
+          discovery: { hosts: [] }
+        });
+      });
+    } else {
+      if (inverterConfig.config) {
+        console.log(`[Config] ${inverterConfig.config.inverters.length} inverter(s) configured in ${inverterConfig.filePath}${inverterConfig.config.scan ? ', also scanning' : ''}`);
+      }
+      siteInstances = [startSite(DEFAULT_SITE_ID, DEFAULT_SITE_NAME, inverterConfig.config, undefined, {
+        configIssues: inverterConfig.issues
+      })];
+    }
+    
+    // Publish every site's events to an MQTT broker when one is configured
+    const mqttPublisher = MqttPublisher.fromEnv();
+    siteInstances.forEach(site => mqttPublisher?.attach(site));
+    
+    // Keep every sample and report in InfluxDB when it's configured
+    const influxSink = InfluxSink.fromEnv();
+    if (influxSink) {
+      siteInstances.forEach(site => attachSink(site, influxSink));
+    }
+  }
+  return siteInstances;
+}
 
-export function getSite(): Site {
-  if (!siteInstance) {
-    siteInstance = new Site();
-    siteInstance.startPolling(2000);
-    siteInstance.scanForDevices();
-  }
-  return siteInstance;
-}
\ No newline at end of file
+// The site with this id, the first site if no id is given, or null if there's no such site
+export function getSite(id?: string | null): Site | null {
+  const sites = getSites();
+  if (!id) {
+    return sites[0] ?? null;
+  }
+  return sites.find(site => site.getId() === id) ?? null;
+}
@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { InverterEnergyState } from './inverter';
+import { BidirectionalEnergyIntegratorState } from './energy-integrator';
+import { getDataDir } from './data-dir';
+
+const STATE_VERSION = 1;
+
+/**
+ * Everything needed to carry energy accounting across a restart
+ */
+export interface SiteState {
+  version: number;
+  savedAt: string;                                   // ISO 8601 time of the checkpoint
+  sessionId: string;                                 // FroniusMinutely sequence session
+  sequenceNumber: number;                            // Next FroniusMinutely sequence number
+  energySnapshots: Record<string, any>;              // Site.lastEnergySnapshot entries
+  inverters: Record<string, InverterEnergyState>;    // Integrator totals by serial number
+  meters?: Record<string, BidirectionalEnergyIntegratorState>;  // Subload/EV meter totals by meter id
+}
+
+/**
+ * Checkpoints site state to a single JSON file.
+ *
+ * Writes go to a temporary file which is then renamed over the previous
+ * checkpoint, so a crash mid-write never leaves a truncated state file.
+ */
+export class StateStore {
+  private filePath: string;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'state.json');
+  }
+
+  /**
+   * Create a store in the configured data directory, or a site's directory under it
+   */
+  public static fromEnv(dataDir: string = getDataDir()): StateStore {
+    return new StateStore(dataDir);
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  // Load the last checkpoint, or null if there isn't a usable one
+  public async load(): Promise<SiteState | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      const state = JSON.parse(content) as SiteState;
+      if (state.version !== STATE_VERSION) {
+        console.error(`[State] Ignoring ${this.filePath}: unsupported version ${state.version}`);
+        return null;
+      }
+      return state;
+    } catch (error: any) {
+      console.error(`[State] Ignoring unreadable ${this.filePath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  // Write a checkpoint (concurrent saves are serialised, the last one wins)
+  public save(state: Omit<SiteState, 'version'>): Promise<void> {
+    const content = JSON.stringify({ version: STATE_VERSION, ...state }, null, 2);
+
+    this.saving = this.saving.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, this.filePath);
+    }).catch(error => {
+      console.error('[State] Failed to save checkpoint:', error.message || error);
+    });
+
+    return this.saving;
+  }
+}
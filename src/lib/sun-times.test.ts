@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getSunTimes, getNextSunrise, isNight } from './sun-times';
+
+const hobart = { latitude: -42.88, longitude: 147.33 };
+const london = { latitude: 51.5, longitude: -0.12 };
+
+// Within a few minutes of published tables
+function expectNear(actual: Date | null, expected: string) {
+  expect(Math.abs(actual!.getTime() - new Date(expected).getTime())).toBeLessThan(5 * 60 * 1000);
+}
+
+describe('getSunTimes', () => {
+  it('matches published sunrise and sunset times', () => {
+    const hobartTimes = getSunTimes(new Date('2025-09-14T02:00:00Z'), hobart);
+    expectNear(hobartTimes.sunrise, '2025-09-13T20:15:00Z');   // 06:15 AEST
+    expectNear(hobartTimes.sunset, '2025-09-14T08:00:00Z');    // 18:00 AEST
+
+    const londonTimes = getSunTimes(new Date('2025-06-21T12:00:00Z'), london);
+    expectNear(londonTimes.sunrise, '2025-06-21T03:43:00Z');
+    expectNear(londonTimes.sunset, '2025-06-21T20:21:00Z');
+  });
+
+  it('has no sunrise or sunset in polar summer and winter', () => {
+    const svalbard = { latitude: 78, longitude: 15 };
+
+    expect(getSunTimes(new Date('2025-06-21T12:00:00Z'), svalbard)).toEqual({ sunrise: null, sunset: null, polarDay: true });
+    expect(isNight(new Date('2025-06-21T00:00:00Z'), svalbard)).toBe(false);
+    expect(isNight(new Date('2025-12-21T12:00:00Z'), svalbard)).toBe(true);
+  });
+});
+
+describe('isNight', () => {
+  it('is true either side of midnight and false through the day', () => {
+    expect(isNight(new Date('2025-09-14T12:00:00Z'), hobart)).toBe(true);    // 22:00 AEST
+    expect(isNight(new Date('2025-09-14T16:00:00Z'), hobart)).toBe(true);    // 02:00 AEST
+    expect(isNight(new Date('2025-09-14T02:00:00Z'), hobart)).toBe(false);   // 12:00 AEST
+  });
+});
+
+describe('getNextSunrise', () => {
+  it('finds tomorrow morning from the evening', () => {
+    expectNear(getNextSunrise(new Date('2025-09-14T12:00:00Z'), hobart), '2025-09-14T20:13:00Z');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Sunrise and sunset for a location, using the NOAA/suncalc approximation (good to a minute or two,
+ * which is plenty for deciding when inverters are likely asleep).
+ */
+
+export interface GeoLocation {
+  latitude: number;   // Degrees, north positive
+  longitude: number;  // Degrees, east positive
+}
+
+export interface SunTimes {
+  sunrise: Date | null;  // null during polar day or night
+  sunset: Date | null;
+  polarDay: boolean;     // The sun doesn't set
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+const SUNRISE_ALTITUDE = RAD * -0.833;  // Upper limb on the horizon, allowing for refraction
+
+const toDays = (date: Date) => date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+const fromJulian = (julian: number) => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+/**
+ * Sunrise and sunset of the solar day nearest the given time
+ */
+export function getSunTimes(date: Date, location: GeoLocation): SunTimes {
+  const lw = RAD * -location.longitude;
+  const phi = RAD * location.latitude;
+
+  const cycle = Math.round(toDays(date) - J0 - lw / (2 * Math.PI));
+  const approxNoon = J0 + lw / (2 * Math.PI) + cycle;
+  const meanAnomaly = RAD * (357.5291 + 0.98560028 * approxNoon);
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const eclipticLongitude = meanAnomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLongitude));
+  const transit = (ds: number) => J2000 + ds + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const cosHourAngle = (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, sunset: null, polarDay: cosHourAngle < -1 };
+  }
+
+  const hourAngle = Math.acos(cosHourAngle);
+  const noon = transit(approxNoon);
+  const set = transit(J0 + (hourAngle + lw) / (2 * Math.PI) + cycle);
+
+  return {
+    sunrise: fromJulian(noon - (set - noon)),
+    sunset: fromJulian(set),
+    polarDay: false
+  };
+}
+
+/**
+ * Whether the sun is down. During polar night this is always true, and during polar day always false.
+ */
+export function isNight(date: Date, location: GeoLocation): boolean {
+  const { sunrise, sunset, polarDay } = getSunTimes(date, location);
+  if (!sunrise || !sunset) {
+    return !polarDay;
+  }
+  return date < sunrise || date > sunset;
+}
+
+/**
+ * The next sunrise after the given time, or null if the sun won't rise in the next couple of days
+ */
+export function getNextSunrise(date: Date, location: GeoLocation): Date | null {
+  for (let day = 0; day <= 2; day++) {
+    const { sunrise } = getSunTimes(new Date(date.getTime() + day * DAY_MS), location);
+    if (sunrise && sunrise > date) {
+      return sunrise;
+    }
+  }
+  return null;
+}
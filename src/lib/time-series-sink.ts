@@ -0,0 +1,25 @@
+import type { Site } from './site';
+import { FroniusMinutely } from '@/types/fronius';
+
+/**
+ * Somewhere every siteMetrics sample and FroniusMinutely report is written for long-term storage, e.g. a
+ * time-series database. Writes must not block polling - implementations buffer and deliver in the background.
+ */
+export interface TimeSeriesSink {
+  writeSample(siteId: string, metrics: any, time: Date): void;  // time to the millisecond - metrics.timestamp has whole seconds
+  writeMinutely(siteId: string, report: FroniusMinutely): void;
+  flush(): Promise<void>;   // Deliver everything buffered so far
+  close(): Promise<void>;   // Flush and stop
+}
+
+// Feed a site's samples and reports into a sink, returning a function that stops it
+export function attachSink(site: Site, sink: TimeSeriesSink): () => void {
+  const onSample = (metrics: any, sampleTime: Date) => sink.writeSample(site.getId(), metrics, sampleTime);
+  const onMinutely = (report: FroniusMinutely) => sink.writeMinutely(site.getId(), report);
+  site.on('siteMetrics', onSample);
+  site.on('froniusMinutely', onMinutely);
+  return () => {
+    site.removeListener('siteMetrics', onSample);
+    site.removeListener('froniusMinutely', onMinutely);
+  };
+}
@@ -0,0 +1,68 @@
+import { loadFixtures, DEFAULT_FIXTURES_PATH } from './fronius-fixtures';
+import { FroniusSimulator, SIMULATOR_PROFILES, SimulatorProfile } from './fronius-simulator';
+
+/**
+ * Run the simulator from the command line:
+ *
+ *   npm run simulator -- --profile=day --port=8081
+ *
+ * Options:
+ *   --profile=day|night|diurnal   PV profile (default diurnal)
+ *   --port=N                      First inverter's port, the rest follow on (default 8081)
+ *   --load=W                      Household load in watts (default 1500)
+ *   --sleep-timeout=S             Seconds without PV before an inverter sleeps (default 900)
+ *   --unresponsive                Sleeping inverters stop answering requests
+ *   --fixtures=PATH               Captured responses to seed from (default fronius_raw_responses.txt)
+ */
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) {
+      args[match[1]] = match[2] ?? 'true';
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const profile = (args.profile ?? 'diurnal') as SimulatorProfile;
+  if (!SIMULATOR_PROFILES.includes(profile)) {
+    console.error(`[Simulator] Invalid profile "${profile}" - must be one of: ${SIMULATOR_PROFILES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const simulator = new FroniusSimulator({
+    fixtures: loadFixtures(args.fixtures ?? DEFAULT_FIXTURES_PATH),
+    profile,
+    basePort: Number(args.port ?? 8081),
+    loadW: args.load !== undefined ? Number(args.load) : undefined,
+    sleepTimeoutMs: args['sleep-timeout'] !== undefined ? Number(args['sleep-timeout']) * 1000 : undefined,
+    unresponsiveWhenSleeping: args.unresponsive === 'true'
+  });
+
+  const hosts = await simulator.start();
+
+  console.log(`[Simulator] Profile: ${profile}`);
+  for (const [index, inverter] of simulator.getInverters().entries()) {
+    console.log(`[Simulator] ${inverter.role.toUpperCase()} ${inverter.name} (S/N: ${inverter.serialNumber}) on http://${hosts[index]}`);
+  }
+  console.log(`[Simulator] Point the app at it with FRONIUS_HOSTS=${hosts.join(',')}`);
+  console.log('[Simulator] Script it with POST /simulator/state, e.g. {"profile":"night"} or {"fault":{"statusCode":9}}');
+
+  const shutdown = async () => {
+    console.log('[Simulator] Stopping');
+    await simulator.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('[Simulator] Failed to start:', error.message || error);
+  process.exit(1);
+});
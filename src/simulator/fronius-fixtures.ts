@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+export type SimulatorRole = 'master' | 'slave';
+
+// Raw API responses captured from one real inverter
+export interface InverterFixture {
+  role: SimulatorRole;
+  ip: string;
+  name: string;
+  serialNumber: string;
+  responses: Record<string, any>;  // Parsed JSON keyed by endpoint path
+}
+
+export const DEFAULT_FIXTURES_PATH = path.join(process.cwd(), 'fronius_raw_responses.txt');
+
+const INVERTER_HEADER = /^(MASTER|SLAVE) INVERTER \(([^)]+)\) - (.+)$/;
+const SERIAL_LINE = /^Serial Number: (\S+)/;
+const ENDPOINT_LINE = /^Endpoint: (\S+)/;
+
+/**
+ * Parse fronius_raw_responses.txt into per-inverter endpoint responses.
+ *
+ * The file is a series of inverter sections ("MASTER INVERTER (ip) - name"), each holding
+ * "=== ... ===" blocks of an "Endpoint:" line followed by the JSON body.
+ */
+export function parseFixtures(content: string): InverterFixture[] {
+  const fixtures: InverterFixture[] = [];
+  let current: InverterFixture | null = null;
+  let endpoint: string | null = null;
+  let body: string[] = [];
+
+  const flush = () => {
+    if (current && endpoint && body.length > 0) {
+      try {
+        current.responses[endpoint] = JSON.parse(body.join('\n'));
+      } catch (error: any) {
+        console.error(`[Simulator] Ignoring unparseable fixture for ${endpoint}: ${error.message}`);
+      }
+    }
+    endpoint = null;
+    body = [];
+  };
+
+  for (const line of content.split('\n')) {
+    const header = line.match(INVERTER_HEADER);
+    if (header) {
+      flush();
+      current = {
+        role: header[1] === 'MASTER' ? 'master' : 'slave',
+        ip: header[2],
+        name: header[3].trim(),
+        serialNumber: '',
+        responses: {}
+      };
+      fixtures.push(current);
+      continue;
+    }
+
+    const serial = line.match(SERIAL_LINE);
+    if (serial && current) {
+      current.serialNumber = serial[1];
+      continue;
+    }
+
+    if (line.startsWith('===')) {
+      flush();
+      continue;
+    }
+
+    const endpointMatch = line.match(ENDPOINT_LINE);
+    if (endpointMatch) {
+      flush();
+      endpoint = endpointMatch[1];
+      continue;
+    }
+
+    if (endpoint) {
+      body.push(line);
+    }
+  }
+  flush();
+
+  return fixtures;
+}
+
+/**
+ * Load fixtures from disk
+ */
+export function loadFixtures(filePath: string = DEFAULT_FIXTURES_PATH): InverterFixture[] {
+  return parseFixtures(readFileSync(filePath, 'utf8'));
+}
@@ -0,0 +1,282 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { InverterFixture, loadFixtures } from './fronius-fixtures';
+import { SimulatedInverter } from './simulated-inverter';
+
+// day = steady output, night = no PV, diurnal = a sine curve between sunrise and sunset on the simulator clock
+export type SimulatorProfile = 'day' | 'night' | 'diurnal';
+
+export const SIMULATOR_PROFILES: SimulatorProfile[] = ['day', 'night', 'diurnal'];
+
+export interface FroniusSimulatorOptions {
+  fixtures?: InverterFixture[];        // Default: parsed from fronius_raw_responses.txt
+  profile?: SimulatorProfile;          // Default: diurnal
+  dayFraction?: number;                // Fraction of rated output for the 'day' profile (default 0.6)
+  loadW?: number;                      // Household load on the master's meter (default 1500)
+  sunriseHour?: number;                // Local hour the diurnal curve starts (default 6)
+  sunsetHour?: number;                 // Local hour the diurnal curve ends (default 18)
+  sleepTimeoutMs?: number;             // Inverters sleep once PV has been zero this long (default 15 minutes)
+  unresponsiveWhenSleeping?: boolean;  // Sleeping inverters stop answering HTTP requests (default false)
+  host?: string;                       // Bind address (default 127.0.0.1)
+  basePort?: number;                   // First inverter's port, the rest follow on (default 0 = any free port)
+  now?: () => Date;                    // Injectable clock
+}
+
+// Body of POST /simulator/state
+export interface SimulatorStateUpdate {
+  profile?: SimulatorProfile;
+  loadW?: number;
+  solarW?: number | null;                                    // Override this inverter's PV (null clears)
+  fault?: { statusCode: number; errorCode?: number } | null; // Raise a fault (null clears)
+  sleeping?: boolean | null;                                 // Force sleep/wake (null returns to the sleep timeout)
+}
+
+const ROUTES: Record<string, (inverter: SimulatedInverter) => any> = {
+  '/solar_api/GetAPIVersion.cgi': inverter => inverter.getAPIVersion(),
+  '/solar_api/v1/GetPowerFlowRealtimeData.fcgi': inverter => inverter.getPowerFlowRealtimeData(),
+  '/solar_api/v1/GetInverterInfo.cgi': inverter => inverter.getInverterInfo(),
+  '/solar_api/v1/GetInverterRealtimeData.cgi': inverter => inverter.getInverterRealtimeData(),
+  '/solar_api/v1/GetStorageRealtimeData.cgi': inverter => inverter.getStorageRealtimeData(),
+  '/solar_api/v1/GetMeterRealtimeData.cgi': inverter => inverter.getMeterRealtimeData(),
+  '/api/components/inverter/readable': inverter => inverter.getComponentsReadable()
+};
+
+/**
+ * Local mock of a Fronius site - a master (meter + battery) and any slaves, each served on its own port.
+ *
+ * Every request advances the simulation to the current clock, so counters and SOC stay consistent
+ * with the power reported however often the simulator is polled.
+ */
+export class FroniusSimulator {
+  private inverters: SimulatedInverter[];
+  private servers: http.Server[] = [];
+  private hosts: string[] = [];
+
+  private profile: SimulatorProfile;
+  private dayFraction: number;
+  private loadW: number;
+  private sunriseHour: number;
+  private sunsetHour: number;
+  private host: string;
+  private basePort: number;
+  private now: () => Date;
+
+  constructor(options: FroniusSimulatorOptions = {}) {
+    this.profile = options.profile ?? 'diurnal';
+    this.dayFraction = options.dayFraction ?? 0.6;
+    this.loadW = options.loadW ?? 1500;
+    this.sunriseHour = options.sunriseHour ?? 6;
+    this.sunsetHour = options.sunsetHour ?? 18;
+    this.host = options.host ?? '127.0.0.1';
+    this.basePort = options.basePort ?? 0;
+    this.now = options.now ?? (() => new Date());
+
+    const fixtures = options.fixtures ?? loadFixtures();
+    const startedAt = this.now();
+    this.inverters = fixtures.map(fixture => new SimulatedInverter({
+      fixture,
+      sleepTimeoutMs: options.sleepTimeoutMs ?? 15 * 60 * 1000,
+      unresponsiveWhenSleeping: options.unresponsiveWhenSleeping ?? false,
+      startedAt
+    }));
+    this.advance();
+  }
+
+  /**
+   * Start one HTTP server per inverter, returning their host:port addresses
+   */
+  public async start(): Promise<string[]> {
+    for (const [index, inverter] of this.inverters.entries()) {
+      const server = http.createServer((request, response) => this.handleRequest(inverter, request, response));
+      const port = this.basePort ? this.basePort + index : 0;
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, this.host, () => resolve());
+      });
+
+      this.servers.push(server);
+      this.hosts.push(`${this.host}:${(server.address() as AddressInfo).port}`);
+    }
+
+    return this.getHosts();
+  }
+
+  public async stop(): Promise<void> {
+    await Promise.all(this.servers.map(server => new Promise<void>(resolve => {
+      // Drop requests held open by unresponsive inverters
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })));
+    this.servers = [];
+    this.hosts = [];
+  }
+
+  // Getters
+  public getHosts(): string[] { return [...this.hosts]; }
+  public getInverters(): SimulatedInverter[] { return [...this.inverters]; }
+  public getProfile(): SimulatorProfile { return this.profile; }
+  public getLoadW(): number { return this.loadW; }
+
+  public getInverter(serialNumber: string): SimulatedInverter | undefined {
+    return this.inverters.find(inverter => inverter.serialNumber === serialNumber);
+  }
+
+  public getMaster(): SimulatedInverter | undefined {
+    return this.inverters.find(inverter => inverter.role === 'master');
+  }
+
+  // Scripting
+  public setProfile(profile: SimulatorProfile): void {
+    this.advance();
+    this.profile = profile;
+    this.advance();
+  }
+
+  public setLoadW(loadW: number): void {
+    this.advance();
+    this.loadW = loadW;
+    this.advance();
+  }
+
+  /**
+   * Apply a state update to the site and (for per-inverter fields) one inverter
+   */
+  public applyUpdate(inverter: SimulatedInverter, update: SimulatorStateUpdate): void {
+    this.advance();
+
+    if (update.profile !== undefined) this.profile = update.profile;
+    if (update.loadW !== undefined) this.loadW = update.loadW;
+    if (update.solarW !== undefined) inverter.setSolarOverride(update.solarW);
+    if (update.sleeping !== undefined) inverter.setSleeping(update.sleeping);
+    if (update.fault === null) {
+      inverter.clearFault();
+    } else if (update.fault !== undefined) {
+      inverter.setFault(update.fault.statusCode, update.fault.errorCode);
+    }
+
+    this.advance();
+  }
+
+  /**
+   * Fraction of rated PV output for the current profile at the given time
+   */
+  public getSolarFraction(now: Date): number {
+    switch (this.profile) {
+      case 'day':
+        return this.dayFraction;
+      case 'night':
+        return 0;
+      case 'diurnal': {
+        const hour = now.getHours() + now.getMinutes() / 60 + now.getSeconds() / 3600;
+        if (hour <= this.sunriseHour || hour >= this.sunsetHour) return 0;
+        return Math.sin(Math.PI * (hour - this.sunriseHour) / (this.sunsetHour - this.sunriseHour));
+      }
+    }
+  }
+
+  /**
+   * Bring every inverter up to the current time and work out the new power flows
+   */
+  public advance(): void {
+    const now = this.now();
+    const fraction = this.getSolarFraction(now);
+    const solarByInverter = this.inverters.map(inverter => inverter.getAvailableSolarW(fraction, now));
+    const totalSolarW = solarByInverter.reduce((sum, solarW) => sum + solarW, 0);
+
+    // The master's battery soaks up surplus PV and covers any shortfall within its limits
+    const master = this.getMaster();
+    const battery = master?.battery;
+    const surplusW = totalSolarW - this.loadW;
+    let batteryW = 0;
+    if (battery && surplusW > 0 && battery.soc < 100) {
+      batteryW = -Math.min(surplusW, battery.maxPowerW);
+    } else if (battery && surplusW < 0 && battery.soc > battery.minSoc) {
+      batteryW = Math.min(-surplusW, battery.maxPowerW);
+    }
+
+    // The grid meter at the master's feed-in point sees whatever is left over
+    const gridW = this.loadW - totalSolarW - batteryW;
+
+    this.inverters.forEach((inverter, index) => {
+      const isMaster = inverter === master;
+      inverter.step({
+        solarW: solarByInverter[index],
+        batteryW: isMaster ? batteryW : 0,
+        gridW: isMaster ? gridW : 0,
+        loadW: isMaster ? this.loadW : 0
+      }, now);
+    });
+  }
+
+  private handleRequest(inverter: SimulatedInverter, request: http.IncomingMessage, response: http.ServerResponse): void {
+    this.advance();
+
+    const url = new URL(request.url ?? '/', 'http://simulator');
+
+    // Scripting endpoint (always answers, even when the inverter is asleep)
+    if (url.pathname === '/simulator/state') {
+      this.handleStateRequest(inverter, request, response);
+      return;
+    }
+
+    // A sleeping inverter that has dropped off the network never answers
+    if (!inverter.isResponsive()) {
+      return;
+    }
+
+    const route = ROUTES[url.pathname];
+    if (!route || request.method !== 'GET') {
+      this.sendJson(response, 404, { error: `Not found: ${url.pathname}` });
+      return;
+    }
+
+    this.sendJson(response, 200, route(inverter));
+  }
+
+  private handleStateRequest(inverter: SimulatedInverter, request: http.IncomingMessage, response: http.ServerResponse): void {
+    if (request.method === 'GET') {
+      this.sendJson(response, 200, this.describe(inverter));
+      return;
+    }
+
+    if (request.method !== 'POST') {
+      this.sendJson(response, 405, { error: 'Use GET or POST' });
+      return;
+    }
+
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      try {
+        const update = JSON.parse(body || '{}') as SimulatorStateUpdate;
+        if (update.profile !== undefined && !SIMULATOR_PROFILES.includes(update.profile)) {
+          this.sendJson(response, 400, { error: `Invalid profile - must be one of: ${SIMULATOR_PROFILES.join(', ')}` });
+          return;
+        }
+        this.applyUpdate(inverter, update);
+        this.sendJson(response, 200, this.describe(inverter));
+      } catch (error: any) {
+        this.sendJson(response, 400, { error: `Invalid JSON: ${error.message}` });
+      }
+    });
+  }
+
+  private describe(inverter: SimulatedInverter): any {
+    return {
+      serialNumber: inverter.serialNumber,
+      role: inverter.role,
+      profile: this.profile,
+      loadW: this.loadW,
+      power: inverter.getPower(),
+      soc: inverter.getSoc(),
+      sleeping: inverter.isSleeping(),
+      status: inverter.getStatus()
+    };
+  }
+
+  private sendJson(response: http.ServerResponse, status: number, body: any): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,378 @@
+import { InverterFixture, SimulatorRole } from './fronius-fixtures';
+
+// Status reported in GetInverterInfo / DeviceStatus
+export interface SimulatedStatus {
+  statusCode: number;
+  errorCode: number;
+  inverterState: string;
+}
+
+export interface SimulatedBattery {
+  capacityWh: number;
+  maxPowerW: number;
+  soc: number;       // %
+  minSoc: number;    // Discharge stops here
+}
+
+export interface SimulatedInverterOptions {
+  fixture: InverterFixture;
+  sleepTimeoutMs: number;              // Go to sleep once PV has been zero this long
+  unresponsiveWhenSleeping: boolean;   // Sleeping inverters stop answering HTTP requests
+  startedAt: Date;
+}
+
+// Power flows for one step of the simulation
+export interface SimulatedPower {
+  solarW: number;
+  batteryW: number;   // Positive = discharging
+  gridW: number;      // Positive = importing
+  loadW: number;
+}
+
+const RUNNING: SimulatedStatus = { statusCode: 7, errorCode: 0, inverterState: 'Running' };
+const SLEEPING: SimulatedStatus = { statusCode: 13, errorCode: 1175, inverterState: 'Sleeping' };
+
+const WS_PER_WH = 3600;
+
+// DC voltage the trackers hold while producing - at night they read the few volts in the fixtures
+const MPP_VOLTAGE_V = 380;
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * One simulated Gen24, seeded from captured API responses.
+ *
+ * Power is set by the owning FroniusSimulator each step; this class integrates it into the
+ * same cumulative registers the real inverter exposes, and renders the Solar API responses.
+ */
+export class SimulatedInverter {
+  public readonly role: SimulatorRole;
+  public readonly serialNumber: string;
+  public readonly name: string;
+  public readonly ratedPowerW: number;
+  public readonly battery: SimulatedBattery | null;
+  public readonly hasMeter: boolean;
+
+  private fixture: InverterFixture;
+  private sleepTimeoutMs: number;
+  private unresponsiveWhenSleeping: boolean;
+
+  // Scripted overrides
+  private solarOverrideW: number | null = null;
+  private fault: SimulatedStatus | null = null;
+  private forcedSleep: boolean | null = null;
+
+  // Simulation state
+  private power: SimulatedPower = { solarW: 0, batteryW: 0, gridW: 0, loadW: 0 };
+  private zeroSolarSince: Date | null = null;
+  private sleeping = false;
+  private now: Date;
+
+  // Cumulative registers
+  private pvTrackerWs: number[];
+  private batteryChargeWs: number;
+  private batteryDischargeWs: number;
+  private gridConsumedWh: number;
+  private gridProducedWh: number;
+  private acTotalWh: number;
+
+  constructor(options: SimulatedInverterOptions) {
+    const { fixture } = options;
+    this.fixture = fixture;
+    this.role = fixture.role;
+    this.serialNumber = fixture.serialNumber;
+    this.name = fixture.name;
+    this.sleepTimeoutMs = options.sleepTimeoutMs;
+    this.unresponsiveWhenSleeping = options.unresponsiveWhenSleeping;
+    this.now = options.startedAt;
+
+    const info = Object.values(fixture.responses['/solar_api/v1/GetInverterInfo.cgi']?.Body?.Data ?? {})[0] as any;
+    this.ratedPowerW = info?.PVPower ?? 10000;
+
+    const controller = fixture.responses['/solar_api/v1/GetStorageRealtimeData.cgi']?.Body?.Data?.['0']?.Controller;
+    this.battery = controller ? {
+      capacityWh: controller.Capacity_Maximum ?? 10000,
+      maxPowerW: 5000,
+      soc: controller.StateOfCharge_Relative ?? 50,
+      minSoc: 5
+    } : null;
+
+    const meter = this.getGridMeterFixture();
+    this.hasMeter = meter !== undefined;
+    this.gridConsumedWh = meter?.EnergyReal_WAC_Sum_Consumed ?? 0;
+    this.gridProducedWh = meter?.EnergyReal_WAC_Sum_Produced ?? 0;
+
+    const channels = this.getChannelsFixture() ?? {};
+    const trackerKeys = Object.keys(channels).filter(key => /^PV_ENERGYACTIVE_ACTIVE_SUM_\d+_U64$/.test(key)).sort();
+    this.pvTrackerWs = trackerKeys.length > 0 ? trackerKeys.map(key => channels[key]) : [0, 0];
+    this.batteryChargeWs = channels.BAT_ENERGYACTIVE_ACTIVECHARGE_SUM_01_U64 ?? 0;
+    this.batteryDischargeWs = channels.BAT_ENERGYACTIVE_ACTIVEDISCHARGE_SUM_01_U64 ?? 0;
+    this.acTotalWh = this.pvTrackerWs.reduce((sum, value) => sum + value, 0) / WS_PER_WH;
+  }
+
+  // Scripting
+  public setSolarOverride(solarW: number | null): void { this.solarOverrideW = solarW; }
+  public setFault(statusCode: number, errorCode: number = 0): void {
+    this.fault = { statusCode, errorCode, inverterState: 'Error' };
+  }
+  public clearFault(): void { this.fault = null; }
+  public setSleeping(sleeping: boolean | null): void { this.forcedSleep = sleeping; }
+
+  public isSleeping(): boolean { return this.forcedSleep ?? this.sleeping; }
+  public isResponsive(): boolean { return !(this.unresponsiveWhenSleeping && this.isSleeping()); }
+  public getPower(): SimulatedPower { return { ...this.power }; }
+  public getSoc(): number | null { return this.battery ? this.battery.soc : null; }
+  public getFault(): SimulatedStatus | null { return this.fault; }
+
+  public getStatus(): SimulatedStatus {
+    if (this.fault) return this.fault;
+    return this.isSleeping() ? SLEEPING : RUNNING;
+  }
+
+  /**
+   * Solar power this inverter would produce given the profile's fraction of rated output
+   */
+  public getAvailableSolarW(fraction: number, now: Date): number {
+    const solarW = this.solarOverrideW ?? Math.round(this.ratedPowerW * fraction);
+
+    // Track how long PV has been dark for the sleep timeout
+    if (solarW > 0) {
+      this.zeroSolarSince = null;
+      this.sleeping = false;
+    } else {
+      this.zeroSolarSince = this.zeroSolarSince ?? now;
+      if (now.getTime() - this.zeroSolarSince.getTime() >= this.sleepTimeoutMs) {
+        this.sleeping = true;
+      }
+    }
+
+    if (this.fault || this.isSleeping()) return 0;
+    return solarW;
+  }
+
+  /**
+   * Integrate the previous step's power over elapsed time, then take on the new power
+   */
+  public step(power: SimulatedPower, now: Date): void {
+    const seconds = Math.max(0, (now.getTime() - this.now.getTime()) / 1000);
+    const previous = this.power;
+
+    // Split PV across trackers in proportion to their lifetime yield
+    const totalTrackerWs = this.pvTrackerWs.reduce((sum, value) => sum + value, 0);
+    this.pvTrackerWs = this.pvTrackerWs.map(value => {
+      const share = totalTrackerWs > 0 ? value / totalTrackerWs : 1 / this.pvTrackerWs.length;
+      return value + previous.solarW * share * seconds;
+    });
+
+    if (previous.batteryW > 0) {
+      this.batteryDischargeWs += previous.batteryW * seconds;
+    } else {
+      this.batteryChargeWs += -previous.batteryW * seconds;
+    }
+
+    if (this.battery) {
+      const socDelta = (-previous.batteryW * seconds / WS_PER_WH) / this.battery.capacityWh * 100;
+      this.battery.soc = Math.min(100, Math.max(0, this.battery.soc + socDelta));
+    }
+
+    if (this.hasMeter) {
+      if (previous.gridW > 0) {
+        this.gridConsumedWh += previous.gridW * seconds / WS_PER_WH;
+      } else {
+        this.gridProducedWh += -previous.gridW * seconds / WS_PER_WH;
+      }
+    }
+
+    this.acTotalWh += Math.max(0, previous.solarW + previous.batteryW) * seconds / WS_PER_WH;
+
+    this.power = power;
+    this.now = now;
+  }
+
+  // Responses
+
+  public getAPIVersion(): any {
+    return {
+      APIVersion: 1,
+      BaseURL: '/solar_api/v1/',
+      CompatibilityRange: '1.8-1'
+    };
+  }
+
+  public getPowerFlowRealtimeData(): any {
+    const isMaster = this.role === 'master';
+    const status = this.getStatus();
+
+    const inverter: any = {
+      Battery_Mode: this.battery ? 'normal' : undefined,
+      DT: 1,
+      E_Day: null,
+      E_Total: Math.round(this.acTotalWh),
+      E_Year: null,
+      P: Math.round(this.power.solarW + this.power.batteryW),
+      SOC: this.battery ? this.battery.soc : undefined
+    };
+
+    // Gen24 power flow doesn't carry device status - scripted faults add one so fault handling can be exercised
+    if (this.fault) {
+      inverter.DeviceStatus = { StatusCode: status.statusCode, ErrorCode: status.errorCode };
+    }
+
+    return this.wrap({
+      Inverters: { '1': inverter },
+      Site: {
+        BackupMode: false,
+        BatteryStandby: false,
+        E_Day: null,
+        E_Total: Math.round(this.acTotalWh),
+        E_Year: null,
+        Meter_Location: isMaster ? 'grid' : 'unknown',
+        Mode: isMaster ? 'bidirectional' : 'produce-only',
+        P_Akku: this.battery ? this.power.batteryW : null,
+        P_Grid: isMaster ? this.power.gridW : null,
+        P_Load: isMaster ? -this.power.loadW : null,
+        P_PV: this.power.solarW,
+        rel_Autonomy: null,
+        rel_SelfConsumption: null
+      },
+      Version: '12'
+    }, {});
+  }
+
+  public getInverterInfo(): any {
+    const response = this.fixtureResponse('/solar_api/v1/GetInverterInfo.cgi');
+    const status = this.getStatus();
+    for (const inverter of Object.values(response.Body?.Data ?? {}) as any[]) {
+      inverter.StatusCode = status.statusCode;
+      inverter.ErrorCode = status.errorCode;
+      inverter.InverterState = status.inverterState;
+    }
+    return response;
+  }
+
+  public getInverterRealtimeData(): any {
+    const status = this.getStatus();
+    return this.wrap({
+      DAY_ENERGY: { Unit: 'Wh', Value: null },
+      DeviceStatus: {
+        ErrorCode: status.errorCode,
+        InverterState: status.inverterState,
+        StatusCode: status.statusCode
+      },
+      PAC: { Unit: 'W', Value: Math.round(this.power.solarW + this.power.batteryW) },
+      ...Object.fromEntries(this.getTrackerReadings().flatMap((tracker, index) => {
+        const suffix = index === 0 ? '' : `_${index + 1}`;
+        return [
+          [`IDC${suffix}`, { Unit: 'A', Value: tracker.currentA }],
+          [`UDC${suffix}`, { Unit: 'V', Value: tracker.voltageV }]
+        ];
+      })),
+      TOTAL_ENERGY: { Unit: 'Wh', Value: Math.round(this.acTotalWh) },
+      YEAR_ENERGY: { Unit: 'Wh', Value: null }
+    }, { DataCollection: 'CommonInverterData', DeviceId: '1', Scope: 'Device' });
+  }
+
+  public getStorageRealtimeData(): any {
+    const response = this.fixtureResponse('/solar_api/v1/GetStorageRealtimeData.cgi');
+    const controller = response.Body?.Data?.['0']?.Controller;
+    if (controller && this.battery) {
+      controller.StateOfCharge_Relative = Math.round(this.battery.soc * 10) / 10;
+      controller.Current_DC = controller.Voltage_DC ? this.power.batteryW / controller.Voltage_DC : 0;
+      controller.TimeStamp = Math.floor(this.now.getTime() / 1000);
+    }
+    return response;
+  }
+
+  public getMeterRealtimeData(): any {
+    const response = this.fixtureResponse('/solar_api/v1/GetMeterRealtimeData.cgi');
+    const meter = this.findGridMeter(response);
+    if (meter) {
+      meter.EnergyReal_WAC_Sum_Consumed = Math.round(this.gridConsumedWh);
+      meter.EnergyReal_WAC_Plus_Absolute = Math.round(this.gridConsumedWh);
+      meter.EnergyReal_WAC_Sum_Produced = Math.round(this.gridProducedWh);
+      meter.EnergyReal_WAC_Minus_Absolute = Math.round(this.gridProducedWh);
+      meter.PowerReal_P_Sum = this.power.gridW;
+      for (const phase of [1, 2, 3]) {
+        meter[`PowerReal_P_Phase_${phase}`] = this.power.gridW / 3;
+        // Keep the captured voltage and power factor, so current follows power
+        const voltage = meter[`Voltage_AC_Phase_${phase}`];
+        const powerFactor = Math.abs(meter[`PowerFactor_Phase_${phase}`]) || 1;
+        meter[`Current_AC_Phase_${phase}`] = voltage ? Math.abs(this.power.gridW / 3) / (voltage * powerFactor) : 0;
+      }
+      meter.Current_AC_Sum = [1, 2, 3].reduce((sum, phase) => sum + meter[`Current_AC_Phase_${phase}`], 0);
+      meter.TimeStamp = Math.floor(this.now.getTime() / 1000);
+    }
+    return response;
+  }
+
+  public getComponentsReadable(): any {
+    const response = this.fixtureResponse('/api/components/inverter/readable');
+    const channels = response.Body?.Data?.['0']?.channels;
+    if (channels) {
+      this.getTrackerReadings().forEach((reading, index) => {
+        const tracker = String(index + 1).padStart(2, '0');
+        channels[`PV_ENERGYACTIVE_ACTIVE_SUM_${tracker}_U64`] = Math.round(this.pvTrackerWs[index]);
+        channels[`PV_POWERACTIVE_MEAN_${tracker}_F32`] = reading.powerW;
+        channels[`PV_VOLTAGE_MEAN_${tracker}_F32`] = reading.voltageV;
+        channels[`PV_CURRENT_MEAN_${tracker}_F32`] = reading.currentA;
+      });
+      channels.BAT_ENERGYACTIVE_ACTIVECHARGE_SUM_01_U64 = Math.round(this.batteryChargeWs);
+      channels.BAT_ENERGYACTIVE_ACTIVEDISCHARGE_SUM_01_U64 = Math.round(this.batteryDischargeWs);
+      channels.BAT_POWERACTIVE_MEAN_F32 = this.power.batteryW;
+      channels.COMPONENTS_TIME_STAMP_U64 = Math.floor(this.now.getTime() / 1000);
+    }
+    if (response.Head) {
+      response.Head.Timestamp = this.now.toISOString();
+    }
+    return response;
+  }
+
+  // Helpers
+
+  // Solar power split across the trackers in proportion to their lifetime yield, so east/west stay distinguishable
+  private getTrackerReadings(): { powerW: number; voltageV: number; currentA: number }[] {
+    const channels = this.getChannelsFixture() ?? {};
+    const totalTrackerWs = this.pvTrackerWs.reduce((sum, value) => sum + value, 0);
+    return this.pvTrackerWs.map((value, index) => {
+      const powerW = totalTrackerWs > 0 ? this.power.solarW * value / totalTrackerWs : 0;
+      const tracker = String(index + 1).padStart(2, '0');
+      const voltageV = powerW > 0 ? MPP_VOLTAGE_V : channels[`PV_VOLTAGE_MEAN_${tracker}_F32`] ?? 0;
+      return { powerW, voltageV, currentA: powerW > 0 ? powerW / voltageV : 0 };
+    });
+  }
+
+  private getChannelsFixture(): any {
+    return this.fixture.responses['/api/components/inverter/readable']?.Body?.Data?.['0']?.channels;
+  }
+
+  private getGridMeterFixture(): any {
+    return this.findGridMeter(this.fixture.responses['/solar_api/v1/GetMeterRealtimeData.cgi']);
+  }
+
+  private findGridMeter(response: any): any {
+    return (Object.values(response?.Body?.Data ?? {}) as any[]).find(meter => meter.Meter_Location_Current === 0);
+  }
+
+  // Copy of a captured response with a fresh timestamp (empty Solar API response if none was captured)
+  private fixtureResponse(endpoint: string): any {
+    const captured = this.fixture.responses[endpoint];
+    const response = captured ? clone(captured) : this.wrap({}, {});
+    if (response.Head) {
+      response.Head.Timestamp = this.now.toISOString();
+    }
+    return response;
+  }
+
+  private wrap(data: any, requestArguments: Record<string, string>): any {
+    return {
+      Body: { Data: data },
+      Head: {
+        RequestArguments: requestArguments,
+        Status: { Code: 0, Reason: '', UserMessage: '' },
+        Timestamp: this.now.toISOString()
+      }
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Clock } from '@/lib/clock';
+
+/**
+ * A clock that only moves when told to
+ */
+export class FakeClock {
+  private current: Date;
+
+  constructor(start: Date | string = '2025-09-14T10:00:00Z') {
+    this.current = new Date(start);
+  }
+
+  public readonly now: Clock = () => new Date(this.current.getTime());
+
+  public advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+
+  public set(date: Date | string): void {
+    this.current = new Date(date);
+  }
+}
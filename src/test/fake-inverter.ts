@@ -0,0 +1,101 @@
+import { Inverter, PowerData, MeterData, MpptData, BatteryData } from '@/lib/inverter';
+import { MetersReading } from '@/lib/meter';
+import { Clock } from '@/lib/clock';
+
+export interface FakeInverterOptions {
+  clock: Clock;
+  isMaster?: boolean;
+  hasBattery?: boolean;   // Default: same as isMaster
+}
+
+// Power reported by the next poll (undefined fields are missing from the response)
+export interface FakePower {
+  solarW?: number;
+  batteryW?: number;
+  gridW?: number;
+  batterySoC?: number;
+  statusCode?: number;
+}
+
+/**
+ * An Inverter whose power flow is scripted instead of fetched, so Site can be exercised without a network.
+ * Readings go through the real integrators, timestamped by the injected clock.
+ */
+export class FakeInverter extends Inverter {
+  private nextPower: FakePower | null = null;
+  private nextMeter: Omit<MeterData, 'timestamp'> | null = null;
+  private nextBattery: Omit<BatteryData, 'timestamp'> | null = null;
+  private nextMppt: MpptData['trackers'] | null = null;
+
+  constructor(serialNumber: string, options: FakeInverterOptions) {
+    const isMaster = options.isMaster ?? false;
+    const hasBattery = options.hasBattery ?? isMaster;
+
+    super(
+      `fake-${serialNumber}`,
+      serialNumber,
+      isMaster,
+      { manufacturer: 'Fronius', model: 'Gen24', pvPowerW: 10000, customName: `Fake ${serialNumber}`, serialNumber },
+      undefined,
+      hasBattery ? { manufacturer: 'BYD', model: 'Fake Battery', capacityWh: 10000, enabled: true } : undefined,
+      isMaster ? { manufacturer: 'Fronius', model: 'Fake Meter', location: 'Grid (feed-in point)', locationCode: 0, enabled: true } : undefined,
+      options.clock
+    );
+  }
+
+  // Script the next readings (null = the inverter doesn't answer)
+  public setPower(power: FakePower | null): void {
+    this.nextPower = power;
+  }
+
+  // Script the next grid meter reading (null = no meter data)
+  public setMeter(meter: Omit<MeterData, 'timestamp'> | null): void {
+    this.nextMeter = meter;
+  }
+
+  // Script the next battery telemetry (null = the battery doesn't answer)
+  public setBatteryData(battery: Omit<BatteryData, 'timestamp'> | null): void {
+    this.nextBattery = battery;
+  }
+
+  // Script the next per-tracker DC readings (null = no MPPT data)
+  public setMppt(trackers: MpptData['trackers'] | null): void {
+    this.nextMppt = trackers;
+  }
+
+  public async fetchPowerFlow(): Promise<PowerData | null> {
+    if (!this.nextPower) {
+      this.recordFailure('timeout');
+      return null;
+    }
+
+    const { statusCode, ...power } = this.nextPower;
+    this.lastDataFetch = this.clock();
+    const powerData: PowerData = { ...power, timestamp: this.clock() };
+    this.recordPowerData(powerData, statusCode);
+    return powerData;
+  }
+
+  // Meters on the bus are scripted on each FakeMeter, so the shared reading is empty
+  public async fetchMeters(): Promise<MetersReading | null> {
+    return { meters: {}, timestamp: this.clock() };
+  }
+
+  public async fetchMeterData(): Promise<MeterData | null> {
+    this.lastMeterData = this.nextMeter ? { ...this.nextMeter, timestamp: this.clock() } : undefined;
+    return this.lastMeterData ?? null;
+  }
+
+  public async fetchMpptData(): Promise<MpptData | null> {
+    this.lastMpptData = this.nextMppt ? { trackers: this.nextMppt, timestamp: this.clock() } : undefined;
+    return this.lastMpptData ?? null;
+  }
+
+  public async fetchBatteryData(): Promise<BatteryData | null> {
+    this.lastBatteryData = this.nextBattery ? { ...this.nextBattery, timestamp: this.clock() } : undefined;
+    return this.lastBatteryData ?? null;
+  }
+
+  // No hardware registers - energy comes from integration only
+  public async fetchEnergyCounters(): Promise<void> {}
+}
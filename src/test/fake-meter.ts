@@ -0,0 +1,52 @@
+import { Meter, MeterPowerData, MetersReading } from '@/lib/meter';
+import { MeterCategory } from '@/types/device';
+import { Clock } from '@/lib/clock';
+
+// A Meter_Location_Current in each category's range
+const LOCATION_CODES: Partial<Record<MeterCategory, number>> = {
+  load: 1,
+  generator: 3,
+  subload: 256,
+  ev: 512,
+  storage: 769
+};
+
+export interface FakeMeterOptions {
+  clock: Clock;
+  category: MeterCategory;
+  ownerSerialNumber?: string;  // Default: MASTER1
+}
+
+/**
+ * A Meter whose power is scripted instead of fetched. Readings go through the real integrator.
+ */
+export class FakeMeter extends Meter {
+  private nextPowerW: number | null = null;
+
+  constructor(serialNumber: string, options: FakeMeterOptions) {
+    super(options.ownerSerialNumber ?? 'MASTER1', {
+      manufacturer: 'Fronius',
+      model: 'Fake Meter',
+      serial: serialNumber,
+      location: `Fake ${options.category}`,
+      locationCode: LOCATION_CODES[options.category],
+      deviceId: '1',
+      enabled: true
+    }, options.clock);
+  }
+
+  // Script the next power reading (null = the meter isn't in its owner's readings)
+  public setPower(powerW: number | null): void {
+    this.nextPowerW = powerW;
+  }
+
+  public updateFromReading(reading: MetersReading | null): MeterPowerData | null {
+    if (!reading || this.nextPowerW === null) {
+      this.lastPowerData = undefined;
+      return null;
+    }
+    const powerData = { powerW: this.nextPowerW, timestamp: this.clock() };
+    this.recordPowerData(powerData);
+    return powerData;
+  }
+}
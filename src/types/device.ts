@@ -14,11 +14,16 @@ export interface InverterInfo {
   serialNumber: string;
 }
 
+// What a meter measures, from its Meter_Location_Current range
+export type MeterCategory = 'grid' | 'load' | 'generator' | 'subload' | 'ev' | 'storage' | 'unknown';
+
 export interface MeterInfo {
   manufacturer?: string;
   model?: string;
   serial?: string;
   location?: string;
+  locationCode?: number;  // Meter_Location_Current (0 = grid feed-in point)
+  deviceId?: string;      // Key in GetMeterRealtimeData's Scope=System response
   enabled?: boolean;
 }
 
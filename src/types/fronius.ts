@@ -27,4 +27,27 @@ export interface FroniusMinutely {
   faultTimestamp: string | null;  // Formatted using formatLocalDateTime
   
   generatorStatus: null;  // Fronius doesn't have generator
-}
\ No newline at end of file
+  
+  energySources?: EnergySources;  // Local only - stripped before pushing to LiveOne
+  
+  // Local only, and only on sites with subload or EV charger meters - these are part of load, not added to it
+  subloadW?: number;
+  subloadWhInterval?: number;
+  evW?: number;
+  evWhInterval?: number;
+}
+
+// Where an interval's energy came from: hardware registers, power integration, or a mix of the two across inverters
+export type EnergySource = 'hardware' | 'integrated' | 'mixed';
+
+// Energy source per flow (null when the flow isn't present)
+export interface EnergySources {
+  solar: EnergySource | null;
+  battery: EnergySource | null;
+  grid: EnergySource | null;
+}
+
+// FroniusMinutely restricted to a single inverter (load is only known at site level, so it is always 0)
+export interface InverterMinutely extends FroniusMinutely {
+  serialNumber: string;
+}